@@ -1,25 +1,57 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { RecipeDisplay } from './components/RecipeDisplay';
 import { LoadingState } from './components/LoadingState';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
-import * as geminiService from './services/geminiService';
-import type { Recipe, AvailableIngredient, MealType } from './types';
+import { recipeAI } from './services/aiProvider';
+import type { RecipeStreamHandlers } from './services/aiProvider';
+import type { Recipe, AvailableIngredient, MealType, SavedRecipe, DietaryProfile, ImageStatus, MealPlan, MealPlanOptions, PlannedMeal, RecipeConstraints, ScanMode, Equipment } from './types';
 import { IngredientEditor } from './components/IngredientEditor';
+import { RecipeBook } from './components/RecipeBook';
+import { SettingsPanel } from './components/SettingsPanel';
+import { MealPlanner } from './components/MealPlanner';
 import { useTranslation } from './useTranslation';
 import { supportedLanguages } from './languages';
 import { translations } from './translations';
-import type { LanguageCode } from './translations';
-
-type AppState = 'initial' | 'loading' | 'confirming_ingredients' | 'results' | 'error';
+import type { LanguageCode, TranslationKey } from './translations';
+import { loadPantry, savePantry, clearPantry, mergeScannedIngredients, mergePurchasedIngredients, withoutDetections, deductCookedRecipe, loadPantryStaples, savePantryStaples } from './services/pantryStore';
+import { loadDietaryProfile, saveDietaryProfile, findFlaggedAllergens } from './services/dietaryProfile';
+import { listSavedRecipes, saveRecipe, updateSavedRecipe, deleteSavedRecipe, isSameRecipe } from './services/recipeBook';
+import { createImageJobQueue, ImageJobCancelledError } from './services/imageQueue';
+import { EmptyResultError, getAIErrorKind } from './services/aiErrors';
+import { findAvailableIngredient, isPantryStaple } from './services/ingredientMatching';
+import type { AIErrorKind } from './services/aiErrors';
+import { loadMealPlan, saveMealPlan, clearMealPlan, markMealCooked } from './services/mealPlan';
+import { findExpiringIngredients } from './services/freshness';
+import { loadUnavailableEquipment, saveUnavailableEquipment } from './services/kitchenEquipment';
+import { decodeProductCodes } from './services/barcode';
+import { lookupProduct, rememberScannedProducts } from './services/productCatalog';
+import { parseIngredientText } from './services/ingredientText';
+import { parseStructuredRecipes } from './services/recipeImport';
+
+type AppState = 'initial' | 'loading' | 'confirming_ingredients' | 'results' | 'error' | 'recipe_book' | 'meal_plan';
 const MAX_INGREDIENTS = 50;
 
+const SCAN_EMPTY_ERRORS: Record<ScanMode, TranslationKey> = {
+  fridge: 'errorIdentifyIngredients',
+  barcode: 'errorNoBarcodes',
+  receipt: 'errorReadReceipt',
+};
+
+const ERROR_TITLES: Record<AIErrorKind, TranslationKey> = {
+  parse: 'errorParseTitle',
+  empty: 'errorEmptyTitle',
+  quota: 'errorQuotaTitle',
+  unexpected: 'errorTitle',
+};
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('initial');
   const [recipes, setRecipes] = useState<Recipe[] | null>(null);
   const [availableIngredients, setAvailableIngredients] = useState<AvailableIngredient[] | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<AIErrorKind>('unexpected');
   const [loadingMessage, setLoadingMessage] = useState('');
   
   const [language, setLanguage] = useState<LanguageCode>('en');
@@ -28,9 +60,34 @@ const App: React.FC = () => {
   const [creativityLevel, setCreativityLevel] = useState(3);
   const [mealType, setMealType] = useState<MealType>({ hot: true, cold: true });
   const [isGeneratingMore, setIsGeneratingMore] = useState(false);
+  const [imageStatus, setImageStatus] = useState<Record<number, ImageStatus>>({});
+  const imageQueue = useMemo(() => createImageJobQueue({ concurrency: 2 }), []);
+  // Bumped on "Start over" so callbacks from the previous session are ignored.
+  const sessionRef = useRef(0);
+  const [savedPantry, setSavedPantry] = useState<AvailableIngredient[]>(() => loadPantry());
+  const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+  // Where "Back" returns to from the recipe book or the meal planner.
+  const [stateBeforeOverlay, setStateBeforeOverlay] = useState<AppState>('initial');
+  const [mealPlan, setMealPlan] = useState<MealPlan | null>(() => loadMealPlan());
+  const [isPlanningMeals, setIsPlanningMeals] = useState(false);
+  const [mealPlanError, setMealPlanError] = useState<string | null>(null);
+  const [isImportingRecipes, setIsImportingRecipes] = useState(false);
+  const [recipeImportError, setRecipeImportError] = useState<string | null>(null);
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(() => loadDietaryProfile());
+  const [pantryStaples, setPantryStaples] = useState<string[]>(() => loadPantryStaples());
+  const [unavailableEquipment, setUnavailableEquipment] = useState<Equipment[]>(() => loadUnavailableEquipment());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Object URLs of the fridge photos behind the current ingredient list, for reviewing detections.
+  const [scanPhotos, setScanPhotos] = useState<string[]>([]);
 
   const { t } = useTranslation(language, allTranslations);
 
+  useEffect(() => {
+    listSavedRecipes()
+      .then(setSavedRecipes)
+      .catch(err => console.error("Failed to load the recipe book:", err));
+  }, []);
+
   const loadingSteps = [
     t('loading_step_1'),
     t('loading_step_2'),
@@ -44,174 +101,420 @@ const App: React.FC = () => {
   }, [JSON.stringify(loadingSteps)]);
 
 
+  const handleDietaryProfileChange = useCallback((profile: DietaryProfile) => {
+    setDietaryProfile(profile);
+    saveDietaryProfile(profile);
+  }, []);
+
+  const handlePantryStaplesChange = useCallback((staples: string[]) => {
+    setPantryStaples(staples);
+    savePantryStaples(staples);
+  }, []);
+
+  const handleUnavailableEquipmentChange = useCallback((equipment: Equipment[]) => {
+    setUnavailableEquipment(equipment);
+    saveUnavailableEquipment(equipment);
+  }, []);
+
   const handleLanguageChange = useCallback((newLangCode: LanguageCode) => {
     if (newLangCode === language) return;
     setLanguage(newLangCode);
   }, [language]);
 
-  const handleImageAnalysis = useCallback(async (imageFiles: File[]) => {
+  const replaceScanPhotos = useCallback((files: File[]) => {
+    setScanPhotos(prev => {
+      prev.forEach(url => URL.revokeObjectURL(url));
+      return files.map(file => URL.createObjectURL(file));
+    });
+  }, []);
+
+  const handleImageAnalysis = useCallback(async (imageFiles: File[], mode: ScanMode) => {
     setAppState('loading');
     setError(null);
     setLoadingMessage(loadingSteps[0]);
 
     try {
-      const ingredients = (await geminiService.analyzeFridgeContents(imageFiles)).slice(0, MAX_INGREDIENTS);
-      if (!ingredients || ingredients.length === 0) throw new Error(t('errorIdentifyIngredients'));
+      let ingredients: AvailableIngredient[];
+      if (mode === 'barcode') {
+        // Barcodes are decoded on the device; only unknown names are left for the user.
+        const codes = (await Promise.all(imageFiles.map(decodeProductCodes))).flat();
+        ingredients = codes.map(lookupProduct);
+      } else if (mode === 'receipt') {
+        ingredients = await recipeAI.analyzeReceipt(imageFiles);
+      } else {
+        ingredients = await recipeAI.analyzeFridgeContents(imageFiles);
+      }
+      ingredients = ingredients.slice(0, MAX_INGREDIENTS);
+      if (ingredients.length === 0) throw new EmptyResultError(t(SCAN_EMPTY_ERRORS[mode]));
 
       const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
-      let finalIngredients = ingredients;
-
-      if (languageName !== 'English') {
-          finalIngredients = await geminiService.translateIngredientList(ingredients, languageName);
+      const named = ingredients.filter(ing => ing.name !== '');
+      const unnamed = ingredients.filter(ing => ing.name === '');
+      const translated = languageName !== 'English' && named.length > 0
+        ? await recipeAI.translateIngredientList(named, languageName)
+        : named;
+      const scanned = [...translated, ...unnamed];
+
+      // New scans are merged into a list that is still being confirmed, or else into the saved pantry.
+      const base = availableIngredients ?? loadPantry();
+      let merged: AvailableIngredient[];
+      if (mode === 'fridge') {
+        // Boxes from an earlier scan point at photos that are about to be replaced.
+        merged = mergeScannedIngredients(withoutDetections(base), scanned);
+        replaceScanPhotos(imageFiles);
+      } else {
+        merged = mergePurchasedIngredients(base, scanned);
       }
-      
-      setAvailableIngredients(finalIngredients);
+      setAvailableIngredients(merged.slice(0, MAX_INGREDIENTS));
       setAppState('confirming_ingredients');
     } catch (err: any) {
       console.error("Error during ingredient analysis:", err);
-      setError(err.message || t('errorUnexpected'));
+      const kind = getAIErrorKind(err);
+      setErrorKind(kind);
+      setError(kind === 'empty' ? t(SCAN_EMPTY_ERRORS[mode]) : err.message || t('errorUnexpected'));
       setAppState('error');
     }
-  }, [t, loadingSteps, language]);
+  }, [t, loadingSteps, language, availableIngredients, replaceScanPhotos]);
 
-  const handleRecipeGeneration = useCallback(async (confirmedIngredients: AvailableIngredient[]) => {
+  const handleTextEntry = useCallback(async (text: string) => {
     setAppState('loading');
     setError(null);
-    setAvailableIngredients(confirmedIngredients);
-    const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
+    setLoadingMessage(loadingSteps[0]);
 
     try {
-      // Step 2: Generate initial recipes
-      setLoadingMessage(loadingSteps[2]);
-      const recipeResults = await geminiService.generateMultipleRecipes(confirmedIngredients, languageName, 3, [], { hot: true, cold: true });
-
-      // Defensively filter recipes to ensure they only use available ingredients
-      const normalizeString = (str: string) => str.toLowerCase().replace(/s$/, '');
-      const pantryStaples = ['salt', 'pepper', 'oil', 'water'];
-
-      const filteredRecipes = recipeResults.filter(recipe => {
-        return recipe.ingredients.every(recipeIng => {
-          const normalizedRecipeIngName = normalizeString(recipeIng.name);
-          
-          if (pantryStaples.some(staple => normalizedRecipeIngName.includes(staple))) {
-            return true;
-          }
-
-          return confirmedIngredients.some(availableIng => 
-            normalizeString(availableIng.name) === normalizedRecipeIngName
-          );
+      // Simple lists are read on the device; only phrases without a clear amount go to the model.
+      const { items, unparsed } = parseIngredientText(text);
+      const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
+      const estimated = unparsed.length > 0
+        ? await recipeAI.extractIngredientsFromText(unparsed.join(', '), languageName).catch(err => {
+            // Leftover phrases with no food in them ("um") don't undo what was read on the device.
+            if (items.length > 0 && getAIErrorKind(err) === 'empty') return [];
+            throw err;
+          })
+        : [];
+      const ingredients = [...items, ...estimated].slice(0, MAX_INGREDIENTS);
+      if (ingredients.length === 0) throw new EmptyResultError(t('errorReadIngredientText'));
+
+      const base = availableIngredients ?? loadPantry();
+      setAvailableIngredients(mergeScannedIngredients(base, ingredients).slice(0, MAX_INGREDIENTS));
+      setAppState('confirming_ingredients');
+    } catch (err: any) {
+      console.error("Error while reading the ingredient text:", err);
+      const kind = getAIErrorKind(err);
+      setErrorKind(kind);
+      setError(kind === 'empty' ? t('errorReadIngredientText') : err.message || t('errorUnexpected'));
+      setAppState('error');
+    }
+  }, [t, loadingSteps, language, availableIngredients]);
+
+  const handleScanMore = useCallback((ingredients: AvailableIngredient[]) => {
+    setAvailableIngredients(ingredients);
+    setAppState('initial');
+  }, []);
+
+  const handleUseSavedPantry = useCallback(() => {
+    setError(null);
+    setAvailableIngredients(loadPantry());
+    setAppState('confirming_ingredients');
+  }, []);
+
+  const handleSavePantry = useCallback((ingredients: AvailableIngredient[]) => {
+    rememberScannedProducts(ingredients);
+    setSavedPantry(savePantry(ingredients));
+  }, []);
+
+  const handleClearPantry = useCallback(() => {
+    clearPantry();
+    setSavedPantry([]);
+  }, []);
+
+  // Defensively filter recipes to ensure they only use available ingredients
+  const isRecipeUsable = useCallback((recipe: Recipe, available: AvailableIngredient[]) => {
+    // The prompt asks the model to avoid allergens, but we never trust that with someone's health.
+    if (findFlaggedAllergens(recipe, dietaryProfile).length > 0) {
+      return false;
+    }
+
+    return recipe.ingredients.every(recipeIng =>
+      isPantryStaple(recipeIng.name, pantryStaples) || findAvailableIngredient(recipeIng.name, available) !== undefined
+    );
+  }, [dietaryProfile, pantryStaples]);
+
+  const buildConstraints = useCallback((ingredients: AvailableIngredient[]): RecipeConstraints => ({
+    dietaryProfile,
+    pantryStaples,
+    expiringIngredients: findExpiringIngredients(ingredients).map(item => item.name),
+    unavailableEquipment,
+  }), [dietaryProfile, pantryStaples, unavailableEquipment]);
+
+  // Images are tracked by the recipe's position in the list, as two recipes may share a name.
+  const requestImage = useCallback((recipe: Recipe, index: number) => {
+    const session = sessionRef.current;
+    setImageStatus(prev => ({ ...prev, [index]: 'loading' }));
+
+    imageQueue.enqueue(() => recipeAI.generateMealImage(recipe.recipeName, recipe.description))
+      .then(imageUrl => {
+        if (session !== sessionRef.current) return;
+        setRecipes(prev => prev && prev.map((r, i) => i === index ? { ...r, imageUrl } : r));
+        setImageStatus(prev => {
+          const { [index]: _done, ...rest } = prev;
+          return rest;
         });
+      })
+      .catch(err => {
+        if (err instanceof ImageJobCancelledError || session !== sessionRef.current) return;
+        console.warn(`Could not generate image for "${recipe.recipeName}".`, err);
+        setImageStatus(prev => ({ ...prev, [index]: 'failed' }));
       });
+  }, [imageQueue]);
 
-      if (!filteredRecipes || filteredRecipes.length === 0) {
-        throw new Error(t('errorNoRecipes'));
-      }
+  const handleRecipeGeneration = useCallback(async (confirmedIngredients: AvailableIngredient[]) => {
+    setAppState('loading');
+    setError(null);
+    setRecipes(null);
+    setImageStatus({});
+    const session = sessionRef.current;
+    rememberScannedProducts(confirmedIngredients);
+    replaceScanPhotos([]);
+    const pantryItems = savePantry(confirmedIngredients);
+    setSavedPantry(pantryItems);
+    setAvailableIngredients(pantryItems);
+    const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
 
-      setRecipes(filteredRecipes);
-
-      // Step 3 & 4: Generate images
-      setLoadingMessage(loadingSteps[3]);
-      const recipesToUpdate = [...filteredRecipes];
-      for (let i = 0; i < recipesToUpdate.length; i++) {
-        try {
-          const imageUrl = await geminiService.generateMealImage(
-            recipesToUpdate[i].recipeName,
-            recipesToUpdate[i].description
-          );
-          recipesToUpdate[i] = { ...recipesToUpdate[i], imageUrl };
-          setRecipes([...recipesToUpdate]);
-        } catch (imageError) {
-          console.warn(`Could not generate image for "${recipesToUpdate[i].recipeName}".`);
-        }
-        
-        if (i < recipesToUpdate.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1500));
-        }
+    const accepted: Recipe[] = [];
+    let streamedCount = 0;
+    const acceptRecipe = (recipe: Recipe) => {
+      if (session !== sessionRef.current || !isRecipeUsable(recipe, confirmedIngredients)) return;
+      accepted.push(recipe);
+      setRecipes(prev => [...(prev ?? []), recipe]);
+      requestImage(recipe, accepted.length - 1);
+      // Show the first card straight away; the rest stream in below it.
+      if (accepted.length === 1) {
+        setIsGeneratingMore(true);
+        setAppState('results');
       }
+    };
+    const handlers: RecipeStreamHandlers = {
+      onProgress: ({ started, completed }) => {
+        if (session === sessionRef.current && started > completed) {
+          setLoadingMessage(t('loadingWritingRecipe', { count: started }));
+        }
+      },
+      onRecipe: recipe => {
+        streamedCount++;
+        acceptRecipe(recipe);
+      },
+    };
 
-      setLoadingMessage(loadingSteps[4]);
-      setTimeout(() => {
-        setAppState('results');
-      }, 500);
+    try {
+      setLoadingMessage(t('loadingSendingIngredients'));
+      const recipeResults = await recipeAI.generateMultipleRecipes(confirmedIngredients, languageName, 3, [], { hot: true, cold: true }, buildConstraints(confirmedIngredients), handlers);
 
+      // Providers that can't stream only hand back the finished list.
+      if (streamedCount === 0) {
+        recipeResults.forEach(acceptRecipe);
+      }
+
+      if (session !== sessionRef.current) return;
+      if (accepted.length === 0) {
+        throw new EmptyResultError(t('errorNoRecipes'));
+      }
     } catch (err: any) {
+      // If the stream broke after some recipes arrived, keep showing those.
+      if (session !== sessionRef.current) return;
+      if (accepted.length > 0) {
+        console.warn("Recipe generation ended early:", err);
+        return;
+      }
       console.error("Error during recipe generation:", err);
-      setError(err.message || t('errorUnexpected'));
+      const kind = getAIErrorKind(err);
+      setErrorKind(kind);
+      setError(kind === 'empty' ? t('errorNoRecipes') : err.message || t('errorUnexpected'));
       setAppState('error');
+    } finally {
+      setIsGeneratingMore(false);
     }
-  }, [language, t, loadingSteps]);
+  }, [language, t, buildConstraints, isRecipeUsable, requestImage, replaceScanPhotos]);
 
   const handleGenerateMoreRecipes = useCallback(async () => {
     if (!availableIngredients || !recipes) return;
     setIsGeneratingMore(true);
     setError(null);
+    const session = sessionRef.current;
     const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
 
+    const accepted: Recipe[] = [];
+    let streamedCount = 0;
+    const acceptRecipe = (recipe: Recipe) => {
+      if (session !== sessionRef.current || !isRecipeUsable(recipe, availableIngredients)) return;
+      accepted.push(recipe);
+      setRecipes(prev => [...(prev ?? []), recipe]);
+      requestImage(recipe, recipes.length + accepted.length - 1);
+    };
+
     try {
-        const newRecipeResults = await geminiService.generateMultipleRecipes(
+        const newRecipeResults = await recipeAI.generateMultipleRecipes(
             availableIngredients,
             languageName,
             creativityLevel,
             recipes,
-            mealType
+            mealType,
+            buildConstraints(availableIngredients),
+            { onRecipe: recipe => { streamedCount++; acceptRecipe(recipe); } }
         );
 
-        const normalizeString = (str: string) => str.toLowerCase().replace(/s$/, '');
-        const pantryStaples = ['salt', 'pepper', 'oil', 'water'];
-
-        const filteredNewRecipes = newRecipeResults.filter(recipe => {
-            return recipe.ingredients.every(recipeIng => {
-                const normalizedRecipeIngName = normalizeString(recipeIng.name);
-                if (pantryStaples.some(staple => normalizedRecipeIngName.includes(staple))) {
-                    return true;
-                }
-                return availableIngredients.some(availableIng => 
-                    normalizeString(availableIng.name) === normalizedRecipeIngName
-                );
-            });
-        });
-
-        if (!filteredNewRecipes || filteredNewRecipes.length === 0) {
-            console.warn("No new distinct recipes could be generated.");
-            // Here you could set a toast notification message
-            setIsGeneratingMore(false);
-            return;
+        if (streamedCount === 0) {
+            newRecipeResults.forEach(acceptRecipe);
         }
 
-        const combinedRecipes = [...recipes, ...filteredNewRecipes];
-        setRecipes(combinedRecipes);
-
-        const recipesToUpdate = [...combinedRecipes];
-        for (let i = recipes.length; i < recipesToUpdate.length; i++) {
-            try {
-                const imageUrl = await geminiService.generateMealImage(
-                    recipesToUpdate[i].recipeName,
-                    recipesToUpdate[i].description
-                );
-                recipesToUpdate[i] = { ...recipesToUpdate[i], imageUrl };
-                setRecipes([...recipesToUpdate]);
-            } catch (imageError) {
-                console.warn(`Could not generate image for "${recipesToUpdate[i].recipeName}".`);
-            }
-            if (i < recipesToUpdate.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 1500));
-            }
+        if (session === sessionRef.current && accepted.length === 0) {
+            throw new EmptyResultError(t('errorNoMoreRecipes'));
         }
     } catch (err: any) {
+        // The recipes already shown stay; the error appears under the "generate more" button.
+        if (session !== sessionRef.current) return;
         console.error("Error generating more recipes:", err);
-        // Set a small error message on the component itself rather than a full page error
+        const kind = getAIErrorKind(err);
+        setErrorKind(kind);
+        setError(kind === 'empty' ? t('errorNoMoreRecipes') : err.message || t('errorUnexpected'));
     } finally {
         setIsGeneratingMore(false);
     }
-  }, [availableIngredients, recipes, creativityLevel, language, t, mealType]);
+  }, [availableIngredients, recipes, creativityLevel, language, mealType, t, buildConstraints, isRecipeUsable, requestImage]);
+
+  // Outside a recipe session (e.g. in the recipe book) recipes are checked against the saved pantry.
+  const currentPantry = availableIngredients ?? savedPantry;
+
+  const handleMarkCooked = useCallback((recipe: Recipe, servingCount: number) => {
+    const remaining = savePantry(deductCookedRecipe(currentPantry, recipe, servingCount, pantryStaples));
+    setSavedPantry(remaining);
+    // Updating the available ingredients re-computes max servings on every card.
+    if (availableIngredients) {
+      setAvailableIngredients(remaining);
+    }
+  }, [currentPantry, availableIngredients, pantryStaples]);
+
+  const isRecipeSaved = useCallback((recipe: Recipe) => (
+    savedRecipes.some(saved => isSameRecipe(saved.recipe, recipe))
+  ), [savedRecipes]);
+
+  const handleSaveRecipe = useCallback(async (recipe: Recipe) => {
+    try {
+      const saved = await saveRecipe(recipe, savedRecipes);
+      setSavedRecipes(prev => [saved, ...prev.filter(entry => entry.id !== saved.id)]);
+    } catch (err) {
+      console.error("Failed to save recipe:", err);
+    }
+  }, [savedRecipes]);
+
+  // Resolves to the number of recipes added; failures are reported through `recipeImportError`.
+  const handleImportRecipes = useCallback(async (text: string): Promise<number> => {
+    setIsImportingRecipes(true);
+    setRecipeImportError(null);
+
+    try {
+      // JSON-LD and our own Markdown export are read on the device; anything else goes to the model.
+      const structured = parseStructuredRecipes(text);
+      const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
+      const recipes = structured ? structured.recipes : await recipeAI.parseRecipeText(text, languageName);
+      if (recipes.length === 0) throw new EmptyResultError(t('errorImportRecipes'));
+
+      const added: SavedRecipe[] = [];
+      for (const recipe of recipes) {
+        added.push(await saveRecipe(recipe, [...added, ...savedRecipes]));
+      }
+      const addedIds = new Set(added.map(saved => saved.id));
+      setSavedRecipes(prev => [...added, ...prev.filter(entry => !addedIds.has(entry.id))]);
+      return recipes.length;
+    } catch (err: any) {
+      console.error("Error while importing recipes:", err);
+      const kind = getAIErrorKind(err);
+      setRecipeImportError(kind === 'quota' ? t('errorQuotaMessage') : kind === 'unexpected' ? err.message || t('errorUnexpected') : t('errorImportRecipes'));
+      return 0;
+    } finally {
+      setIsImportingRecipes(false);
+    }
+  }, [savedRecipes, language, t]);
+
+  const handleUpdateSavedRecipe = useCallback(async (saved: SavedRecipe) => {
+    setSavedRecipes(prev => prev.map(entry => entry.id === saved.id ? saved : entry));
+    try {
+      await updateSavedRecipe(saved);
+    } catch (err) {
+      console.error("Failed to update saved recipe:", err);
+    }
+  }, []);
+
+  const handleDeleteSavedRecipe = useCallback(async (id: string) => {
+    setSavedRecipes(prev => prev.filter(entry => entry.id !== id));
+    try {
+      await deleteSavedRecipe(id);
+    } catch (err) {
+      console.error("Failed to delete saved recipe:", err);
+    }
+  }, []);
+
+  const handleGenerateMealPlan = useCallback(async (options: MealPlanOptions) => {
+    setIsPlanningMeals(true);
+    setMealPlanError(null);
+    const languageName = supportedLanguages.find(lang => lang.code === language)?.name || 'English';
+
+    try {
+      const meals = await recipeAI.generateMealPlan(currentPantry, languageName, options, buildConstraints(currentPantry));
+      // Same allergen safety net as single recipes; a flagged meal leaves its slot empty.
+      const safeMeals = meals.filter(meal => findFlaggedAllergens(meal.recipe, dietaryProfile).length === 0);
+      if (safeMeals.length === 0) throw new EmptyResultError(t('errorMealPlan'));
+
+      const plan: MealPlan = { options, meals: safeMeals, createdAt: new Date().toISOString() };
+      setMealPlan(plan);
+      saveMealPlan(plan);
+    } catch (err: any) {
+      console.error("Error during meal planning:", err);
+      const kind = getAIErrorKind(err);
+      setMealPlanError(kind === 'quota' ? t('errorQuotaMessage') : kind === 'unexpected' ? err.message || t('errorUnexpected') : t('errorMealPlan'));
+    } finally {
+      setIsPlanningMeals(false);
+    }
+  }, [currentPantry, language, t, dietaryProfile, buildConstraints]);
+
+  // The plan remembers the meal, so its ingredients aren't counted against the pantry a second time.
+  const handleMarkPlannedMealCooked = useCallback((meal: PlannedMeal, servingCount: number) => {
+    handleMarkCooked(meal.recipe, servingCount);
+    if (!mealPlan) return;
+    const plan = markMealCooked(mealPlan, meal);
+    setMealPlan(plan);
+    saveMealPlan(plan);
+  }, [handleMarkCooked, mealPlan]);
+
+  const handleClearMealPlan = useCallback(() => {
+    clearMealPlan();
+    setMealPlan(null);
+  }, []);
+
+  const openOverlay = (target: 'recipe_book' | 'meal_plan') => {
+    if (appState === target) return;
+    // Switching between the two keeps the original screen to return to.
+    if (appState !== 'recipe_book' && appState !== 'meal_plan') {
+      setStateBeforeOverlay(appState);
+    }
+    setAppState(target);
+  };
 
   const handleReset = () => {
+    sessionRef.current++;
+    imageQueue.cancelAll();
+    replaceScanPhotos([]);
+    setImageStatus({});
+    setIsGeneratingMore(false);
     setAppState('initial');
     setRecipes(null);
     setAvailableIngredients(null);
     setError(null);
   };
 
+  // Parse and quota errors get a fixed explanation; the others carry their own message.
+  const errorMessage = errorKind === 'parse' ? t('errorParseMessage') : errorKind === 'quota' ? t('errorQuotaMessage') : error;
+
   const renderContent = () => {
     switch (appState) {
       case 'loading':
@@ -220,8 +523,11 @@ const App: React.FC = () => {
         return (
           availableIngredients && <IngredientEditor 
             initialIngredients={availableIngredients} 
+            photos={scanPhotos}
             onConfirm={handleRecipeGeneration} 
             onCancel={handleReset} 
+            onSavePantry={handleSavePantry}
+            onScanMore={handleScanMore}
             t={t}
             maxIngredients={MAX_INGREDIENTS}
           />
@@ -233,13 +539,21 @@ const App: React.FC = () => {
               <RecipeDisplay 
                 recipes={recipes} 
                 availableIngredients={availableIngredients} 
+                pantryStaples={pantryStaples}
+                language={language}
                 t={t}
                 creativityLevel={creativityLevel}
                 onCreativityChange={setCreativityLevel}
                 isGeneratingMore={isGeneratingMore}
+                imageStatus={imageStatus}
+                onRetryImage={requestImage}
                 onGenerateMore={handleGenerateMoreRecipes}
+                generateMoreError={error && errorMessage}
                 mealType={mealType}
                 onMealTypeChange={setMealType}
+                onMarkCooked={handleMarkCooked}
+                isRecipeSaved={isRecipeSaved}
+                onSaveRecipe={handleSaveRecipe}
               />
             )}
             <button
@@ -250,11 +564,56 @@ const App: React.FC = () => {
             </button>
           </div>
         );
+      case 'recipe_book':
+        return (
+          <RecipeBook
+            savedRecipes={savedRecipes}
+            availableIngredients={currentPantry}
+            pantryStaples={pantryStaples}
+            onUpdateRecipe={handleUpdateSavedRecipe}
+            onDeleteRecipe={handleDeleteSavedRecipe}
+            onImportRecipes={handleImportRecipes}
+            isImporting={isImportingRecipes}
+            importError={recipeImportError}
+            onMarkCooked={handleMarkCooked}
+            onBack={() => setAppState(stateBeforeOverlay)}
+            language={language}
+            t={t}
+          />
+        );
+      case 'meal_plan':
+        return (
+          <MealPlanner
+            plan={mealPlan}
+            availableIngredients={currentPantry}
+            pantryStaples={pantryStaples}
+            isGenerating={isPlanningMeals}
+            error={mealPlanError}
+            onGenerate={handleGenerateMealPlan}
+            onClearPlan={handleClearMealPlan}
+            onMarkCooked={handleMarkPlannedMealCooked}
+            isRecipeSaved={isRecipeSaved}
+            onSaveRecipe={handleSaveRecipe}
+            onBack={() => setAppState(stateBeforeOverlay)}
+            language={language}
+            t={t}
+          />
+        );
       case 'error':
         return (
           <div className="text-center bg-[--color-surface] p-8 rounded-2xl shadow-lg">
-            <h2 className="text-2xl font-bold text-red-600 mb-4">{t('errorTitle')}</h2>
-            <p className="text-[--color-text-secondary] bg-red-50 p-4 rounded-lg">{error}</p>
+            <h2 className="text-2xl font-bold text-red-600 mb-4">{t(ERROR_TITLES[errorKind])}</h2>
+            <p className="text-[--color-text-secondary] bg-red-50 p-4 rounded-lg">
+              {errorMessage}
+            </p>
+            {errorKind === 'empty' && availableIngredients && (
+              <button
+                onClick={() => setAppState('confirming_ingredients')}
+                className="mt-8 secondary-button"
+              >
+                {t('errorEditIngredients')}
+              </button>
+            )}
             <button
               onClick={handleReset}
               className="mt-8 primary-button"
@@ -267,8 +626,13 @@ const App: React.FC = () => {
       default:
         return <ImageUploader 
                   onImageUpload={handleImageAnalysis} 
+                  onTextSubmit={handleTextEntry}
+                  pendingIngredientCount={availableIngredients?.length ?? 0}
                   onLanguageChange={handleLanguageChange}
                   selectedLanguage={language}
+                  savedPantryCount={savedPantry.length}
+                  onUseSavedPantry={handleUseSavedPantry}
+                  onClearSavedPantry={handleClearPantry}
                   t={t}
                 />;
     }
@@ -276,13 +640,30 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col bg-[--color-bg]">
-      <Header t={t} />
+      <Header
+        t={t}
+        onOpenRecipeBook={appState !== 'loading' ? () => openOverlay('recipe_book') : undefined}
+        onOpenMealPlanner={appState !== 'loading' ? () => openOverlay('meal_plan') : undefined}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+      />
       <main className="flex-grow w-full p-4 md:p-8">
         <div className="flex items-center justify-center w-full">
           {renderContent()}
         </div>
       </main>
       <Footer t={t} />
+      {isSettingsOpen && (
+        <SettingsPanel
+          dietaryProfile={dietaryProfile}
+          onDietaryProfileChange={handleDietaryProfileChange}
+          pantryStaples={pantryStaples}
+          onPantryStaplesChange={handlePantryStaplesChange}
+          unavailableEquipment={unavailableEquipment}
+          onUnavailableEquipmentChange={handleUnavailableEquipmentChange}
+          onClose={() => setIsSettingsOpen(false)}
+          t={t}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Recipe } from '../types';
+import { ArrowLeftIcon, CloseIcon, MicrophoneIcon, SpeakerIcon, TimerIcon } from './icons';
+import type { TFunction } from '../translations';
+import { detectStepDurations, formatMinutes, formatTimer, getRecipeSteps, getStepIngredients } from '../services/cookingSteps';
+import { matchVoiceCommand } from '../services/voiceCommands';
+import { useWakeLock } from '../useWakeLock';
+import { useSpeechSynthesis } from '../useSpeechSynthesis';
+import { useSpeechRecognition } from '../useSpeechRecognition';
+
+interface CookModeProps {
+  recipe: Recipe;
+  servingCount: number;
+  // Language code the recipe is in; steps are read out and commands heard in it.
+  language: string;
+  onClose: () => void;
+  t: TFunction;
+}
+
+interface CookingTimer {
+  id: number;
+  stepIndex: number;
+  label: string;
+  // Set while running; a paused timer keeps what was left in `remainingMs`.
+  endsAt: number | null;
+  remainingMs: number;
+  isFinished: boolean;
+}
+
+const TICK_MS = 500;
+// The recognizer delivers what it heard a moment after the app stops talking.
+const ECHO_GRACE_MS = 800;
+
+// Three short beeps. Browsers only allow audio after a user gesture, so the
+// context is created when the first timer is started.
+const playAlert = (context: AudioContext | null) => {
+  navigator.vibrate?.([300, 150, 300, 150, 300]);
+  if (!context) return;
+  for (let i = 0; i < 3; i++) {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain).connect(context.destination);
+    const start = context.currentTime + i * 0.35;
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  }
+};
+
+const getRemainingMs = (timer: CookingTimer, now: number) =>
+  timer.endsAt === null ? timer.remainingMs : Math.max(0, timer.endsAt - now);
+
+export const CookMode: React.FC<CookModeProps> = ({ recipe, servingCount, language, onClose, t }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const nextTimerId = useRef(1);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const { isActive: isScreenKeptOn } = useWakeLock(true);
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  const [lastHeard, setLastHeard] = useState('');
+  // True just after the app has finished speaking, while the microphone stays off.
+  const [isAwaitingEchoEnd, setIsAwaitingEchoEnd] = useState(false);
+  const wasSpeakingRef = useRef(false);
+  const { isSupported: canSpeak, isSpeaking, speak, cancel } = useSpeechSynthesis(language);
+
+  const steps = useMemo(() => getRecipeSteps(recipe), [recipe]);
+  const step = steps[stepIndex] ?? { text: '' };
+  const isLastStep = stepIndex === steps.length - 1;
+  // Durations in the text are the most precise; a structured step's duration covers steps that don't mention one.
+  const durations = useMemo(() => {
+    const detected = detectStepDurations(step.text);
+    if (detected.length > 0 || !step.durationMinutes) return detected;
+    return [{ label: formatMinutes(step.durationMinutes), seconds: step.durationMinutes * 60 }];
+  }, [step]);
+  const stepIngredients = useMemo(() => getStepIngredients(step, recipe.ingredients), [step, recipe.ingredients]);
+  const scaledIngredients = (ingredients: typeof stepIngredients) =>
+    ingredients.map(ing => `${parseFloat((ing.quantity * servingCount).toFixed(2))} ${ing.unit} ${ing.name}`).join(', ');
+  const hasRunningTimers = timers.some(timer => timer.endsAt !== null && !timer.isFinished);
+
+  useEffect(() => {
+    if (!hasRunningTimers) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [hasRunningTimers]);
+
+  // Raise the alert once for each timer that has just run out.
+  useEffect(() => {
+    const finished = timers.filter(timer => !timer.isFinished && timer.endsAt !== null && timer.endsAt <= now);
+    if (finished.length === 0) return;
+    playAlert(audioContextRef.current);
+    setTimers(prev => prev.map(timer => finished.some(done => done.id === timer.id) ? { ...timer, isFinished: true, endsAt: null, remainingMs: 0 } : timer));
+  }, [now, timers]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStepIndex(index => Math.min(steps.length - 1, index + 1));
+      if (e.key === 'ArrowLeft') setStepIndex(index => Math.max(0, index - 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [steps.length, onClose]);
+
+  useEffect(() => () => { audioContextRef.current?.close(); }, []);
+
+  const startTimer = (label: string, seconds: number) => {
+    if (!audioContextRef.current && typeof AudioContext !== 'undefined') {
+      audioContextRef.current = new AudioContext();
+    }
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers(prev => [...prev, { id: nextTimerId.current++, stepIndex, label, endsAt: startedAt + seconds * 1000, remainingMs: seconds * 1000, isFinished: false }]);
+  };
+
+  const togglePause = (id: number) => {
+    const current = Date.now();
+    setNow(current);
+    setTimers(prev => prev.map(timer => {
+      if (timer.id !== id || timer.isFinished) return timer;
+      return timer.endsAt === null
+        ? { ...timer, endsAt: current + timer.remainingMs }
+        : { ...timer, endsAt: null, remainingMs: getRemainingMs(timer, current) };
+    }));
+  };
+
+  const removeTimer = (id: number) => setTimers(prev => prev.filter(timer => timer.id !== id));
+
+  const isTimerRunning = (label: string) =>
+    timers.some(timer => timer.stepIndex === stepIndex && timer.label === label && !timer.isFinished);
+
+  const readStep = () => speak(step.ovenTemperatureC ? `${step.text} ${t('cookModeOvenTemperature', { temperature: step.ovenTemperatureC })}` : step.text);
+
+  const handleVoiceCommand = (transcript: string) => {
+    // The microphone also hears the step being read out; don't act on that.
+    if (isSpeaking || isAwaitingEchoEnd) return;
+    const command = matchVoiceCommand(transcript);
+    if (!command) return;
+    setLastHeard(transcript);
+    switch (command) {
+      case 'next':
+        if (isLastStep) speak(t('cookModeVoiceLastStep'));
+        else setStepIndex(index => index + 1);
+        break;
+      case 'back':
+        setStepIndex(index => Math.max(0, index - 1));
+        break;
+      case 'repeat':
+        readStep();
+        break;
+      case 'ingredients':
+        // Steps that name no ingredients get the whole list.
+        speak(scaledIngredients(stepIngredients.length > 0 ? stepIngredients : recipe.ingredients));
+        break;
+      case 'timer': {
+        const duration = durations.find(({ label }) => !isTimerRunning(label));
+        if (duration) {
+          startTimer(duration.label, duration.seconds);
+          speak(t('cookModeVoiceTimerStarted', { label: duration.label }));
+        } else {
+          speak(t(durations.length > 0 ? 'cookModeVoiceTimerAlreadyRunning' : 'cookModeVoiceNoTimer'));
+        }
+        break;
+      }
+    }
+  };
+
+  const { isSupported: canListen, isListening, error: voiceError, start: startListening, stop: stopListening, abort: abortListening } = useSpeechRecognition(language, handleVoiceCommand);
+
+  // The microphone is off while the app speaks, and for a moment after, so a step
+  // that says "again" or "Next, ..." isn't taken for a command.
+  useEffect(() => {
+    if (isSpeaking) {
+      wasSpeakingRef.current = true;
+      abortListening();
+      return;
+    }
+    if (!wasSpeakingRef.current) return;
+    wasSpeakingRef.current = false;
+    setIsAwaitingEchoEnd(true);
+    const timeout = setTimeout(() => setIsAwaitingEchoEnd(false), ECHO_GRACE_MS);
+    return () => clearTimeout(timeout);
+  }, [isSpeaking, abortListening]);
+
+  // Browsers end a recognition session after a pause, so it is restarted for as long as hands-free is on.
+  useEffect(() => {
+    if (isHandsFree && !isListening && !voiceError && !isSpeaking && !isAwaitingEchoEnd) startListening();
+  }, [isHandsFree, isListening, voiceError, isSpeaking, isAwaitingEchoEnd, startListening]);
+
+  // Hands-free, each step is read out when it comes up. Only a step change should
+  // trigger this, not a new `speak` once the browser's voices have loaded.
+  useEffect(() => {
+    if (isHandsFree) readStep();
+  }, [stepIndex, isHandsFree]);
+
+  const toggleHandsFree = () => {
+    if (isHandsFree) {
+      setIsHandsFree(false);
+      setLastHeard('');
+      stopListening();
+      cancel();
+    } else {
+      setIsHandsFree(true);
+      // Started from the click so the browser can ask for the microphone.
+      startListening();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-[--color-bg]" role="dialog" aria-modal="true" aria-label={t('cookModeTitle', { name: recipe.recipeName })}>
+      <header className="flex items-center gap-4 px-4 py-3 border-b border-[--color-border] bg-[--color-surface]">
+        <div className="flex-grow min-w-0">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[--color-accent]">
+            {t('cookModeStepOf', { current: stepIndex + 1, total: steps.length })}
+          </p>
+          <h2 className="font-bold text-[--color-text-primary] truncate">{recipe.recipeName}</h2>
+        </div>
+        {isScreenKeptOn && <span className="hidden sm:inline text-xs text-[--color-text-secondary]">{t('cookModeScreenOn')}</span>}
+        {canSpeak && (
+          <button
+            onClick={isSpeaking ? cancel : readStep}
+            className={`p-2 rounded-full ${isSpeaking ? 'bg-[--color-accent] text-white' : 'text-[--color-text-secondary] hover:bg-[--color-border]'}`}
+            aria-label={isSpeaking ? t('cookModeStopReading') : t('cookModeReadAloud')}
+            aria-pressed={isSpeaking}
+          >
+            <SpeakerIcon className="w-6 h-6" />
+          </button>
+        )}
+        {canListen && (
+          <button
+            onClick={toggleHandsFree}
+            className={`p-2 rounded-full ${isHandsFree ? 'bg-red-500 text-white' : 'text-[--color-text-secondary] hover:bg-[--color-border]'}`}
+            aria-label={isHandsFree ? t('cookModeHandsFreeOff') : t('cookModeHandsFreeOn')}
+            aria-pressed={isHandsFree}
+          >
+            <MicrophoneIcon className={`w-6 h-6 ${isHandsFree && isListening ? 'animate-pulse' : ''}`} />
+          </button>
+        )}
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-[--color-border] text-[--color-text-secondary]" aria-label={t('cookModeExit')}>
+          <CloseIcon className="w-6 h-6" />
+        </button>
+      </header>
+      <div className="h-1 bg-[--color-border]">
+        <div className="h-full bg-[--color-primary] transition-all duration-300" style={{ width: `${((stepIndex + 1) / steps.length) * 100}%` }} />
+      </div>
+
+      {isHandsFree && (
+        <div className="px-4 py-2 bg-[--color-surface] border-b border-[--color-border] text-sm text-center" aria-live="polite">
+          {voiceError ? (
+            <span className="text-red-600">{voiceError === 'not-allowed' ? t('dictationNotAllowed') : t('dictationFailed')}</span>
+          ) : (
+            <span className="text-[--color-text-secondary]">
+              {lastHeard ? t('cookModeVoiceHeard', { text: lastHeard }) : t('cookModeVoiceHint')}
+            </span>
+          )}
+        </div>
+      )}
+
+      <main className="flex-grow overflow-y-auto">
+        <div className="w-full max-w-3xl mx-auto p-6">
+          <p className="text-2xl md:text-4xl font-semibold leading-snug text-[--color-text-primary]">{step.text}</p>
+          {step.ovenTemperatureC && (
+            <p className="mt-4 inline-block px-3 py-1.5 rounded-full bg-[--color-accent]/10 text-lg font-bold text-[--color-accent]">
+              {t('cookModeOvenTemperature', { temperature: step.ovenTemperatureC })}
+            </p>
+          )}
+
+          {stepIngredients.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-[--color-text-secondary] mb-3">{t('cookModeStepIngredients')}</h3>
+              <ul className="flex flex-wrap gap-2">
+                {stepIngredients.map((ing, i) => (
+                  <li key={i} className="px-3 py-1.5 rounded-full bg-[--color-primary]/10 text-[--color-text-primary] text-base">
+                    <span className="font-bold text-[--color-primary]">{parseFloat((ing.quantity * servingCount).toFixed(2))} {ing.unit}</span> {ing.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {durations.length > 0 && (
+            <div className="mt-8 flex flex-wrap gap-3">
+              {durations.map(({ label, seconds }) => (
+                <button
+                  key={label}
+                  onClick={() => startTimer(label, seconds)}
+                  disabled={isTimerRunning(label)}
+                  className="flex items-center gap-2 py-3 px-5 rounded-xl bg-[--color-accent] text-white font-semibold shadow hover:opacity-90 disabled:opacity-50"
+                >
+                  <TimerIcon className="w-5 h-5" />
+                  {isTimerRunning(label) ? t('cookModeTimerRunning', { label }) : t('cookModeStartTimer', { label })}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {timers.length > 0 && (
+        <section className="border-t border-[--color-border] bg-[--color-surface] px-4 py-3" aria-live="polite">
+          <ul className="w-full max-w-3xl mx-auto flex flex-wrap gap-2">
+            {timers.map(timer => {
+              const isPaused = timer.endsAt === null && !timer.isFinished;
+              return (
+                <li
+                  key={timer.id}
+                  className={`flex items-center gap-3 py-2 px-3 rounded-lg border ${timer.isFinished ? 'bg-red-50 border-red-400 animate-pulse' : 'bg-[--color-bg] border-[--color-border]'}`}
+                >
+                  <button onClick={() => setStepIndex(timer.stepIndex)} className="text-left">
+                    <span className="block text-xs text-[--color-text-secondary]">{t('cookModeTimerStep', { step: timer.stepIndex + 1, label: timer.label })}</span>
+                    <span className={`block text-lg font-bold tabular-nums ${timer.isFinished ? 'text-red-700' : 'text-[--color-text-primary]'}`}>
+                      {timer.isFinished ? t('cookModeTimerDone') : formatTimer(getRemainingMs(timer, now) / 1000)}
+                    </span>
+                  </button>
+                  {!timer.isFinished && (
+                    <button onClick={() => togglePause(timer.id)} className="text-xs font-semibold text-[--color-primary] hover:underline">
+                      {isPaused ? t('cookModeTimerResume') : t('cookModeTimerPause')}
+                    </button>
+                  )}
+                  <button onClick={() => removeTimer(timer.id)} className="p-1 rounded-full text-gray-500 hover:bg-[--color-border]" aria-label={t('cookModeTimerDismiss')}>
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <footer className="flex gap-3 px-4 py-4 border-t border-[--color-border] bg-[--color-surface]">
+        <button
+          onClick={() => setStepIndex(index => Math.max(0, index - 1))}
+          disabled={stepIndex === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-4 rounded-xl border-2 border-[--color-border] text-lg font-semibold text-[--color-primary] disabled:opacity-40"
+        >
+          <ArrowLeftIcon className="w-5 h-5" />
+          {t('cookModeBack')}
+        </button>
+        <button
+          onClick={() => (isLastStep ? onClose() : setStepIndex(index => index + 1))}
+          className="flex-[2] py-4 rounded-xl bg-[--color-primary] text-white text-lg font-semibold hover:opacity-90"
+        >
+          {isLastStep ? t('cookModeFinish') : t('cookModeNext')}
+        </button>
+      </footer>
+    </div>
+  );
+};
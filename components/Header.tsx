@@ -1,12 +1,15 @@
 import React from 'react';
-import { LogoIcon } from './icons';
+import { LogoIcon, BookmarkIcon, CalendarIcon, SettingsIcon } from './icons';
 import type { TFunction } from '../translations';
 
 interface HeaderProps {
     t: TFunction;
+    onOpenRecipeBook?: () => void;
+    onOpenMealPlanner?: () => void;
+    onOpenSettings: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ t }) => {
+export const Header: React.FC<HeaderProps> = ({ t, onOpenRecipeBook, onOpenMealPlanner, onOpenSettings }) => {
   return (
     <header className="w-full p-4 bg-[--color-surface] shadow-sm sticky top-0 z-10">
       <div className="max-w-7xl mx-auto flex items-center">
@@ -14,7 +17,34 @@ export const Header: React.FC<HeaderProps> = ({ t }) => {
         <h1 className="text-2xl font-bold text-[--color-text-primary]">
           {t('headerTitle')} <span className="text-[--color-primary] font-extrabold">AI</span>
         </h1>
+        <div className="ml-auto flex items-center gap-1">
+          {onOpenMealPlanner && (
+            <button
+              onClick={onOpenMealPlanner}
+              className="flex items-center gap-2 text-sm font-semibold text-[--color-primary] py-2 px-3 rounded-lg hover:bg-[--color-primary]/10 transition-colors"
+            >
+              <CalendarIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">{t('mealPlanOpen')}</span>
+            </button>
+          )}
+          {onOpenRecipeBook && (
+            <button
+              onClick={onOpenRecipeBook}
+              className="flex items-center gap-2 text-sm font-semibold text-[--color-primary] py-2 px-3 rounded-lg hover:bg-[--color-primary]/10 transition-colors"
+            >
+              <BookmarkIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">{t('recipeBookTitle')}</span>
+            </button>
+          )}
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 text-sm font-semibold text-[--color-primary] py-2 px-3 rounded-lg hover:bg-[--color-primary]/10 transition-colors"
+          >
+            <SettingsIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">{t('settingsTitle')}</span>
+          </button>
+        </div>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
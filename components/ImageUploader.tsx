@@ -1,22 +1,46 @@
 import React, { useState, useRef, useCallback, DragEvent } from 'react';
 import { UploadIcon, CloseIcon } from './icons';
-import type { TFunction } from '../translations';
+import type { TFunction, TranslationKey } from '../translations';
+import type { ScanMode } from '../types';
 import { supportedLanguages } from '../languages';
+import { TextIngredientEntry } from './TextIngredientEntry';
 
 interface ImageUploaderProps {
-  onImageUpload: (files: File[]) => void;
+  onImageUpload: (files: File[], mode: ScanMode) => void;
+  // A typed or dictated list of ingredients, for users without a photo to scan.
+  onTextSubmit: (text: string) => void;
+  // Items already waiting for confirmation that new scans are merged into.
+  pendingIngredientCount: number;
   onLanguageChange: (languageCode: string) => void;
   selectedLanguage: string;
+  savedPantryCount: number;
+  onUseSavedPantry: () => void;
+  onClearSavedPantry: () => void;
   t: TFunction;
 }
 
-const MAX_IMAGES = 3;
+const MAX_IMAGES: Record<ScanMode, number> = {
+  fridge: 3,
+  barcode: 6,
+  receipt: 2,
+};
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onLanguageChange, selectedLanguage, t }) => {
+type EntryMode = ScanMode | 'text';
+
+const MODES: { mode: EntryMode; label: TranslationKey; subtitle: TranslationKey }[] = [
+  { mode: 'fridge', label: 'scanModeFridge', subtitle: 'imageUploaderSubtitle' },
+  { mode: 'barcode', label: 'scanModeBarcode', subtitle: 'scanModeBarcodeSubtitle' },
+  { mode: 'receipt', label: 'scanModeReceipt', subtitle: 'scanModeReceiptSubtitle' },
+  { mode: 'text', label: 'scanModeText', subtitle: 'scanModeTextSubtitle' },
+];
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onTextSubmit, pendingIngredientCount, onLanguageChange, selectedLanguage, savedPantryCount, onUseSavedPantry, onClearSavedPantry, t }) => {
+  const [mode, setMode] = useState<EntryMode>('fridge');
   const [previews, setPreviews] = useState<string[]>([]);
   const [files, setFiles] = useState<File[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maxImages = mode === 'text' ? 0 : MAX_IMAGES[mode];
 
   const processFiles = useCallback((newFiles: FileList | null) => {
     if (!newFiles) return;
@@ -24,7 +48,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
     const existingFileNames = new Set(files.map(f => f.name));
     const filesToProcess = Array.from(newFiles)
       .filter(file => file.type.startsWith('image/') && !existingFileNames.has(file.name))
-      .slice(0, MAX_IMAGES - files.length);
+      .slice(0, maxImages - files.length);
 
     if (filesToProcess.length === 0) return;
 
@@ -42,7 +66,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
       setFiles(prev => [...prev, ...results.map(r => r.file)]);
       setPreviews(prev => [...prev, ...results.map(r => r.preview)]);
     });
-  }, [files]);
+  }, [files, maxImages]);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(event.target.files);
@@ -57,11 +81,19 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
   };
 
   const handleGenerateClick = () => {
-    if (files.length > 0) {
-      onImageUpload(files);
+    if (files.length > 0 && mode !== 'text') {
+      onImageUpload(files, mode);
     }
   };
 
+  // Each mode reads its photos differently, so switching starts a fresh selection.
+  const handleModeChange = (newMode: EntryMode) => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    setFiles([]);
+    setPreviews([]);
+  };
+
   const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -88,7 +120,11 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
 
   const triggerFileInput = () => fileInputRef.current?.click();
   
-  const analyzeButtonText = files.length > 1 ? t('analyzeButtonPlural', { count: files.length }) : t('analyzeButton', { count: files.length });
+  const analyzeButtonText = mode === 'barcode'
+    ? t('scanBarcodesButton', { count: files.length })
+    : mode === 'receipt'
+      ? t('scanReceiptButton', { count: files.length })
+      : files.length > 1 ? t('analyzeButtonPlural', { count: files.length }) : t('analyzeButton', { count: files.length });
 
   return (
     <div className="w-full max-w-2xl text-center p-8 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]">
@@ -96,9 +132,28 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
         <h2 className="text-4xl font-extrabold text-[--color-text-primary]">{t('imageUploaderTitle')}</h2>
       </div>
 
-      <p className="text-[--color-text-secondary] mb-8">{t('imageUploaderSubtitle', { MAX_IMAGES })}</p>
+      <div className="flex justify-center gap-2 mb-4" role="tablist">
+        {MODES.map(({ mode: option, label }) => (
+          <button
+            key={option}
+            onClick={() => handleModeChange(option)}
+            role="tab"
+            aria-selected={mode === option}
+            className={`text-sm font-semibold py-2 px-4 rounded-full transition-colors ${mode === option ? 'bg-[--color-primary] text-white' : 'text-[--color-primary] hover:bg-[--color-primary]/10'}`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-[--color-text-secondary] mb-8">{t(MODES.find(entry => entry.mode === mode)!.subtitle, { MAX_IMAGES: maxImages })}</p>
+      {pendingIngredientCount > 0 && (
+        <p className="-mt-4 mb-6 text-sm font-semibold text-[--color-primary]">{t('scanAddingTo', { count: pendingIngredientCount })}</p>
+      )}
       
-      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+      {mode === 'text' && <TextIngredientEntry onSubmit={onTextSubmit} language={selectedLanguage} t={t} />}
+
+      {mode !== 'text' && <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
         {previews.map((src, index) => (
           <div key={index} className="relative group aspect-square">
             <img src={src} alt={`Fridge preview ${index + 1}`} className="w-full h-full object-cover rounded-lg" />
@@ -112,7 +167,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
           </div>
         ))}
 
-        {files.length < MAX_IMAGES && (
+        {files.length < maxImages && (
           <div 
             className={`relative aspect-square col-span-1 border-2 border-dashed rounded-lg p-4 flex flex-col items-center justify-center transition-all duration-300 cursor-pointer ${isDragging ? 'border-[--color-accent] bg-[--color-accent]/10' : 'border-[--color-border] hover:border-[--color-primary-light]'}`}
             onDragEnter={handleDragEnter}
@@ -125,10 +180,10 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
           >
             <UploadIcon className="w-10 h-10 mb-2 text-gray-400" />
             <p className="text-sm font-semibold text-[--color-text-secondary] text-center">{t('addPhoto')}</p>
-            <p className="text-xs text-gray-400">{t('photosLeft', { count: MAX_IMAGES - files.length })}</p>
+            <p className="text-xs text-gray-400">{t('photosLeft', { count: maxImages - files.length })}</p>
           </div>
         )}
-      </div>
+      </div>}
 
       <input
         type="file"
@@ -169,6 +224,24 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onL
           </button>
         </div>
       )}
+
+      {savedPantryCount > 0 && (
+        <div className="mt-8 pt-6 border-t border-[--color-border]">
+          <p className="text-sm text-[--color-text-secondary] mb-4">{t('savedPantrySubtitle')}</p>
+          <button
+            onClick={onUseSavedPantry}
+            className="secondary-button"
+          >
+            {t('useSavedPantry', { count: savedPantryCount })}
+          </button>
+          <button
+            onClick={onClearSavedPantry}
+            className="mt-3 text-xs font-semibold text-[--color-text-secondary] hover:text-red-600 transition-colors"
+          >
+            {t('clearSavedPantry')}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
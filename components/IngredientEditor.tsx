@@ -1,21 +1,50 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { AvailableIngredient } from '../types';
+import type { AvailableIngredient, IngredientDetection } from '../types';
 import { PlusIcon, TrashIcon, MinusIcon } from './icons';
 import type { TFunction } from '../translations';
+import { daysUntilExpiry, findExpiringIngredients, getExpiryDate, getFreshnessStatus, toDateInputValue } from '../services/freshness';
+import type { FreshnessStatus } from '../services/freshness';
 
 
 interface IngredientEditorProps {
     initialIngredients: AvailableIngredient[];
     onConfirm: (ingredients: AvailableIngredient[]) => void;
     onCancel: () => void;
+    onSavePantry: (ingredients: AvailableIngredient[]) => void;
+    // Goes back to the upload screen to add more items to this list.
+    onScanMore: (ingredients: AvailableIngredient[]) => void;
+    // Object URLs of the scanned fridge photos, indexed like `detection.imageIndex`.
+    photos: string[];
     t: TFunction;
     maxIngredients: number;
 }
 
-export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngredients, onConfirm, onCancel, t, maxIngredients }) => {
+// Detections below this confidence are flagged for the user to double-check.
+const LOW_CONFIDENCE = 0.6;
+
+// Boxes are [ymin, xmin, ymax, xmax] on a 0-1000 scale.
+const boxStyle = ({ box: [ymin, xmin, ymax, xmax] }: IngredientDetection): React.CSSProperties => ({
+    top: `${ymin / 10}%`,
+    left: `${xmin / 10}%`,
+    height: `${(ymax - ymin) / 10}%`,
+    width: `${(xmax - xmin) / 10}%`,
+});
+
+const ROW_CLASSES: Record<FreshnessStatus, string> = {
+    expired: 'bg-red-50 border-red-300',
+    expiring: 'bg-amber-50 border-amber-300',
+    fresh: 'bg-gray-50 border-[--color-border]',
+};
+
+export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngredients, onConfirm, onCancel, onSavePantry, onScanMore, photos, t, maxIngredients }) => {
     const [ingredients, setIngredients] = useState<AvailableIngredient[]>(initialIngredients);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isPantrySaved, setIsPantrySaved] = useState(false);
+    const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+    // Boxes of rows the user deleted stay on the photo, faded, so it's clear what was dropped.
+    const [removedDetections, setRemovedDetections] = useState<IngredientDetection[]>([]);
     const endOfListRef = useRef<HTMLDivElement>(null);
+    const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
     
     const unitOptions = [
         { 
@@ -62,12 +91,16 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
             if (value === '' || (!isNaN(numValue) && numValue >= 0)) {
                 ingredientToUpdate[field] = value === '' ? 0 : numValue;
             }
+        } else if (field === 'expiresAt') {
+            // Clearing the date goes back to the estimate for the food category.
+            ingredientToUpdate.expiresAt = value === '' ? undefined : String(value);
         } else {
             ingredientToUpdate[field] = value as string;
         }
 
         newIngredients[index] = ingredientToUpdate;
         setIngredients(newIngredients);
+        setIsPantrySaved(false);
     };
 
     const handleQuantityStep = (index: number, delta: number) => {
@@ -79,11 +112,26 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
     const handleAddIngredient = () => {
         if (ingredients.length < maxIngredients) {
             setIngredients([...ingredients, { name: '', quantity: 1, unit: 'g' }]);
+            setIsPantrySaved(false);
         }
     };
 
     const handleRemoveIngredient = (index: number) => {
+        const { detection } = ingredients[index];
+        if (detection) setRemovedDetections(prev => [...prev, detection]);
         setIngredients(ingredients.filter((_, i) => i !== index));
+        setHighlightedIndex(null);
+        setIsPantrySaved(false);
+    };
+
+    const handleBoxClick = (index: number) => {
+        setHighlightedIndex(index);
+        rowRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
+
+    const handleSavePantry = () => {
+        onSavePantry(ingredients);
+        setIsPantrySaved(true);
     };
 
     const handleSubmit = () => {
@@ -96,6 +144,16 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
         endOfListRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [ingredients.length]);
     
+    const expiringCount = findExpiringIngredients(ingredients.filter(ing => ing.name.trim() !== '')).length;
+
+    const expiryLabel = (days: number) => {
+        if (days < 0) return t('expiryExpired');
+        if (days === 0) return t('expiryToday');
+        return t('expiryInDays', { count: days });
+    };
+
+    const hasDetections = photos.length > 0 && (removedDetections.length > 0 || ingredients.some(ing => ing.detection));
+
     const hasIngredients = ingredients.filter(ing => ing.name.trim() !== '' && ing.quantity > 0).length > 0;
     const atMaxIngredients = ingredients.length >= maxIngredients;
 
@@ -103,20 +161,95 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
         <div className="w-full max-w-2xl text-center p-8 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]">
             <h2 className="text-3xl font-bold mb-2 text-[--color-text-primary]">{t('ingredientEditorTitle')}</h2>
             <p className="text-[--color-text-secondary] mb-6">{t('ingredientEditorSubtitle')}</p>
+            {expiringCount > 0 && (
+                <p className="mb-4 text-sm font-semibold text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    {t('expiringSummary', { count: expiringCount })}
+                </p>
+            )}
+
+            {hasDetections && (
+                <div className="mb-6 text-left">
+                    <h3 className="font-semibold text-[--color-text-primary] mb-1">{t('detectionPhotosTitle')}</h3>
+                    <p className="text-sm text-[--color-text-secondary] mb-3">{t('detectionPhotosHint')}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {photos.map((url, imageIndex) => (
+                            <div key={url} className="relative rounded-lg overflow-hidden border border-[--color-border]">
+                                <img src={url} alt={t('detectionPhotoAlt', { number: imageIndex + 1 })} className="block w-full h-auto" />
+                                {removedDetections.filter(detection => detection.imageIndex === imageIndex).map((detection, i) => (
+                                    <div key={`removed-${i}`} style={boxStyle(detection)} className="absolute border-2 border-dashed border-gray-400 opacity-40 pointer-events-none" />
+                                ))}
+                                {ingredients.map((ing, index) => {
+                                    if (!ing.detection || ing.detection.imageIndex !== imageIndex) return null;
+                                    const isLowConfidence = ing.detection.confidence < LOW_CONFIDENCE;
+                                    const isHighlighted = highlightedIndex === index;
+                                    return (
+                                        <button
+                                            key={index}
+                                            onClick={() => handleBoxClick(index)}
+                                            style={boxStyle(ing.detection)}
+                                            className={`absolute border-2 rounded-sm transition-colors ${isHighlighted ? 'border-[--color-accent] bg-[--color-accent]/20 z-10' : isLowConfidence ? 'border-dashed border-amber-400 hover:bg-amber-200/20' : 'border-[--color-primary-light] hover:bg-white/20'}`}
+                                            aria-label={ing.name || t('detectionUnnamed')}
+                                        >
+                                            <span className={`absolute left-0 top-0 max-w-full truncate px-1 text-[10px] font-semibold text-white ${isHighlighted ? 'bg-[--color-accent]' : isLowConfidence ? 'bg-amber-500' : 'bg-[--color-primary]'}`}>
+                                                {ing.name || t('detectionUnnamed')}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
 
             <div className="space-y-3 max-h-[50vh] overflow-y-auto p-2">
                 {ingredients.map((ing, index) => {
                     const isCustomUnit = ing.unit && !allStandardUnits.includes(ing.unit.toLowerCase());
+                    const hasName = ing.name.trim() !== '';
+                    const status = hasName ? getFreshnessStatus(ing) : 'fresh';
+                    const isLowConfidence = ing.detection !== undefined && ing.detection.confidence < LOW_CONFIDENCE;
                     return (
-                        <div key={index} className="flex items-center gap-2 p-2 rounded-lg bg-gray-50 border border-[--color-border]">
-                            <input
-                                type="text"
-                                value={ing.name}
-                                onChange={(e) => handleIngredientChange(index, 'name', e.target.value)}
-                                placeholder="e.g., Eggs"
-                                className="flex-grow p-2 bg-white text-[--color-text-primary] border border-[--color-border] rounded-md focus:ring-2 focus:ring-[--color-accent] focus:border-[--color-accent] outline-none transition-colors duration-200"
-                                aria-label="Ingredient name"
-                            />
+                        <div
+                            key={index}
+                            ref={(el) => { rowRefs.current[index] = el; }}
+                            onFocus={() => ing.detection && setHighlightedIndex(index)}
+                            className={`flex items-center gap-2 p-2 rounded-lg border ${ROW_CLASSES[status]} ${highlightedIndex === index ? 'ring-2 ring-[--color-accent]' : ''}`}
+                        >
+                            <div className="flex-grow flex flex-col items-start gap-1">
+                                <input
+                                    type="text"
+                                    value={ing.name}
+                                    onChange={(e) => handleIngredientChange(index, 'name', e.target.value)}
+                                    placeholder={ing.barcode && !ing.name ? t('unknownProduct', { code: ing.barcode }) : "e.g., Eggs"}
+                                    className="w-full p-2 bg-white text-[--color-text-primary] border border-[--color-border] rounded-md focus:ring-2 focus:ring-[--color-accent] focus:border-[--color-accent] outline-none transition-colors duration-200"
+                                    aria-label="Ingredient name"
+                                />
+                                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pl-1 text-xs text-[--color-text-secondary]">
+                                    {ing.addedAt && (
+                                        <span>{t('pantryAddedOn', { date: new Date(ing.addedAt).toLocaleDateString() })}</span>
+                                    )}
+                                    {hasName && (
+                                        <label className="flex items-center gap-1">
+                                            {t('expiresLabel')}
+                                            <input
+                                                type="date"
+                                                value={ing.expiresAt ?? toDateInputValue(getExpiryDate(ing))}
+                                                onChange={(e) => handleIngredientChange(index, 'expiresAt', e.target.value)}
+                                                className="px-1 bg-white border border-[--color-border] rounded focus:ring-2 focus:ring-[--color-accent] outline-none"
+                                                aria-label={t('expiresLabel')}
+                                            />
+                                        </label>
+                                    )}
+                                    {isLowConfidence && (
+                                        <span className="font-semibold text-amber-800">{t('detectionLowConfidence')}</span>
+                                    )}
+                                    {status !== 'fresh' && (
+                                        <span className={`font-semibold ${status === 'expired' ? 'text-red-700' : 'text-amber-800'}`}>
+                                            {expiryLabel(daysUntilExpiry(ing))}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
                             <div className="flex items-center border border-[--color-border] rounded-md bg-white">
                                 <button onClick={() => handleQuantityStep(index, -0.25)} className="p-2 text-[--color-text-secondary] hover:bg-[--color-border] rounded-l-md transition-colors" aria-label="Decrease quantity"><MinusIcon className="w-4 h-4"/></button>
                                 <input
@@ -170,6 +303,13 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
                 <PlusIcon className="w-5 h-5" />
                 {t('addAnotherItem')}
             </button>
+            <button
+                onClick={() => onScanMore(ingredients)}
+                disabled={atMaxIngredients}
+                className="mt-2 w-full text-sm font-semibold text-[--color-accent] hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+                {t('scanMore')}
+            </button>
 
             <div className="mt-8 flex flex-col sm:flex-row gap-4">
                 <button
@@ -178,6 +318,13 @@ export const IngredientEditor: React.FC<IngredientEditorProps> = ({ initialIngre
                 >
                     {t('startOver')}
                 </button>
+                <button
+                    onClick={handleSavePantry}
+                    className="secondary-button"
+                    disabled={isPantrySaved || isSubmitting}
+                >
+                    {isPantrySaved ? t('pantrySaved') : t('savePantry')}
+                </button>
                 <button
                     onClick={handleSubmit}
                     className="primary-button"
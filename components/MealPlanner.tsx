@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import type { AvailableIngredient, MealPlan, MealPlanOptions, MealSlot, PlannedMeal, Recipe } from '../types';
+import { RecipeCard } from './RecipeCard';
+import { ShoppingList } from './ShoppingList';
+import { ArrowLeftIcon, CalendarIcon, ChefIcon, MinusIcon, PlusIcon } from './icons';
+import type { TFunction, TranslationKey } from '../translations';
+import { MAX_PLAN_DAYS, MEAL_SLOTS, buildPlanShoppingList, plannedMealKey, trackPlanConsumption } from '../services/mealPlan';
+import { buildShoppingList } from '../services/shoppingList';
+
+interface MealPlannerProps {
+  plan: MealPlan | null;
+  availableIngredients: AvailableIngredient[];
+  pantryStaples: string[];
+  isGenerating: boolean;
+  error: string | null;
+  onGenerate: (options: MealPlanOptions) => void;
+  onClearPlan: () => void;
+  onMarkCooked: (meal: PlannedMeal, servingCount: number) => void;
+  isRecipeSaved: (recipe: Recipe) => boolean;
+  onSaveRecipe: (recipe: Recipe) => void;
+  onBack: () => void;
+  language: string;
+  t: TFunction;
+}
+
+const SLOT_LABELS: Record<MealSlot, TranslationKey> = {
+  breakfast: 'mealSlotBreakfast',
+  lunch: 'mealSlotLunch',
+  dinner: 'mealSlotDinner',
+};
+
+export const MealPlanner: React.FC<MealPlannerProps> = ({ plan, availableIngredients, pantryStaples, isGenerating, error, onGenerate, onClearPlan, onMarkCooked, isRecipeSaved, onSaveRecipe, onBack, language, t }) => {
+  const [days, setDays] = useState(plan?.options.days ?? 3);
+  const [slots, setSlots] = useState<MealSlot[]>(plan?.options.slots ?? ['lunch', 'dinner']);
+  const [servingsPerMeal, setServingsPerMeal] = useState(plan?.options.servingsPerMeal ?? 2);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [servingCount, setServingCount] = useState(1);
+  const [isOnShoppingList, setIsOnShoppingList] = useState(false);
+
+  const coverage = useMemo(() => plan ? trackPlanConsumption(plan, availableIngredients, pantryStaples) : [],
+    [plan, availableIngredients, pantryStaples]);
+  const coverageByKey = useMemo(() => new Map(coverage.map(entry => [plannedMealKey(entry.meal), entry])), [coverage]);
+  const planShoppingList = useMemo(() => plan ? buildPlanShoppingList(plan, availableIngredients, pantryStaples) : [],
+    [plan, availableIngredients, pantryStaples]);
+
+  const selected = selectedKey ? coverageByKey.get(selectedKey)?.meal : undefined;
+  const mealShoppingList = useMemo(() => selected
+    ? buildShoppingList([{ recipe: selected.recipe, servingCount }], availableIngredients, pantryStaples)
+    : [], [selected, servingCount, availableIngredients, pantryStaples]);
+
+  const toggleSlot = (slot: MealSlot) => {
+    setSlots(prev => prev.includes(slot) ? prev.filter(s => s !== slot) : MEAL_SLOTS.filter(s => s === slot || prev.includes(s)));
+  };
+
+  const handleSelect = (meal: PlannedMeal) => {
+    setSelectedKey(plannedMealKey(meal));
+    setServingCount(plan?.options.servingsPerMeal ?? 1);
+    setIsOnShoppingList(false);
+  };
+
+  const canGenerate = !isGenerating && slots.length > 0 && availableIngredients.length > 0;
+  const planDays = plan ? Array.from({ length: plan.options.days }, (_, i) => i + 1) : [];
+
+  if (selected) {
+    return (
+      <div className="w-full max-w-2xl mx-auto">
+        <button
+          onClick={() => setSelectedKey(null)}
+          className="mb-6 flex items-center gap-2 text-sm font-semibold text-[--color-primary] hover:underline"
+        >
+          <ArrowLeftIcon className="w-4 h-4" />
+          {t('mealPlanBackToPlan')}
+        </button>
+        <p className="mb-2 text-sm font-semibold uppercase tracking-wide text-[--color-accent]">
+          {t('mealPlanDay', { day: selected.day })} · {t(SLOT_LABELS[selected.slot])}
+        </p>
+        <RecipeCard
+          recipe={selected.recipe}
+          availableIngredients={availableIngredients}
+          pantryStaples={pantryStaples}
+          servingCount={servingCount}
+          onServingChange={(newCount) => setServingCount(Math.max(1, newCount))}
+          onMarkCooked={(count) => onMarkCooked(selected, count)}
+          isOnShoppingList={isOnShoppingList}
+          onToggleShoppingList={() => setIsOnShoppingList(prev => !prev)}
+          isSaved={isRecipeSaved(selected.recipe)}
+          onSave={() => onSaveRecipe(selected.recipe)}
+          language={language}
+          t={t}
+        />
+        {isOnShoppingList && <ShoppingList items={mealShoppingList} t={t} />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto">
+      <button
+        onClick={onBack}
+        className="mb-6 flex items-center gap-2 text-sm font-semibold text-[--color-primary] hover:underline"
+      >
+        <ArrowLeftIcon className="w-4 h-4" />
+        {t('back')}
+      </button>
+      <h1 className="text-4xl md:text-5xl font-extrabold mb-2 text-center text-[--color-text-primary]">{t('mealPlanTitle')}</h1>
+      <p className="text-center text-[--color-text-secondary] mb-8">{t('mealPlanSubtitle')}</p>
+
+      <div className="w-full max-w-2xl mx-auto p-6 mb-10 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-6">
+          <div>
+            <h4 className="font-semibold text-[--color-text-primary] mb-3">{t('mealPlanDays')}</h4>
+            <div className="flex items-center gap-3">
+              <button onClick={() => setDays(Math.max(1, days - 1))} className="p-1 rounded-full bg-[--color-border] hover:bg-gray-300" aria-label={t('mealPlanDays')}><MinusIcon className="w-5 h-5" /></button>
+              <span className="w-8 text-center text-lg font-bold text-[--color-text-primary]">{days}</span>
+              <button onClick={() => setDays(Math.min(MAX_PLAN_DAYS, days + 1))} className="p-1 rounded-full bg-[--color-border] hover:bg-gray-300" aria-label={t('mealPlanDays')}><PlusIcon className="w-5 h-5" /></button>
+            </div>
+          </div>
+          <div>
+            <h4 className="font-semibold text-[--color-text-primary] mb-3">{t('mealPlanServings')}</h4>
+            <div className="flex items-center gap-3">
+              <button onClick={() => setServingsPerMeal(Math.max(1, servingsPerMeal - 1))} className="p-1 rounded-full bg-[--color-border] hover:bg-gray-300" aria-label={t('mealPlanServings')}><MinusIcon className="w-5 h-5" /></button>
+              <span className="w-8 text-center text-lg font-bold text-[--color-text-primary]">{servingsPerMeal}</span>
+              <button onClick={() => setServingsPerMeal(Math.min(12, servingsPerMeal + 1))} className="p-1 rounded-full bg-[--color-border] hover:bg-gray-300" aria-label={t('mealPlanServings')}><PlusIcon className="w-5 h-5" /></button>
+            </div>
+          </div>
+        </div>
+
+        <h4 className="font-semibold text-[--color-text-primary] mb-3">{t('mealPlanMeals')}</h4>
+        <div className="flex flex-wrap gap-6 mb-6">
+          {MEAL_SLOTS.map(slot => (
+            <label key={slot} className="flex items-center gap-2 cursor-pointer font-medium text-[--color-text-secondary]">
+              <input type="checkbox" checked={slots.includes(slot)} onChange={() => toggleSlot(slot)} className="custom-checkbox" />
+              {t(SLOT_LABELS[slot])}
+            </label>
+          ))}
+        </div>
+
+        {slots.length === 0 && <p className="text-center text-sm text-red-500 font-medium mb-4">{t('mealPlanNoSlots')}</p>}
+        {availableIngredients.length === 0 && <p className="text-center text-sm text-red-500 font-medium mb-4">{t('mealPlanEmptyPantry')}</p>}
+        {error && <p className="text-center text-sm text-red-600 bg-red-50 p-3 rounded-lg mb-4">{error}</p>}
+        <button
+          onClick={() => onGenerate({ days, slots, servingsPerMeal })}
+          disabled={!canGenerate}
+          className="primary-button"
+        >
+          {isGenerating ? t('mealPlanGenerating') : plan ? t('mealPlanRegenerate') : t('mealPlanGenerate')}
+        </button>
+      </div>
+
+      {isGenerating && !plan && (
+        <div className="flex flex-col items-center justify-center min-h-[12rem] p-6 rounded-2xl border-2 border-dashed border-[--color-border] animate-pulse">
+          <ChefIcon className="h-12 w-12 text-[--color-primary] mb-4" />
+          <p className="font-semibold text-[--color-text-secondary]">{t('mealPlanGenerating')}</p>
+        </div>
+      )}
+
+      {plan && (
+        <>
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarIcon className="w-6 h-6 text-[--color-primary]" />
+            <h2 className="flex-grow text-2xl font-bold text-[--color-text-primary]">{t('mealPlanCalendarTitle')}</h2>
+            <button onClick={onClearPlan} className="text-sm font-semibold text-gray-500 hover:text-red-600 hover:underline">
+              {t('mealPlanClear')}
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full border-separate border-spacing-2 table-fixed min-w-[36rem]">
+              <thead>
+                <tr>
+                  <th className="w-24" />
+                  {planDays.map(day => (
+                    <th key={day} className="text-sm font-semibold text-[--color-text-secondary]">{t('mealPlanDay', { day })}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {plan.options.slots.map(slot => (
+                  <tr key={slot}>
+                    <th className="text-left align-top text-sm font-semibold text-[--color-text-primary]">{t(SLOT_LABELS[slot])}</th>
+                    {planDays.map(day => {
+                      const entry = coverageByKey.get(`${day}|${slot}`);
+                      if (!entry) {
+                        return <td key={day} className="align-top p-3 rounded-xl border-2 border-dashed border-[--color-border] text-xs text-[--color-text-secondary]">{t('mealPlanUnplanned')}</td>;
+                      }
+                      const isCovered = entry.missing.length === 0;
+                      const badgeClass = entry.isCooked ? 'bg-gray-100 text-gray-600' : isCovered ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800';
+                      return (
+                        <td key={day} className="align-top">
+                          <button
+                            onClick={() => handleSelect(entry.meal)}
+                            className="w-full h-full text-left p-3 rounded-xl bg-[--color-surface] border border-[--color-border] shadow hover:border-[--color-primary-light] transition-colors"
+                          >
+                            <span className="block text-sm font-bold text-[--color-text-primary] line-clamp-2">{entry.meal.recipe.recipeName}</span>
+                            <span className={`mt-2 inline-block text-xs font-semibold px-2 py-0.5 rounded-full ${badgeClass}`}>
+                              {entry.isCooked ? t('mealPlanCooked') : isCovered ? t('mealPlanCovered') : t('mealPlanMissing', { count: entry.missing.length })}
+                            </span>
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <ShoppingList items={planShoppingList} t={t} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { NutritionInfo } from '../types';
+import type { TFunction, TranslationKey } from '../translations';
+
+interface NutritionPanelProps {
+  nutrition: NutritionInfo;
+  // Per-serving values from our own nutrient table, shown alongside the model's.
+  computed?: NutritionInfo;
+  servingCount: number;
+  t: TFunction;
+}
+
+const MACROS: { key: keyof NutritionInfo; label: TranslationKey; unit: string }[] = [
+  { key: 'protein', label: 'nutritionProtein', unit: 'g' },
+  { key: 'carbohydrates', label: 'nutritionCarbohydrates', unit: 'g' },
+  { key: 'fat', label: 'nutritionFat', unit: 'g' },
+  { key: 'fiber', label: 'nutritionFiber', unit: 'g' },
+  { key: 'sugar', label: 'nutritionSugar', unit: 'g' },
+  { key: 'sodium', label: 'nutritionSodium', unit: 'mg' },
+];
+
+// Energy per gram, used for the protein/carbs/fat split bar.
+const KCAL_PER_GRAM = { protein: 4, carbohydrates: 4, fat: 9 };
+
+const formatAmount = (value: number) => parseFloat(value.toFixed(1));
+
+export const NutritionPanel: React.FC<NutritionPanelProps> = ({ nutrition, computed, servingCount, t }) => {
+  const proteinKcal = nutrition.protein * KCAL_PER_GRAM.protein;
+  const carbsKcal = nutrition.carbohydrates * KCAL_PER_GRAM.carbohydrates;
+  const fatKcal = nutrition.fat * KCAL_PER_GRAM.fat;
+  const macroKcal = proteinKcal + carbsKcal + fatKcal;
+  const percent = (kcal: number) => (macroKcal > 0 ? (kcal / macroKcal) * 100 : 0);
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-[--color-border] bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-[--color-text-primary]">{t('nutritionTitle')}</h3>
+        <span className="text-xs text-[--color-text-secondary]">
+          {servingCount > 1 ? t('caloriesTotalFor_plural', { count: servingCount }) : t('caloriesTotalFor', { count: servingCount })}
+        </span>
+      </div>
+
+      {macroKcal > 0 && (
+        <div className="flex h-2 rounded-full overflow-hidden mb-3" aria-hidden="true">
+          <div className="bg-[--color-primary]" style={{ width: `${percent(proteinKcal)}%` }} />
+          <div className="bg-[--color-accent]" style={{ width: `${percent(carbsKcal)}%` }} />
+          <div className="bg-yellow-400" style={{ width: `${percent(fatKcal)}%` }} />
+        </div>
+      )}
+
+      <dl className="grid grid-cols-3 gap-2 text-center">
+        {MACROS.map(({ key, label, unit }) => (
+          <div key={key} className="p-2 bg-[--color-surface] rounded-md border border-[--color-border]">
+            <dt className="text-xs text-[--color-text-secondary]">{t(label)}</dt>
+            <dd className="font-bold text-[--color-text-primary]">{formatAmount(nutrition[key] * servingCount)} {unit}</dd>
+            <dd className="text-[10px] text-[--color-text-secondary]">{formatAmount(nutrition[key])} {unit} {t('perServingShort')}</dd>
+            {computed && (
+              <dd className="text-[10px] text-[--color-text-secondary]">{t('nutritionCalculatedShort', { amount: `${formatAmount(computed[key])} ${unit}` })}</dd>
+            )}
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
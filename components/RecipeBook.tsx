@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import type { AvailableIngredient, Recipe, SavedRecipe } from '../types';
+import { RecipeCard } from './RecipeCard';
+import { ShoppingList } from './ShoppingList';
+import { TagInput } from './TagInput';
+import { RecipeExportMenu } from './RecipeExportMenu';
+import { StarIcon, SearchIcon, TrashIcon, ArrowLeftIcon, UploadIcon } from './icons';
+import type { TFunction } from '../translations';
+import { searchSavedRecipes } from '../services/recipeBook';
+import { buildShoppingList } from '../services/shoppingList';
+
+interface RecipeBookProps {
+  savedRecipes: SavedRecipe[];
+  availableIngredients: AvailableIngredient[];
+  pantryStaples: string[];
+  onUpdateRecipe: (saved: SavedRecipe) => void;
+  onDeleteRecipe: (id: string) => void;
+  // Resolves to the number of recipes added to the book.
+  onImportRecipes: (text: string) => Promise<number>;
+  isImporting: boolean;
+  importError: string | null;
+  onMarkCooked: (recipe: Recipe, servingCount: number) => void;
+  onBack: () => void;
+  language: string;
+  t: TFunction;
+}
+
+export const RecipeBook: React.FC<RecipeBookProps> = ({ savedRecipes, availableIngredients, pantryStaples, onUpdateRecipe, onDeleteRecipe, onImportRecipes, isImporting, importError, onMarkCooked, onBack, language, t }) => {
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [openRecipeId, setOpenRecipeId] = useState<string | null>(null);
+  const [servingCount, setServingCount] = useState(1);
+  const [isOnShoppingList, setIsOnShoppingList] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const results = useMemo(() => searchSavedRecipes(savedRecipes, query, favoritesOnly), [savedRecipes, query, favoritesOnly]);
+  const openRecipe = savedRecipes.find(saved => saved.id === openRecipeId);
+
+  const shoppingListItems = useMemo(() => openRecipe
+    ? buildShoppingList([{ recipe: openRecipe.recipe, servingCount }], availableIngredients, pantryStaples)
+    : [], [openRecipe, servingCount, availableIngredients, pantryStaples]);
+
+  const handleOpen = (id: string) => {
+    setOpenRecipeId(id);
+    setServingCount(1);
+    setIsOnShoppingList(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportText(await file.text());
+      setImportedCount(null);
+    } catch (err) {
+      console.error("Failed to read the recipe file:", err);
+    }
+  };
+
+  const handleImport = async () => {
+    setImportedCount(null);
+    const count = await onImportRecipes(importText.trim());
+    if (count > 0) {
+      setImportText('');
+      setImportedCount(count);
+    }
+  };
+
+  const handleDelete = (saved: SavedRecipe) => {
+    if (window.confirm(t('recipeBookDeleteConfirm', { name: saved.recipe.recipeName }))) {
+      onDeleteRecipe(saved.id);
+    }
+  };
+
+  if (openRecipe) {
+    return (
+      <div className="w-full max-w-2xl mx-auto">
+        <button
+          onClick={() => setOpenRecipeId(null)}
+          className="mb-6 flex items-center gap-2 text-sm font-semibold text-[--color-primary] hover:underline"
+        >
+          <ArrowLeftIcon className="w-4 h-4" />
+          {t('recipeBookBackToList')}
+        </button>
+        <RecipeCard
+          recipe={openRecipe.recipe}
+          availableIngredients={availableIngredients}
+          pantryStaples={pantryStaples}
+          servingCount={servingCount}
+          onServingChange={(newCount) => setServingCount(Math.max(1, newCount))}
+          onMarkCooked={(count) => onMarkCooked(openRecipe.recipe, count)}
+          isOnShoppingList={isOnShoppingList}
+          onToggleShoppingList={() => setIsOnShoppingList(prev => !prev)}
+          isSaved={true}
+          onSave={() => {}}
+          language={language}
+          t={t}
+        />
+        {isOnShoppingList && <ShoppingList items={shoppingListItems} t={t} />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto">
+      <button
+        onClick={onBack}
+        className="mb-6 flex items-center gap-2 text-sm font-semibold text-[--color-primary] hover:underline"
+      >
+        <ArrowLeftIcon className="w-4 h-4" />
+        {t('back')}
+      </button>
+      <h1 className="text-4xl md:text-5xl font-extrabold mb-2 text-center text-[--color-text-primary]">{t('recipeBookTitle')}</h1>
+      <p className="text-center text-[--color-text-secondary] mb-8">{t('recipeBookSubtitle')}</p>
+
+      <div className="mb-8 p-4 bg-[--color-surface] rounded-2xl border border-[--color-border]">
+        <button
+          onClick={() => setIsImportOpen(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-semibold text-[--color-primary] hover:underline"
+          aria-expanded={isImportOpen}
+        >
+          <UploadIcon className="w-5 h-5" />
+          {t('recipeBookImport')}
+        </button>
+        {isImportOpen && (
+          <div className="mt-4">
+            <p className="mb-3 text-sm text-[--color-text-secondary]">{t('recipeBookImportHint')}</p>
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder={t('recipeBookImportPlaceholder')}
+              rows={8}
+              className="w-full p-3 bg-white text-[--color-text-primary] border border-[--color-border] rounded-lg focus:ring-2 focus:ring-[--color-accent] focus:border-[--color-accent] outline-none transition-colors duration-200 resize-y font-mono text-sm"
+              aria-label={t('recipeBookImportPlaceholder')}
+            />
+            <div className="mt-3 flex flex-col items-start gap-3">
+              <label className="cursor-pointer text-sm font-semibold text-[--color-accent] hover:underline">
+                {t('recipeBookImportFile')}
+                <input type="file" accept=".json,.jsonld,.md,.markdown,.txt,.html,.htm" onChange={handleImportFile} className="sr-only" />
+              </label>
+              <button onClick={handleImport} disabled={isImporting || importText.trim() === ''} className="primary-button">
+                {isImporting ? t('recipeBookImporting') : t('recipeBookImportButton')}
+              </button>
+            </div>
+            {importError && <p className="mt-3 text-sm text-red-600">{importError}</p>}
+            {importedCount !== null && (
+              <p className="mt-3 text-sm text-green-700">{t(importedCount === 1 ? 'recipeBookImportSuccess' : 'recipeBookImportSuccess_plural', { count: importedCount })}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-8">
+        <div className="flex-grow flex items-center gap-2 p-2 bg-white border border-[--color-border] rounded-lg focus-within:ring-2 focus-within:ring-[--color-accent]">
+          <SearchIcon className="w-5 h-5 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('recipeBookSearchPlaceholder')}
+            className="flex-grow bg-transparent text-[--color-text-primary] outline-none"
+            aria-label={t('recipeBookSearchPlaceholder')}
+          />
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer font-medium text-[--color-text-secondary]">
+          <input type="checkbox" checked={favoritesOnly} onChange={() => setFavoritesOnly(!favoritesOnly)} className="custom-checkbox" />
+          {t('recipeBookFavoritesOnly')}
+        </label>
+      </div>
+
+      {results.length > 0 && (
+        <div className="mb-8">
+          <p className="mb-2 text-sm font-semibold text-[--color-text-secondary]">{t('recipeBookExport', { count: results.length })}</p>
+          <RecipeExportMenu
+            items={results.map(saved => ({ recipe: saved.recipe, servingCount: 1 }))}
+            fileName="recipe-book"
+            title={t('recipeBookTitle')}
+            language={language}
+            t={t}
+          />
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <p className="text-center text-[--color-text-secondary] p-8 bg-[--color-surface] rounded-2xl border border-[--color-border]">
+          {savedRecipes.length === 0 ? t('recipeBookEmpty') : t('recipeBookNoResults')}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {results.map(saved => (
+            <li key={saved.id} className="flex gap-4 p-4 bg-[--color-surface] rounded-2xl shadow border border-[--color-border]">
+              <div className="w-24 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-[--color-border]">
+                {saved.recipe.imageUrl && <img src={saved.recipe.imageUrl} alt={saved.recipe.recipeName} className="w-full h-full object-cover" />}
+              </div>
+              <div className="flex-grow min-w-0 flex flex-col gap-2">
+                <div className="flex items-start gap-2">
+                  <h2 className="flex-grow text-lg font-bold text-[--color-text-primary] truncate">{saved.recipe.recipeName}</h2>
+                  <button
+                    onClick={() => onUpdateRecipe({ ...saved, favorite: !saved.favorite })}
+                    className="p-1 text-[--color-accent] hover:bg-[--color-accent]/10 rounded-full transition-colors"
+                    aria-label={t('recipeBookToggleFavorite')}
+                  >
+                    <StarIcon className="w-5 h-5" fill={saved.favorite ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(saved)}
+                    className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                    aria-label={t('recipeBookDelete')}
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+                <p className="text-sm text-[--color-text-secondary] line-clamp-2">{saved.recipe.description}</p>
+                <TagInput tags={saved.tags} onChange={(tags) => onUpdateRecipe({ ...saved, tags })} placeholder={t('recipeBookAddTag')} />
+                <button
+                  onClick={() => handleOpen(saved.id)}
+                  className="self-start text-sm font-semibold text-[--color-accent] hover:underline"
+                >
+                  {t('recipeBookOpen')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
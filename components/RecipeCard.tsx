@@ -1,90 +1,54 @@
 import React, { useMemo, useState } from 'react';
-import type { Recipe, AvailableIngredient } from '../types';
-import { UserIcon, PlusIcon, MinusIcon, ClipboardListIcon, BookOpenIcon, FireIcon, CopyIcon, CheckIcon } from './icons';
-import type { TFunction } from '../translations';
+import type { Recipe, AvailableIngredient, ImageStatus } from '../types';
+import { UserIcon, PlusIcon, MinusIcon, ClipboardListIcon, BookOpenIcon, FireIcon, CopyIcon, CheckIcon, ShoppingCartIcon, BookmarkIcon, RefreshIcon, ChefIcon, TimerIcon, DownloadIcon } from './icons';
+import type { TFunction, TranslationKey } from '../translations';
+import { NutritionPanel } from './NutritionPanel';
+import { CookMode } from './CookMode';
+import { RecipeExportMenu } from './RecipeExportMenu';
+import { calculateMaxServings, calculateShortfall, isUnmeasuredIngredientMissing } from '../services/recipeAvailability';
+import { isPantryStaple } from '../services/ingredientMatching';
+import { calculateRecipeNutrition, getCalorieDisagreement } from '../services/nutritionCalculator';
+import { calculateRecipeTimes, formatMinutes, getRecipeSteps } from '../services/cookingSteps';
+import { findRequiredEquipment } from '../services/kitchenEquipment';
+import { recipeFileName } from '../services/recipeExport';
 
 
 interface RecipeCardProps {
   recipe: Recipe;
   availableIngredients: AvailableIngredient[];
+  pantryStaples: string[];
   servingCount: number;
   onServingChange: (newCount: number) => void;
+  onMarkCooked: (servingCount: number) => void;
+  isOnShoppingList: boolean;
+  onToggleShoppingList: () => void;
+  isSaved: boolean;
+  onSave: () => void;
+  // Optional so saved recipes, whose images are stored with them, can reuse the card.
+  imageStatus?: ImageStatus;
+  onRetryImage?: () => void;
+  // Language code the recipe is written in, used to read it aloud in cook mode.
+  language: string;
   t: TFunction;
 }
 
 type ActiveTab = 'ingredients' | 'instructions';
 
-// --- Helper Functions ---
-
-// List of common pantry staples in multiple languages to be ignored in max servings calculation
-const pantryStaples = [
-    'salt', 'pepper', 'oil', 'water', 'sugar', // en
-    'socker', 'peppar', 'olja', 'vatten', // sv
-    'salz', 'pfeffer', 'öl', 'wasser', 'zucker', // de
-    'sel', 'poivre', 'huile', 'eau', 'sucre', // fr
-    'sal', 'pimienta', 'aceite', 'agua', 'azúcar', // es
-    'sale', 'pepe', 'olio', 'acqua', 'zucchero', // it
-    'sol', 'papar', 'ulje', 'voda', 'šećer' // hr
-];
-
-const normalizeString = (str: string) => str.toLowerCase().replace(/s$/, '');
-
-const isPantryStaple = (name: string) => {
-    const normalized = normalizeString(name);
-    // Use .some() for efficiency and check if the ingredient name *contains* a staple word.
-    return pantryStaples.some(staple => normalized.includes(staple));
-};
-
-// A set of common "each" type units that can be treated as equivalent.
-const discreteUnits = new Set(['unit', 'st', 'styck', 'piece', 'item']);
-
-const calculateMaxServings = (recipe: Recipe, available: AvailableIngredient[]): number => {
-    let maxPossible = Infinity;
-
-    for (const recipeIng of recipe.ingredients) {
-        // Skip pantry staples in the calculation, assuming user has enough.
-        if (isPantryStaple(recipeIng.name)) {
-            continue;
-        }
-        
-        const normalizedRecipeIngName = normalizeString(recipeIng.name);
-        const availableIng = available.find(aIng => normalizeString(aIng.name) === normalizedRecipeIngName);
-
-        if (availableIng && recipeIng.quantity > 0) {
-            const normAvailableUnit = normalizeString(availableIng.unit);
-            const normRecipeUnit = normalizeString(recipeIng.unit);
-            
-            const unitsMatch = (normAvailableUnit === normRecipeUnit) || 
-                               (discreteUnits.has(normAvailableUnit) && discreteUnits.has(normRecipeUnit));
-
-            if (unitsMatch) {
-                const possible = Math.floor(availableIng.quantity / recipeIng.quantity);
-                if (possible < maxPossible) {
-                    maxPossible = possible;
-                }
-            } else {
-                 // Units don't match and aren't interchangeable discrete units.
-                 // This is a strict check. For a production app, a unit conversion library would be better.
-                 return 0;
-            }
-        } else if (!availableIng) {
-            // If a non-pantry ingredient is not available at all, can't make any.
-            return 0;
-        }
-    }
-    
-    // If loop completes and maxPossible is still Infinity, it means all ingredients were pantry staples.
-    // Default to a high number, e.g., 20 servings. Otherwise, return the calculated max.
-    return maxPossible === Infinity ? 20 : Math.max(0, maxPossible);
-};
-
-
 // --- Component ---
 
-export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredients, servingCount, onServingChange, t }) => {
+export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredients, pantryStaples, servingCount, onServingChange, onMarkCooked, isOnShoppingList, onToggleShoppingList, isSaved, onSave, imageStatus, onRetryImage, language, t }) => {
   const [activeTab, setActiveTab] = useState<ActiveTab>('ingredients');
   const [isCopied, setIsCopied] = useState(false);
-  const maxServings = useMemo(() => calculateMaxServings(recipe, availableIngredients), [recipe, availableIngredients]);
+  const [isCooked, setIsCooked] = useState(false);
+  const [isCooking, setIsCooking] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const maxServings = useMemo(() => calculateMaxServings(recipe, availableIngredients, pantryStaples), [recipe, availableIngredients, pantryStaples]);
+  const nutritionEstimate = useMemo(() => calculateRecipeNutrition(recipe), [recipe]);
+  const calorieDisagreement = getCalorieDisagreement(recipe.calories, nutritionEstimate);
+  const hasEstimate = nutritionEstimate.matchedCount > 0;
+  const steps = useMemo(() => getRecipeSteps(recipe), [recipe]);
+  const times = useMemo(() => calculateRecipeTimes(recipe), [recipe]);
+  const equipment = useMemo(() => findRequiredEquipment(recipe), [recipe]);
   
   // Cap serving count for UI sanity, though user can go higher to see shopping list
   const sliderMax = 20;
@@ -113,6 +77,13 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
     });
   };
 
+  const handleMarkCooked = () => {
+    if (!window.confirm(t('markCookedConfirm', { count: servingCount }))) return;
+    onMarkCooked(servingCount);
+    setIsCooked(true);
+    setTimeout(() => setIsCooked(false), 2000);
+  };
+
   const TabButton: React.FC<{tab: ActiveTab, label: string, icon: React.ReactNode}> = ({ tab, label, icon }) => (
     <button
       onClick={() => setActiveTab(tab)}
@@ -129,9 +100,28 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
 
   return (
     <div className="bg-[--color-surface] p-6 rounded-2xl shadow-lg border border-[--color-border] flex flex-col h-full">
-      <div className="w-full h-56 mb-4 rounded-lg overflow-hidden bg-gray-200">
+      <div className="relative w-full h-56 mb-4 rounded-lg overflow-hidden bg-gray-200">
+        <button
+          onClick={onSave}
+          disabled={isSaved}
+          className="absolute top-2 right-2 z-[1] flex items-center gap-1 bg-[--color-surface]/90 text-[--color-primary] text-xs font-semibold py-1.5 px-3 rounded-full shadow hover:bg-[--color-surface] transition-colors disabled:cursor-default"
+          aria-label={isSaved ? t('recipeSaved') : t('saveRecipe')}
+        >
+          <BookmarkIcon className="w-4 h-4" fill={isSaved ? 'currentColor' : 'none'} />
+          {isSaved ? t('recipeSaved') : t('saveRecipe')}
+        </button>
         {recipe.imageUrl ? (
           <img src={recipe.imageUrl} alt={recipe.recipeName} className="w-full h-full object-cover" />
+        ) : imageStatus === 'failed' ? (
+          <div className="w-full h-full flex flex-col items-center justify-center gap-3 bg-[--color-border]">
+            <p className="text-sm text-[--color-text-secondary]">{t('imageFailed')}</p>
+            {onRetryImage && (
+              <button onClick={onRetryImage} className="flex items-center gap-1 bg-[--color-surface] text-[--color-primary] text-xs font-semibold py-1.5 px-3 rounded-full shadow hover:bg-[--color-surface]/80 transition-colors">
+                <RefreshIcon className="w-4 h-4" />
+                {t('retryImage')}
+              </button>
+            )}
+          </div>
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-[--color-border] animate-pulse">
             <svg className="w-10 h-10 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -143,20 +133,55 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
 
       <h2 className="text-2xl font-bold mb-2 text-[--color-text-primary]">{recipe.recipeName}</h2>
       <p className="text-[--color-text-secondary] mb-4 text-sm italic">{recipe.description}</p>
+
+      {(times.totalMinutes > 0 || equipment.length > 0) && (
+        <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-[--color-text-secondary]">
+          {times.totalMinutes > 0 && (
+            <span className="flex items-center gap-1">
+              <TimerIcon className="w-4 h-4 text-[--color-primary]" />
+              <strong className="text-[--color-text-primary]">{t('recipeTotalTime', { time: formatMinutes(times.totalMinutes) })}</strong>
+              {times.activeMinutes !== null && times.activeMinutes < times.totalMinutes && (
+                <span>· {t('recipeActiveTime', { time: formatMinutes(times.activeMinutes) })}</span>
+              )}
+            </span>
+          )}
+          {equipment.length > 0 && (
+            <span>
+              {t('recipeEquipment')}{' '}
+              {equipment.map(item => t(`equipment_${item.replace('-', '_')}` as TranslationKey)).join(', ')}
+            </span>
+          )}
+        </div>
+      )}
       
-      {recipe.calories && (
-        <div className="mb-4 flex items-center gap-4 p-3 bg-green-50/50 rounded-lg border border-green-200">
-          <FireIcon className="w-6 h-6 text-[--color-accent]" />
-          <div>
-            <div className="font-bold text-lg text-[--color-text-primary]">{recipe.calories * servingCount} kcal</div>
-            <div className="text-xs text-[--color-text-secondary]">{servingsTotalText}</div>
-          </div>
-          <div className="ml-auto text-right text-xs text-[--color-text-secondary]">
-            ({recipe.calories} {t('caloriesPerServing')})
+      {(recipe.calories || hasEstimate) && (
+        <div className={`mb-4 p-3 rounded-lg border ${calorieDisagreement ? 'bg-amber-50 border-amber-300' : 'bg-green-50/50 border-green-200'}`}>
+          <div className="flex items-center gap-4">
+            <FireIcon className="w-6 h-6 text-[--color-accent]" />
+            <div>
+              <div className="font-bold text-lg text-[--color-text-primary]">{(recipe.calories ?? nutritionEstimate.calories) * servingCount} kcal</div>
+              <div className="text-xs text-[--color-text-secondary]">{servingsTotalText}</div>
+            </div>
+            <div className="ml-auto text-right text-xs text-[--color-text-secondary]">
+              {recipe.calories && <div>{t('caloriesModelEstimate', { count: recipe.calories })}</div>}
+              {hasEstimate && <div className="font-semibold text-[--color-text-primary]">{t('caloriesCalculated', { count: nutritionEstimate.calories })}</div>}
+            </div>
           </div>
+          {hasEstimate && (
+            <p className="mt-2 text-[11px] text-[--color-text-secondary]" title={nutritionEstimate.unmatched.join(', ')}>
+              {t('nutritionCoverage', { matched: nutritionEstimate.matchedCount, total: nutritionEstimate.totalCount })}
+            </p>
+          )}
+          {calorieDisagreement && (
+            <p className="mt-1 text-xs font-semibold text-amber-700">
+              {t('caloriesDisagreement', { percent: Math.round(calorieDisagreement * 100) })}
+            </p>
+          )}
         </div>
       )}
 
+      {recipe.nutrition && <NutritionPanel nutrition={recipe.nutrition} computed={hasEstimate ? nutritionEstimate.nutrition : undefined} servingCount={servingCount} t={t} />}
+
       <div className="my-2 p-4 bg-[--color-primary]/5 rounded-lg border border-[--color-primary]/20">
         <label className="font-semibold text-[--color-text-primary] flex items-center mb-2">
           <UserIcon className="w-5 h-5 mr-2 text-[--color-primary]" /> {t('servings')}
@@ -184,6 +209,12 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
           <div className="text-xs text-[--color-text-secondary] mt-2">{t('servingsInfo')} <strong className="text-[--color-primary]">{maxServings}</strong> {servingsText}.</div>
         </div>
       </div>
+
+      <label className="mt-2 flex items-center gap-2 cursor-pointer text-sm font-medium text-[--color-text-secondary]">
+        <input type="checkbox" checked={isOnShoppingList} onChange={onToggleShoppingList} className="custom-checkbox" />
+        <ShoppingCartIcon className="w-5 h-5 text-[--color-primary]" />
+        {t('addToShoppingList')}
+      </label>
       
       <div className="flex-grow flex flex-col mt-4">
         <div className="flex border-b border-[--color-border]">
@@ -195,24 +226,16 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
             <ul className="list-disc list-inside space-y-2 text-sm text-[--color-text-secondary]">
               {recipe.ingredients.map((ing, i) => {
                   const neededForServings = ing.quantity * servingCount;
-                  const normalizedRecipeIngName = normalizeString(ing.name);
-                  const availableIng = availableIngredients.find(aIng => normalizeString(aIng.name) === normalizedRecipeIngName);
-                  
-                  let shortfall = 0;
-                  if (availableIng && normalizeString(availableIng.unit) === normalizeString(ing.unit)) {
-                      shortfall = Math.max(0, neededForServings - availableIng.quantity);
-                  } else if (!availableIng) {
-                      shortfall = neededForServings;
-                  }
-
-                  const isShort = servingCount > maxServings && shortfall > 0 && !isPantryStaple(ing.name);
+                  const shortfall = calculateShortfall(ing, servingCount, availableIngredients);
+                  const isMissing = shortfall > 0 || isUnmeasuredIngredientMissing(ing, availableIngredients);
+                  const isShort = servingCount > maxServings && isMissing && !isPantryStaple(ing.name, pantryStaples);
 
                   return (
                     <li key={i}>
                       <span className={`font-semibold ${isShort ? 'text-[--color-accent-dark]' : 'text-[--color-text-primary]'}`}>{parseFloat(neededForServings.toFixed(2))} {ing.unit}</span> {ing.name}
                       {isShort && (
                         <span className="text-xs font-semibold text-[--color-accent-dark] ml-2">
-                          ({t('buyPrefix')} {parseFloat(shortfall.toFixed(2))} {ing.unit})
+                          ({t('buyPrefix')}{shortfall > 0 && ` ${parseFloat(shortfall.toFixed(2))} ${ing.unit}`})
                         </span>
                       )}
                     </li>
@@ -221,15 +244,50 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
             </ul>
           )}
           {activeTab === 'instructions' && (
-            <ol className="list-decimal list-inside space-y-2 text-sm text-[--color-text-secondary]">
-              {recipe.instructions.map((step, i) => (
-                <li key={i} className="pl-2">{step}</li>
-              ))}
-            </ol>
+            <>
+              {recipe.instructions.length > 0 && (
+                <button
+                  onClick={() => setIsCooking(true)}
+                  className="w-full mb-4 flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg bg-[--color-primary] text-white hover:opacity-90 transition-opacity"
+                >
+                  <ChefIcon className="w-5 h-5" />
+                  {t('startCooking')}
+                </button>
+              )}
+              <ol className="list-decimal list-inside space-y-2 text-sm text-[--color-text-secondary]">
+                {steps.map((step, i) => (
+                  <li key={i} className="pl-2">
+                    {step.text}
+                    {(step.durationMinutes || step.ovenTemperatureC) && (
+                      <span className="ml-2 text-xs font-semibold text-[--color-primary]">
+                        {[step.durationMinutes && formatMinutes(step.durationMinutes), step.ovenTemperatureC && `${step.ovenTemperatureC} °C`].filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </>
           )}
         </div>
       </div>
-      <div className="mt-auto pt-4 border-t border-[--color-border]">
+      <div className="mt-auto pt-4 border-t border-[--color-border] flex flex-col sm:flex-row gap-2">
+        <button
+            onClick={handleMarkCooked}
+            className="w-full flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-300 border-2 border-[--color-border] hover:border-[--color-primary-light] hover:bg-[--color-primary]/10 text-[--color-primary] disabled:opacity-50"
+            disabled={isCooked}
+        >
+            {isCooked ? (
+                <>
+                    <CheckIcon className="w-5 h-5" />
+                    {t('markCookedSuccess')}
+                </>
+            ) : (
+                <>
+                    <FireIcon className="w-5 h-5" />
+                    {t('markCooked')}
+                </>
+            )}
+        </button>
         <button
             onClick={handleCopyRecipe}
             className="w-full flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-300 border-2 border-[--color-border] hover:border-[--color-primary-light] hover:bg-[--color-primary]/10 text-[--color-primary] disabled:opacity-50"
@@ -247,7 +305,21 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, availableIngredi
                 </>
             )}
         </button>
+        <button
+            onClick={() => setIsExportOpen(prev => !prev)}
+            className={`w-full flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-300 border-2 hover:border-[--color-primary-light] hover:bg-[--color-primary]/10 text-[--color-primary] ${isExportOpen ? 'border-[--color-primary]' : 'border-[--color-border]'}`}
+            aria-expanded={isExportOpen}
+        >
+            <DownloadIcon className="w-5 h-5" />
+            {t('exportRecipe')}
+        </button>
       </div>
+      {isExportOpen && (
+        <div className="pt-2">
+          <RecipeExportMenu items={[{ recipe, servingCount }]} fileName={recipeFileName(recipe.recipeName)} title={recipe.recipeName} language={language} t={t} />
+        </div>
+      )}
+      {isCooking && <CookMode recipe={recipe} servingCount={servingCount} language={language} onClose={() => setIsCooking(false)} t={t} />}
     </div>
   );
 };
\ No newline at end of file
@@ -1,35 +1,88 @@
-import React, { useState } from 'react';
-import type { Recipe, AvailableIngredient, MealType } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { Recipe, AvailableIngredient, MealType, ImageStatus } from '../types';
 import { RecipeCard } from './RecipeCard';
+import { ShoppingList } from './ShoppingList';
+import { ChefIcon } from './icons';
+import { buildShoppingList } from '../services/shoppingList';
+import { countExpiringIngredientsUsed, findExpiringIngredients } from '../services/freshness';
 import type { TFunction } from '../translations';
 
+type SortOrder = 'suggested' | 'expiring';
+
 interface RecipeDisplayProps {
   recipes: Recipe[];
   availableIngredients: AvailableIngredient[];
+  pantryStaples: string[];
+  language: string;
   t: TFunction;
   onGenerateMore: () => void;
+  // Why the last "generate more" request failed, if it did.
+  generateMoreError: string | null;
   onCreativityChange: (level: number) => void;
   creativityLevel: number;
+  // True while more recipes are still arriving from the model.
   isGeneratingMore: boolean;
   mealType: MealType;
   onMealTypeChange: (type: MealType) => void;
+  onMarkCooked: (recipe: Recipe, servingCount: number) => void;
+  isRecipeSaved: (recipe: Recipe) => boolean;
+  onSaveRecipe: (recipe: Recipe) => void;
+  // Keyed by the recipe's index in `recipes`.
+  imageStatus: Record<number, ImageStatus>;
+  onRetryImage: (recipe: Recipe, index: number) => void;
 }
 
 export const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ 
   recipes, 
   availableIngredients, 
+  pantryStaples,
+  language,
   t, 
   onGenerateMore, 
+  generateMoreError,
   onCreativityChange, 
   creativityLevel, 
   isGeneratingMore,
   mealType,
   onMealTypeChange,
+  onMarkCooked,
+  isRecipeSaved,
+  onSaveRecipe,
+  imageStatus,
+  onRetryImage,
 }) => {
   const [servingCounts, setServingCounts] = useState<{ [key: number]: number }>(
     () => recipes.reduce((acc, _, index) => ({ ...acc, [index]: 1 }), {})
   );
 
+  const [shoppingSelection, setShoppingSelection] = useState<{ [key: number]: boolean }>({});
+  const [sortOrder, setSortOrder] = useState<SortOrder>('suggested');
+
+  const expiring = useMemo(() => findExpiringIngredients(availableIngredients), [availableIngredients]);
+
+  // Sorting keeps each recipe's original index, which keys its servings and shopping state.
+  const orderedRecipes = useMemo(() => {
+    const entries = recipes.map((recipe, index) => ({ recipe, index, expiringUsed: countExpiringIngredientsUsed(recipe, expiring) }));
+    return sortOrder === 'expiring' ? [...entries].sort((a, b) => b.expiringUsed - a.expiringUsed) : entries;
+  }, [recipes, expiring, sortOrder]);
+
+  const shoppingListItems = useMemo(() => buildShoppingList(
+    recipes
+      .map((recipe, index) => ({ recipe, servingCount: servingCounts[index] || 1, index }))
+      .filter(({ index }) => shoppingSelection[index]),
+    availableIngredients,
+    pantryStaples
+  ), [recipes, servingCounts, shoppingSelection, availableIngredients, pantryStaples]);
+
+  const hasShoppingSelection = Object.values(shoppingSelection).some(Boolean);
+
+  const handleToggleShoppingList = (recipeIndex: number) => {
+    setShoppingSelection(prev => ({
+      ...prev,
+      [recipeIndex]: !prev[recipeIndex],
+    }));
+  };
+
   const handleServingChange = (recipeIndex: number, newCount: number) => {
     setServingCounts(prev => ({
       ...prev,
@@ -51,19 +104,56 @@ export const RecipeDisplay: React.FC<RecipeDisplayProps> = ({
     <div>
       <h1 className="text-4xl md:text-5xl font-extrabold mb-2 text-center text-[--color-text-primary]">{t('recipeDisplayTitle')}</h1>
       <p className="text-center text-[--color-text-secondary] mb-10">{t('recipeDisplaySubtitle')}</p>
+      {expiring.length > 0 && (
+        <div className="flex justify-end items-center gap-2 mb-4 text-sm">
+          <label htmlFor="recipe-sort" className="font-semibold text-[--color-text-secondary]">{t('sortLabel')}</label>
+          <select
+            id="recipe-sort"
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className="p-2 bg-white text-[--color-text-primary] border border-[--color-border] rounded-md focus:ring-2 focus:ring-[--color-accent] outline-none"
+          >
+            <option value="suggested">{t('sortSuggested')}</option>
+            <option value="expiring">{t('sortExpiring')}</option>
+          </select>
+        </div>
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {recipes.map((recipe, index) => (
-          <RecipeCard
-            key={index}
-            recipe={recipe}
-            availableIngredients={availableIngredients}
-            servingCount={servingCounts[index] || 1}
-            onServingChange={(newCount) => handleServingChange(index, newCount)}
-            t={t}
-          />
+        {orderedRecipes.map(({ recipe, index, expiringUsed }) => (
+          <div key={index} className="flex flex-col gap-2">
+            {expiringUsed > 0 && (
+              <span className="self-start text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                {t('recipeUsesExpiring', { count: expiringUsed })}
+              </span>
+            )}
+            <RecipeCard
+              recipe={recipe}
+              availableIngredients={availableIngredients}
+              pantryStaples={pantryStaples}
+              servingCount={servingCounts[index] || 1}
+              onServingChange={(newCount) => handleServingChange(index, newCount)}
+              onMarkCooked={(servingCount) => onMarkCooked(recipe, servingCount)}
+              isOnShoppingList={!!shoppingSelection[index]}
+              onToggleShoppingList={() => handleToggleShoppingList(index)}
+              isSaved={isRecipeSaved(recipe)}
+              onSave={() => onSaveRecipe(recipe)}
+              imageStatus={imageStatus[index]}
+              onRetryImage={() => onRetryImage(recipe, index)}
+              language={language}
+              t={t}
+            />
+          </div>
         ))}
+        {isGeneratingMore && (
+          <div className="flex flex-col items-center justify-center min-h-[16rem] p-6 rounded-2xl border-2 border-dashed border-[--color-border] animate-pulse">
+            <ChefIcon className="h-12 w-12 text-[--color-primary] mb-4" />
+            <p className="font-semibold text-[--color-text-secondary]">{t('recipeStreamingPlaceholder')}</p>
+          </div>
+        )}
       </div>
 
+      {hasShoppingSelection && <ShoppingList items={shoppingListItems} t={t} />}
+
       <div className="mt-16 w-full max-w-2xl mx-auto p-6 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]">
           <h3 className="text-2xl font-bold text-center mb-2 text-[--color-text-primary]">{t('generateMoreTitle')}</h3>
           <p className="text-center text-sm text-[--color-text-secondary] mb-6">{t('generateMoreSubtitle')}</p>
@@ -112,6 +202,7 @@ export const RecipeDisplay: React.FC<RecipeDisplayProps> = ({
           >
               {isGeneratingMore ? t('generatingMore') : t('generateMoreButton')}
           </button>
+          {generateMoreError && !isGeneratingMore && <p role="alert" className="text-center text-sm text-red-500 font-medium mt-4">{generateMoreError}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { TFunction } from '../translations';
+import { downloadTextFile, printHtmlDocument } from '../services/download';
+import { recipesToJsonLd, recipesToMarkdown, recipesToPrintHtml, type RecipeExportItem, type RecipeExportLabels } from '../services/recipeExport';
+
+interface RecipeExportMenuProps {
+  items: RecipeExportItem[];
+  // File name without extension, and the title of the printed document.
+  fileName: string;
+  title: string;
+  language: string;
+  t: TFunction;
+}
+
+const buildLabels = (t: TFunction): RecipeExportLabels => ({
+  ingredients: t('ingredients'),
+  instructions: t('instructions'),
+  nutrition: t('nutritionTitle'),
+  calories: t('exportCalories'),
+  perServing: t('exportPerServing'),
+  servings: count => t(count === 1 ? 'exportServings' : 'exportServings_plural', { count }),
+  totalFor: count => t(count === 1 ? 'caloriesTotalFor' : 'caloriesTotalFor_plural', { count }),
+  totalTime: time => t('recipeTotalTime', { time }),
+  nutrients: {
+    protein: t('nutritionProtein'),
+    carbohydrates: t('nutritionCarbohydrates'),
+    fat: t('nutritionFat'),
+    fiber: t('nutritionFiber'),
+    sugar: t('nutritionSugar'),
+    sodium: t('nutritionSodium'),
+  },
+});
+
+const buttonClass = "flex-1 flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-300 border-2 border-[--color-border] hover:border-[--color-primary-light] hover:bg-[--color-primary]/10 text-[--color-primary] disabled:opacity-50";
+
+export const RecipeExportMenu: React.FC<RecipeExportMenuProps> = ({ items, fileName, title, language, t }) => {
+  const labels = buildLabels(t);
+  const isEmpty = items.length === 0;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <button
+        onClick={() => downloadTextFile(`${fileName}.json`, recipesToJsonLd(items, language), 'application/ld+json')}
+        className={buttonClass}
+        disabled={isEmpty}
+        title={t('exportJsonLdHint')}
+      >
+        {t('exportJsonLd')}
+      </button>
+      <button
+        onClick={() => downloadTextFile(`${fileName}.md`, recipesToMarkdown(items, labels), 'text/markdown')}
+        className={buttonClass}
+        disabled={isEmpty}
+      >
+        {t('exportMarkdown')}
+      </button>
+      <button
+        onClick={() => printHtmlDocument(recipesToPrintHtml(items, labels, language, title))}
+        className={buttonClass}
+        disabled={isEmpty}
+      >
+        {t('exportPrint')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import type { DietaryProfile, DietType, Equipment } from '../types';
+import { CloseIcon } from './icons';
+import { TagInput } from './TagInput';
+import type { TFunction, TranslationKey } from '../translations';
+import { ALLERGEN_IDS, DIET_TYPES } from '../services/dietaryProfile';
+import { DEFAULT_PANTRY_STAPLES } from '../services/ingredientMatching';
+import { EQUIPMENT } from '../services/kitchenEquipment';
+
+interface SettingsPanelProps {
+  dietaryProfile: DietaryProfile;
+  onDietaryProfileChange: (profile: DietaryProfile) => void;
+  pantryStaples: string[];
+  onPantryStaplesChange: (staples: string[]) => void;
+  unavailableEquipment: Equipment[];
+  onUnavailableEquipmentChange: (equipment: Equipment[]) => void;
+  onClose: () => void;
+  t: TFunction;
+}
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const Section: React.FC<{ title: string; subtitle: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+  <section className="py-5 border-t border-[--color-border] first:border-t-0 first:pt-0">
+    <h3 className="font-semibold text-[--color-text-primary]">{title}</h3>
+    <p className="text-xs text-[--color-text-secondary] mb-3">{subtitle}</p>
+    {children}
+  </section>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ dietaryProfile, onDietaryProfileChange, pantryStaples, onPantryStaplesChange, unavailableEquipment, onUnavailableEquipmentChange, onClose, t }) => {
+  // Predefined allergens are checkboxes; anything else the user typed is shown as a custom chip.
+  const customAllergens = dietaryProfile.allergens.filter(allergen => !ALLERGEN_IDS.includes(allergen));
+  const presetAllergens = dietaryProfile.allergens.filter(allergen => ALLERGEN_IDS.includes(allergen));
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+      >
+        <div className="flex items-center mb-6">
+          <h2 id="settings-title" className="text-2xl font-bold text-[--color-text-primary]">{t('settingsTitle')}</h2>
+          <button onClick={onClose} className="ml-auto p-2 text-gray-500 hover:bg-[--color-border] rounded-full transition-colors" aria-label={t('close')}>
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <Section title={t('dietsTitle')} subtitle={t('dietsSubtitle')}>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {DIET_TYPES.map((diet: DietType) => (
+              <label key={diet} className="flex items-center gap-2 cursor-pointer text-sm font-medium text-[--color-text-secondary]">
+                <input
+                  type="checkbox"
+                  checked={dietaryProfile.diets.includes(diet)}
+                  onChange={() => onDietaryProfileChange({ ...dietaryProfile, diets: toggle(dietaryProfile.diets, diet) })}
+                  className="custom-checkbox"
+                />
+                {t(`diet_${diet.replace('-', '_')}` as TranslationKey)}
+              </label>
+            ))}
+          </div>
+        </Section>
+
+        <Section title={t('allergensTitle')} subtitle={t('allergensSubtitle')}>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-3">
+            {ALLERGEN_IDS.map(allergen => (
+              <label key={allergen} className="flex items-center gap-2 cursor-pointer text-sm font-medium text-[--color-text-secondary]">
+                <input
+                  type="checkbox"
+                  checked={dietaryProfile.allergens.includes(allergen)}
+                  onChange={() => onDietaryProfileChange({ ...dietaryProfile, allergens: toggle(dietaryProfile.allergens, allergen) })}
+                  className="custom-checkbox"
+                />
+                {t(`allergen_${allergen}` as TranslationKey)}
+              </label>
+            ))}
+          </div>
+          <TagInput
+            tags={customAllergens}
+            onChange={(tags) => onDietaryProfileChange({ ...dietaryProfile, allergens: [...presetAllergens, ...tags] })}
+            placeholder={t('allergensOther')}
+          />
+        </Section>
+
+        <Section title={t('dislikesTitle')} subtitle={t('dislikesSubtitle')}>
+          <TagInput
+            tags={dietaryProfile.dislikedIngredients}
+            onChange={(dislikedIngredients) => onDietaryProfileChange({ ...dietaryProfile, dislikedIngredients })}
+            placeholder={t('dislikesPlaceholder')}
+          />
+        </Section>
+
+        <Section title={t('staplesTitle')} subtitle={t('staplesSubtitle')}>
+          <TagInput
+            tags={pantryStaples}
+            onChange={onPantryStaplesChange}
+            placeholder={t('staplesPlaceholder')}
+          />
+          <button
+            onClick={() => onPantryStaplesChange([...DEFAULT_PANTRY_STAPLES])}
+            className="mt-2 text-xs font-semibold text-[--color-primary] hover:underline"
+          >
+            {t('staplesReset')}
+          </button>
+        </Section>
+
+        <Section title={t('equipmentTitle')} subtitle={t('equipmentSubtitle')}>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {EQUIPMENT.map(item => (
+              <label key={item} className="flex items-center gap-2 cursor-pointer text-sm font-medium text-[--color-text-secondary]">
+                <input
+                  type="checkbox"
+                  checked={unavailableEquipment.includes(item)}
+                  onChange={() => onUnavailableEquipmentChange(toggle(unavailableEquipment, item))}
+                  className="custom-checkbox"
+                />
+                {t(`equipment_${item.replace('-', '_')}` as TranslationKey)}
+              </label>
+            ))}
+          </div>
+        </Section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { ShoppingListItem } from '../types';
+import { ShoppingCartIcon, CopyIcon, CheckIcon } from './icons';
+import type { TFunction } from '../translations';
+import { shoppingItemKey, shoppingListToCsv, shoppingListToMarkdown, shoppingListToText } from '../services/shoppingList';
+import { downloadTextFile } from '../services/download';
+
+interface ShoppingListProps {
+  items: ShoppingListItem[];
+  t: TFunction;
+}
+
+export const ShoppingList: React.FC<ShoppingListProps> = ({ items, t }) => {
+  const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
+  const [isCopied, setIsCopied] = useState(false);
+  const title = t('shoppingListTitle');
+
+  const toggleItem = (key: string) => {
+    setCheckedItems(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Ticked-off items are already in the basket, so they're left out of text exports.
+  const uncheckedItems = items.filter(item => !checkedItems.has(shoppingItemKey(item)));
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(shoppingListToText(uncheckedItems, title)).then(() => {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    }).catch(err => {
+      console.error('Failed to copy shopping list: ', err);
+    });
+  };
+
+  const exportButtonClass = "flex-1 flex items-center justify-center gap-2 text-sm font-semibold py-2 px-4 rounded-lg transition-colors duration-300 border-2 border-[--color-border] hover:border-[--color-primary-light] hover:bg-[--color-primary]/10 text-[--color-primary] disabled:opacity-50";
+
+  return (
+    <div className="mt-12 w-full max-w-2xl mx-auto p-6 bg-[--color-surface] rounded-2xl shadow-xl border border-[--color-border]">
+      <h3 className="text-2xl font-bold flex items-center justify-center gap-2 mb-2 text-[--color-text-primary]">
+        <ShoppingCartIcon className="w-7 h-7 text-[--color-primary]" />
+        {title}
+      </h3>
+      <p className="text-center text-sm text-[--color-text-secondary] mb-6">{t('shoppingListSubtitle')}</p>
+
+      {items.length === 0 ? (
+        <p className="text-center font-semibold text-[--color-primary]">{t('shoppingListEmpty')}</p>
+      ) : (
+        <>
+          <ul className="space-y-2">
+            {items.map(item => {
+              const key = shoppingItemKey(item);
+              const isChecked = checkedItems.has(key);
+              return (
+                <li key={key}>
+                  <label className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 border border-[--color-border] cursor-pointer">
+                    <input type="checkbox" checked={isChecked} onChange={() => toggleItem(key)} className="custom-checkbox" />
+                    <span className={`text-sm ${isChecked ? 'line-through text-gray-400' : 'text-[--color-text-primary]'}`}>
+                      {item.amountToBuy > 0 && <span className="font-semibold">{item.amountToBuy} {item.unit}</span>} {item.name}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-6 flex flex-col sm:flex-row gap-2">
+            <button onClick={handleCopy} className={exportButtonClass} disabled={isCopied}>
+              {isCopied ? <CheckIcon className="w-5 h-5" /> : <CopyIcon className="w-5 h-5" />}
+              {isCopied ? t('copyRecipeSuccess') : t('shoppingListCopy')}
+            </button>
+            <button
+              onClick={() => downloadTextFile('shopping-list.md', shoppingListToMarkdown(items, title, checkedItems), 'text/markdown')}
+              className={exportButtonClass}
+            >
+              {t('exportMarkdown')}
+            </button>
+            <button
+              onClick={() => downloadTextFile('shopping-list.csv', shoppingListToCsv(uncheckedItems), 'text/csv')}
+              className={exportButtonClass}
+            >
+              {t('exportCsv')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { CloseIcon } from './icons';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  placeholder: string;
+}
+
+// A list of removable chips with an input that adds a new chip on Enter or blur.
+export const TagInput: React.FC<TagInputProps> = ({ tags, onChange, placeholder }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = () => {
+    const tag = draft.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-xs font-semibold bg-[--color-primary]/10 text-[--color-primary] py-1 px-2 rounded-full">
+          {tag}
+          <button onClick={() => onChange(tags.filter(existing => existing !== tag))} aria-label={`Remove ${tag}`}>
+            <CloseIcon className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') addTag(); }}
+        onBlur={addTag}
+        placeholder={placeholder}
+        className="w-28 text-xs p-1 bg-white border border-[--color-border] rounded-md focus:ring-2 focus:ring-[--color-accent] outline-none"
+        aria-label={placeholder}
+      />
+    </div>
+  );
+};
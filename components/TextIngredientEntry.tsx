@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { MicrophoneIcon } from './icons';
+import type { TFunction } from '../translations';
+import { useSpeechRecognition } from '../useSpeechRecognition';
+
+interface TextIngredientEntryProps {
+  onSubmit: (text: string) => void;
+  // Language code used for dictation, e.g. "sv" or "zh-CN".
+  language: string;
+  t: TFunction;
+}
+
+export const TextIngredientEntry: React.FC<TextIngredientEntryProps> = ({ onSubmit, language, t }) => {
+  const [text, setText] = useState('');
+  // Each dictated phrase becomes its own comma-separated entry.
+  const appendTranscript = (transcript: string) => {
+    setText(prev => (prev.trim() === '' ? transcript : `${prev.trim().replace(/,$/, '')}, ${transcript}`));
+  };
+  const { isSupported, isListening, interimTranscript, error, start, stop } = useSpeechRecognition(language, appendTranscript);
+
+  const handleSubmit = () => {
+    if (isListening) stop();
+    if (text.trim() !== '') onSubmit(text.trim());
+  };
+
+  return (
+    <div className="text-left">
+      <div className="relative">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('textEntryPlaceholder')}
+          rows={5}
+          className="w-full p-3 pr-14 bg-white text-[--color-text-primary] border border-[--color-border] rounded-lg focus:ring-2 focus:ring-[--color-accent] focus:border-[--color-accent] outline-none transition-colors duration-200 resize-y"
+          aria-label={t('textEntryPlaceholder')}
+        />
+        {isSupported && (
+          <button
+            onClick={isListening ? stop : start}
+            className={`absolute top-2 right-2 p-2 rounded-full transition-colors ${isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-[--color-border] text-[--color-text-secondary] hover:bg-gray-300'}`}
+            aria-label={isListening ? t('dictationStop') : t('dictationStart')}
+            aria-pressed={isListening}
+          >
+            <MicrophoneIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+      {isListening && (
+        <p className="mt-2 text-sm italic text-[--color-text-secondary]">{interimTranscript || t('dictationListening')}</p>
+      )}
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error === 'not-allowed' ? t('dictationNotAllowed') : t('dictationFailed')}</p>
+      )}
+      <button
+        onClick={handleSubmit}
+        className="mt-6 primary-button"
+        disabled={text.trim() === ''}
+      >
+        {t('textEntryButton')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+// aiErrors.ts
+// Typed errors for AI responses, so the UI can tell the user what actually
+// went wrong instead of a generic "something went wrong".
+
+/** The model answered, but not with JSON in the shape we asked for. */
+export class ParseError extends Error {
+  constructor(message = 'The AI response could not be understood.', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ParseError';
+  }
+}
+
+/** The response was valid but nothing usable was left after validation and filtering. */
+export class EmptyResultError extends Error {
+  constructor(message = 'The AI response contained no usable results.', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'EmptyResultError';
+  }
+}
+
+/** The provider rejected the request because of rate limits or an exhausted quota. */
+export class QuotaError extends Error {
+  constructor(message = 'The AI service quota has been exceeded.', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+export type AIErrorKind = 'parse' | 'empty' | 'quota' | 'unexpected';
+
+const RATE_LIMIT_PATTERN = /\b429\b|rate.?limit|resource.?exhausted|quota/i;
+
+// Providers wrap their errors in friendlier ones, so the original is looked up via `cause` too.
+export const isRateLimitError = (error: unknown): boolean => {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 3; depth++) {
+    if (current instanceof QuotaError) return true;
+    const { message, status, code } = current as { message?: unknown; status?: unknown; code?: unknown };
+    if (status === 429 || code === 429 || RATE_LIMIT_PATTERN.test(String(message ?? ''))) {
+      return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+};
+
+export const getAIErrorKind = (error: unknown): AIErrorKind => {
+  if (error instanceof ParseError) return 'parse';
+  if (error instanceof EmptyResultError) return 'empty';
+  if (isRateLimitError(error)) return 'quota';
+  return 'unexpected';
+};
@@ -0,0 +1,82 @@
+import type { AvailableIngredient, MealPlanOptions, MealType, PlannedMeal, Recipe, RecipeConstraints } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { withResponseCache } from './cachedProvider';
+
+export interface RecipeStreamProgress {
+  // Recipes the model has started writing, including one still in progress.
+  started: number;
+  completed: number;
+}
+
+/**
+ * Optional callbacks for streamed recipe generation. `onRecipe` fires as soon as
+ * each recipe is complete, before the full list has arrived.
+ */
+export interface RecipeStreamHandlers {
+  onProgress?: (progress: RecipeStreamProgress) => void;
+  onRecipe?: (recipe: Recipe, index: number) => void;
+}
+
+/**
+ * Everything the app needs from an AI backend. `App.tsx` only talks to this
+ * interface, so a vendor can be swapped without touching the UI.
+ */
+export interface RecipeAIProvider {
+  name: string;
+  // Model identifiers, used to key cached responses so a model change invalidates them.
+  models: { recipes: string; images: string };
+  // Bumped whenever prompts or response schemas change, so cached answers to the old ones aren't served.
+  promptVersion: number;
+  analyzeFridgeContents: (imageFiles: File[]) => Promise<AvailableIngredient[]>;
+  // Food line items from photos of grocery receipts, with pack sizes resolved into quantities.
+  analyzeReceipt: (imageFiles: File[]) => Promise<AvailableIngredient[]>;
+  // Typed or dictated descriptions such as "some spinach", with amounts estimated where they are vague.
+  extractIngredientsFromText: (text: string, language: string) => Promise<AvailableIngredient[]>;
+  generateMultipleRecipes: (
+    ingredients: AvailableIngredient[],
+    language: string,
+    creativity: number,
+    existingRecipes: Recipe[],
+    mealType: MealType,
+    constraints?: RecipeConstraints,
+    handlers?: RecipeStreamHandlers
+  ) => Promise<Recipe[]>;
+  // One recipe per requested day and slot, planned against a single shared pantry.
+  generateMealPlan: (
+    ingredients: AvailableIngredient[],
+    language: string,
+    options: MealPlanOptions,
+    constraints?: RecipeConstraints
+  ) => Promise<PlannedMeal[]>;
+  generateMealImage: (recipeName: string, description: string) => Promise<string>;
+  translateIngredientList: (ingredients: AvailableIngredient[], targetLanguage: string) => Promise<AvailableIngredient[]>;
+  // Recipes pasted as free text (e.g. family recipes), rewritten per serving in the app's shape.
+  parseRecipeText: (text: string, language: string) => Promise<Recipe[]>;
+}
+
+export type AIProviderName = 'gemini' | 'mock';
+
+const providers: Record<AIProviderName, RecipeAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Selected with AI_PROVIDER in .env.local. Without an explicit choice we use
+// Gemini when a key is configured and fall back to the offline mock otherwise.
+const resolveProviderName = (): AIProviderName => {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (configured === 'gemini' || configured === 'mock') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown AI_PROVIDER "${configured}", falling back to the default provider.`);
+  }
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const recipeAI: RecipeAIProvider = withResponseCache(providers[resolveProviderName()]);
+
+if (recipeAI.name === 'mock') {
+  console.info('Using the offline mock AI provider. Set GEMINI_API_KEY (and AI_PROVIDER=gemini) to use Gemini.');
+}
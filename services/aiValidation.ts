@@ -0,0 +1,234 @@
+// aiValidation.ts
+// Runtime checks for AI responses, mirroring the `responseSchema` objects in
+// geminiService.ts. The schema only constrains types, so values are range
+// checked here too. What can be repaired safely (whitespace, unit spelling,
+// numbers sent as strings, out-of-range values) is repaired; anything else is
+// dropped with a reason so one bad item never breaks the whole response.
+import type { AvailableIngredient, Equipment, IngredientDetection, Ingredient, InstructionStep, MealPlanOptions, MealSlot, NutritionInfo, PlannedMeal, Recipe } from '../types';
+import { ParseError } from './aiErrors';
+import { addDays, toDateInputValue } from './freshness';
+import { EQUIPMENT } from './kitchenEquipment';
+
+export interface DroppedItem {
+  index: number;
+  reason: string;
+}
+
+export interface ValidationResult<T> {
+  items: T[];
+  dropped: DroppedItem[];
+}
+
+export type ItemResult<T> = { value: T } | { reason: string };
+
+const MAX_QUANTITY = 100000;
+const MAX_CALORIES_PER_SERVING = 5000;
+const MAX_SHELF_LIFE_DAYS = 365;
+const BOX_SCALE = 1000;
+// Two days covers overnight marinating and proving.
+const MAX_STEP_MINUTES = 48 * 60;
+const MIN_OVEN_TEMPERATURE_C = 40;
+const MAX_OVEN_TEMPERATURE_C = 300;
+const NUTRITION_KEYS: (keyof NutritionInfo)[] = ['protein', 'carbohydrates', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+// Numbers occasionally come back as strings ("2", "1,5").
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.trim().replace(',', '.'));
+  return NaN;
+};
+
+// "Tbsp." and " Grams " become "tbsp" and "grams"; the unit converter handles the rest.
+const cleanUnit = (value: unknown): string => cleanText(value).toLowerCase().replace(/\.$/, '') || 'unit';
+
+export const parseJsonArray = (text: string | undefined, what: string): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse((text ?? '').trim());
+  } catch (e) {
+    console.error(`Failed to parse ${what} JSON:`, text);
+    throw new ParseError(`The AI response for ${what} was not valid JSON.`, { cause: e });
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ParseError(`The AI response for ${what} was not a list.`);
+  }
+  return parsed;
+};
+
+const validateItems = <T>(raw: unknown[], validateItem: (item: unknown) => ItemResult<T>, what: string): ValidationResult<T> => {
+  const items: T[] = [];
+  const dropped: DroppedItem[] = [];
+  raw.forEach((item, index) => {
+    const result = validateItem(item);
+    if ('value' in result) {
+      items.push(result.value);
+    } else {
+      dropped.push({ index, reason: result.reason });
+    }
+  });
+  if (dropped.length > 0) {
+    console.warn(`Dropped ${dropped.length} invalid ${what} from the AI response:`, dropped);
+  }
+  return { items, dropped };
+};
+
+// A box the model drew on one of `imageCount` photos. Coordinates are clamped and
+// put in order; a box with no area or on a photo that doesn't exist is dropped.
+const validateDetection = (raw: Record<string, unknown>, imageCount: number): IngredientDetection | undefined => {
+  const imageIndex = toNumber(raw.imageIndex ?? 0);
+  if (!Number.isInteger(imageIndex) || imageIndex < 0 || imageIndex >= imageCount) return undefined;
+  if (!Array.isArray(raw.box_2d) || raw.box_2d.length !== 4) return undefined;
+  const values = raw.box_2d.map(value => Math.min(Math.max(toNumber(value), 0), BOX_SCALE));
+  if (values.some(value => !Number.isFinite(value))) return undefined;
+  const [y1, x1, y2, x2] = values;
+  const box: IngredientDetection['box'] = [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+  if (box[2] - box[0] < 1 || box[3] - box[1] < 1) return undefined;
+  const confidence = toNumber(raw.confidence);
+  return { imageIndex, box, confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 1 };
+};
+
+export const validateAvailableIngredient = (raw: unknown, imageCount = 0): ItemResult<AvailableIngredient> => {
+  if (!isRecord(raw)) return { reason: 'not an object' };
+  const name = cleanText(raw.name);
+  if (!name) return { reason: 'missing name' };
+  const quantity = toNumber(raw.quantity);
+  if (!Number.isFinite(quantity)) return { reason: `"${name}" has no numeric quantity` };
+  if (quantity <= 0) return { reason: `"${name}" has a quantity of ${quantity}` };
+  const item: AvailableIngredient = { name, quantity: Math.min(quantity, MAX_QUANTITY), unit: cleanUnit(raw.unit) };
+
+  // Freshness is a best guess from the photo; a missing or odd value just falls back to the category default.
+  const daysLeft = toNumber(raw.daysUntilExpiry);
+  if (Number.isFinite(daysLeft)) {
+    item.expiresAt = toDateInputValue(addDays(new Date(), Math.round(Math.min(Math.max(daysLeft, 0), MAX_SHELF_LIFE_DAYS))));
+  }
+  const detection = imageCount > 0 ? validateDetection(raw, imageCount) : undefined;
+  if (detection) item.detection = detection;
+
+  // Receipts carry a purchase date; anything that isn't a plain past date is ignored.
+  const purchasedAt = cleanText(raw.purchasedAt);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(purchasedAt) && Date.parse(purchasedAt) <= Date.now()) {
+    item.purchasedAt = purchasedAt;
+  }
+  return { value: item };
+};
+
+const validateRecipeIngredient = (raw: unknown): ItemResult<Ingredient> => {
+  if (!isRecord(raw)) return { reason: 'an ingredient is not an object' };
+  const name = cleanText(raw.name);
+  if (!name) return { reason: 'an ingredient has no name' };
+  const quantity = toNumber(raw.quantity);
+  if (!Number.isFinite(quantity)) return { reason: `ingredient "${name}" has no numeric quantity` };
+  // "A pinch" sometimes arrives as 0; keep the ingredient rather than the recipe failing.
+  return { value: { name, quantity: Math.min(Math.max(quantity, 0), MAX_QUANTITY), unit: cleanUnit(raw.unit) } };
+};
+
+const validateNutrition = (raw: unknown): NutritionInfo | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const nutrition = {} as NutritionInfo;
+  for (const key of NUTRITION_KEYS) {
+    const value = toNumber(raw[key]);
+    if (!Number.isFinite(value)) return undefined;
+    nutrition[key] = Math.max(value, 0);
+  }
+  return nutrition;
+};
+
+// A step keeps its text even when its details are off; bad details are just left out.
+const validateInstructionStep = (raw: unknown): InstructionStep | null => {
+  if (!isRecord(raw)) return null;
+  const text = cleanText(raw.text);
+  if (!text) return null;
+  const step: InstructionStep = { text };
+
+  const duration = toNumber(raw.durationMinutes);
+  if (Number.isFinite(duration) && duration > 0) step.durationMinutes = Math.min(Math.round(duration), MAX_STEP_MINUTES);
+  if (typeof raw.isPassive === 'boolean') step.isPassive = raw.isPassive;
+  const temperature = toNumber(raw.ovenTemperatureC);
+  if (Number.isFinite(temperature) && temperature >= MIN_OVEN_TEMPERATURE_C && temperature <= MAX_OVEN_TEMPERATURE_C) {
+    step.ovenTemperatureC = Math.round(temperature);
+  }
+  if (Array.isArray(raw.equipment)) {
+    const equipment = raw.equipment.map(item => cleanText(item).toLowerCase()).filter((item): item is Equipment => EQUIPMENT.includes(item as Equipment));
+    if (equipment.length > 0) step.equipment = [...new Set(equipment)];
+  }
+  if (Array.isArray(raw.ingredients)) {
+    const ingredients = raw.ingredients.map(cleanText).filter(Boolean);
+    if (ingredients.length > 0) step.ingredients = ingredients;
+  }
+  return step;
+};
+
+export const validateRecipe = (raw: unknown): ItemResult<Recipe> => {
+  if (!isRecord(raw)) return { reason: 'not an object' };
+  const recipeName = cleanText(raw.recipeName);
+  if (!recipeName) return { reason: 'missing recipe name' };
+
+  if (!Array.isArray(raw.ingredients) || raw.ingredients.length === 0) {
+    return { reason: `"${recipeName}" has no ingredients` };
+  }
+  const ingredients: Ingredient[] = [];
+  for (const rawIngredient of raw.ingredients) {
+    const result = validateRecipeIngredient(rawIngredient);
+    if (!('value' in result)) return { reason: `"${recipeName}": ${result.reason}` };
+    ingredients.push(result.value);
+  }
+
+  // Plain 'instructions' are still accepted in case the model answers without structured steps.
+  const steps = Array.isArray(raw.steps)
+    ? raw.steps.map(validateInstructionStep).filter((step): step is InstructionStep => step !== null)
+    : [];
+  const instructions = steps.length > 0
+    ? steps.map(step => step.text)
+    : Array.isArray(raw.instructions) ? raw.instructions.map(cleanText).filter(Boolean) : [];
+  if (instructions.length === 0) return { reason: `"${recipeName}" has no instructions` };
+
+  const recipe: Recipe = { recipeName, description: cleanText(raw.description), ingredients, instructions };
+  if (steps.length > 0) recipe.steps = steps;
+
+  // Calories and nutrition are optional extras; an implausible value is left out, not fatal.
+  const calories = toNumber(raw.calories);
+  if (Number.isFinite(calories) && calories > 0 && calories <= MAX_CALORIES_PER_SERVING) {
+    recipe.calories = Math.round(calories);
+  }
+  const nutrition = validateNutrition(raw.nutrition);
+  if (nutrition) recipe.nutrition = nutrition;
+
+  return { value: recipe };
+};
+
+/** `imageCount` is the number of photos the items were detected in, for checking their boxes. */
+export const validateAvailableIngredients = (raw: unknown[], imageCount = 0): ValidationResult<AvailableIngredient> =>
+  validateItems(raw, item => validateAvailableIngredient(item, imageCount), 'ingredients');
+
+export const validateRecipes = (raw: unknown[]): ValidationResult<Recipe> =>
+  validateItems(raw, validateRecipe, 'recipes');
+
+const validatePlannedMeal = (raw: unknown, options: MealPlanOptions): ItemResult<PlannedMeal> => {
+  if (!isRecord(raw)) return { reason: 'not an object' };
+  const day = Math.round(toNumber(raw.day));
+  if (!Number.isFinite(day) || day < 1 || day > options.days) return { reason: `day ${String(raw.day)} is outside the plan` };
+  const slot = cleanText(raw.slot).toLowerCase() as MealSlot;
+  if (!options.slots.includes(slot)) return { reason: `day ${day} has an unrequested slot "${slot}"` };
+  const recipe = validateRecipe(raw.recipe);
+  if (!('value' in recipe)) return { reason: `day ${day} ${slot}: ${recipe.reason}` };
+  return { value: { day, slot, recipe: recipe.value } };
+};
+
+// Each day/slot is filled at most once; the first meal for a slot wins.
+export const validatePlannedMeals = (raw: unknown[], options: MealPlanOptions): ValidationResult<PlannedMeal> => {
+  const seen = new Set<string>();
+  return validateItems(raw, item => {
+    const result = validatePlannedMeal(item, options);
+    if (!('value' in result)) return result;
+    const key = `${result.value.day}|${result.value.slot}`;
+    if (seen.has(key)) return { reason: `day ${result.value.day} ${result.value.slot} was planned twice` };
+    seen.add(key);
+    return result;
+  }, 'planned meals');
+};
@@ -0,0 +1,223 @@
+// barcode.ts
+// Reads EAN/UPC product codes from photos. Browsers with the Shape Detection
+// API (`BarcodeDetector`) do the work natively; elsewhere a small EAN-13/UPC-A
+// and EAN-8 decoder scans rows and columns of the image for the bar pattern.
+
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: ImageBitmapSource) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+const PRODUCT_FORMATS = ['ean_13', 'ean_8', 'upc_a'];
+const MAX_SCAN_SIZE = 1200;
+const SCAN_LINES = 24;
+
+// Module widths (space, bar, space, bar) of the L-code digits. R-codes use the
+// same widths starting with a bar; G-codes are the L widths reversed.
+const L_WIDTHS = [[3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2], [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]];
+const G_WIDTHS = L_WIDTHS.map(widths => [...widths].reverse());
+// Which of the six left-hand digits are G-coded encodes the first digit of an EAN-13.
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLG', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+const MAX_DIGIT_ERROR = 0.45;
+
+/** True for 8, 12 or 13 digit codes with a correct GS1 check digit. */
+export const isValidProductCode = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) return false;
+  const digits = [...code].map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3, 1, ... starting from the digit next to the check digit.
+  const sum = digits.reverse().reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+/** UPC-A codes are EAN-13 codes with a leading zero; store them the same way. */
+export const normalizeProductCode = (code: string): string => (code.length === 12 ? `0${code}` : code);
+
+const matchDigit = (widths: number[], candidates: number[][]): { digit: number; error: number } => {
+  const total = widths.reduce((a, b) => a + b, 0);
+  let best = { digit: -1, error: Infinity };
+  candidates.forEach((pattern, digit) => {
+    const error = pattern.reduce((acc, modules, i) => acc + Math.abs(widths[i] / total * 7 - modules), 0) / 4;
+    if (error < best.error) best = { digit, error };
+  });
+  return best;
+};
+
+// Guards are runs of single modules: three at the ends, five in the middle.
+const isGuard = (widths: number[], module: number) =>
+  widths.length > 0 && widths.every(width => Math.abs(width - module) <= module * 0.6);
+
+// Right-hand digits; every R-code digit is the L-code widths starting with a bar.
+const readRightDigits = (runs: number[], pos: number, count: number): number[] | null => {
+  const digits: number[] = [];
+  for (let i = 0; i < count; i++, pos += 4) {
+    const r = matchDigit(runs.slice(pos, pos + 4), L_WIDTHS);
+    if (r.error > MAX_DIGIT_ERROR) return null;
+    digits.push(r.digit);
+  }
+  return digits;
+};
+
+// EAN-13: six L- or G-coded digits, whose parities encode the first digit, then six R-coded ones.
+const decodeEan13 = (runs: number[], pos: number): string | null => {
+  let parity = '';
+  const digits: number[] = [];
+  for (let i = 0; i < 6; i++, pos += 4) {
+    const widths = runs.slice(pos, pos + 4);
+    const l = matchDigit(widths, L_WIDTHS);
+    const g = matchDigit(widths, G_WIDTHS);
+    const best = l.error <= g.error ? { ...l, parity: 'L' } : { ...g, parity: 'G' };
+    if (best.error > MAX_DIGIT_ERROR) return null;
+    digits.push(best.digit);
+    parity += best.parity;
+  }
+  const right = readRightDigits(runs, pos + 5, 6);
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (!right || firstDigit < 0) return null;
+  const code = `${firstDigit}${digits.join('')}${right.join('')}`;
+  return isValidProductCode(code) ? code : null;
+};
+
+// EAN-8: four L-coded and four R-coded digits. Without parities to check, the
+// middle and end guards must be where they belong.
+const decodeEan8 = (runs: number[], pos: number, module: number): string | null => {
+  const digits: number[] = [];
+  for (let i = 0; i < 4; i++, pos += 4) {
+    const l = matchDigit(runs.slice(pos, pos + 4), L_WIDTHS);
+    if (l.error > MAX_DIGIT_ERROR) return null;
+    digits.push(l.digit);
+  }
+  if (!isGuard(runs.slice(pos, pos + 5), module)) return null;
+  const right = readRightDigits(runs, pos + 5, 4);
+  if (!right || !isGuard(runs.slice(pos + 21, pos + 24), module)) return null;
+  const code = `${digits.join('')}${right.join('')}`;
+  return isValidProductCode(code) ? code : null;
+};
+
+// Decodes an EAN-13 or EAN-8 starting at a bar run that should be the start guard.
+const decodeAt = (runs: number[], start: number): string | null => {
+  if (start + 43 > runs.length) return null;
+  const guard = runs.slice(start, start + 3);
+  const module = guard.reduce((a, b) => a + b, 0) / 3;
+  if (!isGuard(guard, module)) return null;
+  // The quiet zone before the start guard must be clearly wider than a bar.
+  if (start > 0 && runs[start - 1] < module * 3) return null;
+  return (start + 59 <= runs.length ? decodeEan13(runs, start + 3) : null) ?? decodeEan8(runs, start + 3, module);
+};
+
+// Run lengths of alternating light/dark pixels; the first run is always light.
+const toRuns = (line: number[]): number[] => {
+  const min = Math.min(...line);
+  const max = Math.max(...line);
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let dark = false;
+  let length = 0;
+  for (const value of line) {
+    const isDark = value < threshold;
+    if (isDark === dark) {
+      length++;
+    } else {
+      runs.push(length);
+      dark = isDark;
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return runs;
+};
+
+const decodeLine = (line: number[]): string | null => {
+  for (const pixels of [line, [...line].reverse()]) {
+    const runs = toRuns(pixels);
+    // Odd indices are dark runs.
+    for (let i = 1; i < runs.length; i += 2) {
+      const code = decodeAt(runs, i);
+      if (code) return code;
+    }
+  }
+  return null;
+};
+
+const loadGrayscale = async (file: File): Promise<{ gray: Uint8ClampedArray; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser.');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return { gray, width, height };
+};
+
+// Fallback decoder: tries evenly spaced rows, then columns for codes photographed sideways.
+const decodeWithScanLines = async (file: File): Promise<string[]> => {
+  const { gray, width, height } = await loadGrayscale(file);
+  const found = new Set<string>();
+  for (let i = 1; i <= SCAN_LINES; i++) {
+    const y = Math.floor(height * i / (SCAN_LINES + 1));
+    const row = Array.from(gray.subarray(y * width, (y + 1) * width));
+    const code = decodeLine(row);
+    if (code) found.add(code);
+  }
+  if (found.size === 0) {
+    for (let i = 1; i <= SCAN_LINES; i++) {
+      const x = Math.floor(width * i / (SCAN_LINES + 1));
+      const column = Array.from({ length: height }, (_, y) => gray[y * width + x]);
+      const code = decodeLine(column);
+      if (code) found.add(code);
+    }
+  }
+  return [...found];
+};
+
+const getNativeDetector = async (): Promise<BarcodeDetectorInstance | null> => {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    const supported = await Detector.getSupportedFormats?.() ?? PRODUCT_FORMATS;
+    const formats = PRODUCT_FORMATS.filter(format => supported.includes(format));
+    return formats.length > 0 ? new Detector({ formats }) : null;
+  } catch (e) {
+    console.warn("BarcodeDetector is unavailable, using the built-in decoder.", e);
+    return null;
+  }
+};
+
+/** All valid product codes found in the image, normalized to EAN-13 where possible. */
+export const decodeProductCodes = async (file: File): Promise<string[]> => {
+  const detector = await getNativeDetector();
+  let codes: string[] = [];
+  if (detector) {
+    try {
+      const bitmap = await createImageBitmap(file);
+      codes = (await detector.detect(bitmap)).map(result => result.rawValue);
+      bitmap.close();
+    } catch (e) {
+      console.warn("Native barcode detection failed, using the built-in decoder.", e);
+    }
+  }
+  if (codes.length === 0) {
+    codes = await decodeWithScanLines(file);
+  }
+  return [...new Set(codes.filter(isValidProductCode).map(normalizeProductCode))];
+};
@@ -0,0 +1,75 @@
+// cachedProvider.ts
+// Wraps a provider so recipe lists and meal images are served from the local
+// response cache when the same request has been made before. Repeated sessions
+// then load instantly, don't pay for the model again, and work offline.
+// "Generate more" always goes to the model: it asks for recipes the user hasn't
+// seen yet, and a cached answer would show the same ones again.
+import type { AvailableIngredient, MealType, Recipe, RecipeConstraints } from '../types';
+import type { RecipeAIProvider, RecipeStreamHandlers } from './aiProvider';
+import { createResponseCache } from './responseCache';
+import { normalizeUnit } from './unitConversion';
+
+const imageCache = createResponseCache<string>('images', { maxEntries: 60, maxBytes: 40 * 1024 * 1024 });
+const recipeCache = createResponseCache<Recipe[]>('recipes', { maxEntries: 100, maxBytes: 5 * 1024 * 1024 });
+
+// Ingredient order, case and unit spelling ("Eggs 6 pcs" vs "eggs 6 unit") don't change the request.
+const normalizeIngredientSet = (ingredients: AvailableIngredient[]) =>
+  ingredients
+    .map(({ name, quantity, unit }) => ({
+      name: name.trim().toLowerCase(),
+      quantity,
+      unit: normalizeUnit(unit) ?? unit.trim().toLowerCase(),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.quantity - b.quantity);
+
+export const withResponseCache = (provider: RecipeAIProvider): RecipeAIProvider => {
+  const generateMultipleRecipes = async (
+    ingredients: AvailableIngredient[],
+    language: string,
+    creativity: number,
+    existingRecipes: Recipe[] = [],
+    mealType: MealType,
+    constraints: RecipeConstraints = {},
+    handlers: RecipeStreamHandlers = {}
+  ): Promise<Recipe[]> => {
+    if (existingRecipes.length > 0) {
+      return provider.generateMultipleRecipes(ingredients, language, creativity, existingRecipes, mealType, constraints, handlers);
+    }
+
+    const request = {
+      model: provider.models.recipes,
+      promptVersion: provider.promptVersion,
+      ingredients: normalizeIngredientSet(ingredients),
+      language,
+      creativity,
+      mealType,
+      constraints,
+    };
+
+    const cached = await recipeCache.get(request);
+    if (cached) {
+      // Replay through the stream callbacks so the UI behaves the same either way.
+      cached.forEach((recipe, index) => handlers.onRecipe?.(recipe, index));
+      handlers.onProgress?.({ started: cached.length, completed: cached.length });
+      return cached;
+    }
+
+    const recipes = await provider.generateMultipleRecipes(ingredients, language, creativity, existingRecipes, mealType, constraints, handlers);
+    if (recipes.length > 0) {
+      await recipeCache.set(request, recipes);
+    }
+    return recipes;
+  };
+
+  const generateMealImage = async (recipeName: string, description: string): Promise<string> => {
+    const request = { model: provider.models.images, promptVersion: provider.promptVersion, recipeName, description };
+    const cached = await imageCache.get(request);
+    if (cached) return cached;
+
+    const imageUrl = await provider.generateMealImage(recipeName, description);
+    await imageCache.set(request, imageUrl);
+    return imageUrl;
+  };
+
+  return { ...provider, generateMultipleRecipes, generateMealImage };
+};
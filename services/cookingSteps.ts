@@ -0,0 +1,132 @@
+// cookingSteps.ts
+// Reads a recipe's instructions for cook mode and the recipe card. Recipes with
+// structured steps carry durations, temperatures and ingredients per step;
+// for older ones these are read from the text: durations mentioned in a step
+// ("simmer for 10 minutes", "bake 1 hour 15 min") become timers, and the
+// recipe ingredients a step mentions are called out next to it.
+import type { Ingredient, InstructionStep, Recipe } from '../types';
+import { findIngredientMatch, normalizeIngredientName } from './ingredientMatching';
+
+export interface StepDuration {
+  // The text the duration was read from, e.g. "10-12 minutes".
+  label: string;
+  seconds: number;
+}
+
+// Unit words in the app's supported languages. Longer spellings come first so
+// "minutes" isn't read as "min" followed by stray letters.
+const UNIT_PATTERNS: { pattern: string; seconds: number }[] = [
+  { seconds: 3600, pattern: 'hours?|hrs?|horas?|ore|ora|timmar|timme|tim|stunden|stunde|std|heures?|sata|sati|sat|小时|ساعات|ساعة|h' },
+  { seconds: 60, pattern: 'minutes?|minutos?|minuti|minuto|minuter|minut|minuten|minuta|mins?|分钟|دقائق|دقيقة' },
+  { seconds: 1, pattern: 'seconds?|segundos?|secondi|sekunder|sekunden|sekunde|sekundi|sekunda|secs?|秒|ثوانٍ|ثوان|ثانية' },
+];
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?|½|¼|¾`;
+// "10 minutes", "10-12 min", "10 to 12 minutes", "1½ hours". CJK and Arabic units follow the number directly.
+const DURATION_PATTERN = new RegExp(
+  String.raw`(${NUMBER})(½)?(?:\s*(?:-|–|to|a|à|bis|till|do|al|到|إلى)\s*(${NUMBER}))?\s*(${UNIT_PATTERNS.map(unit => unit.pattern).join('|')})(?![\p{L}])`,
+  'giu'
+);
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75 };
+
+const toNumber = (text: string): number => FRACTIONS[text] ?? parseFloat(text.replace(',', '.'));
+
+const unitSeconds = (unit: string): number =>
+  UNIT_PATTERNS.find(({ pattern }) => new RegExp(`^(?:${pattern})$`, 'iu').test(unit))?.seconds ?? 60;
+
+/**
+ * Durations mentioned in a step. A range gives its lower bound, so the timer
+ * goes off when it's time to check; "1 hour 15 minutes" becomes one timer.
+ */
+export const detectStepDurations = (step: string): StepDuration[] => {
+  const durations: StepDuration[] = [];
+  let previousEnd = -1;
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    const [text, amount, half, , unit] = match;
+    const seconds = Math.round((toNumber(amount) + (half ? 0.5 : 0)) * unitSeconds(unit));
+    if (seconds <= 0) continue;
+    const last = durations[durations.length - 1];
+    // A larger unit directly followed by a smaller one is a single duration.
+    const gap = previousEnd >= 0 ? step.slice(previousEnd, match.index) : '';
+    if (last && /^\s*(?:and|och|und|et|y|e|i)?\s*$/i.test(gap) && seconds < last.seconds) {
+      last.label = `${last.label}${gap}${text}`;
+      last.seconds += seconds;
+    } else {
+      durations.push({ label: text, seconds });
+    }
+    previousEnd = match.index + text.length;
+  }
+  return durations;
+};
+
+const normalizeWords = (text: string): string =>
+  ` ${text.toLowerCase().split(/[^\p{L}'’]+/u).filter(Boolean).map(normalizeIngredientName).join(' ')} `;
+
+/** The recipe ingredients a step mentions, matched like ingredient names elsewhere in the app. */
+export const findStepIngredients = (step: string, ingredients: Ingredient[]): Ingredient[] => {
+  const stepWords = normalizeWords(step);
+  const stepText = step.toLowerCase();
+  const heads = ingredients.map(ing => normalizeIngredientName(ing.name).split(' ').pop() ?? '');
+  return ingredients.filter((ing, index) => {
+    const name = normalizeIngredientName(ing.name);
+    if (stepWords.includes(` ${name} `) || stepText.includes(ing.name.toLowerCase())) return true;
+    // Steps often shorten "minced beef" to "the beef"; only trust that when no other ingredient shares the word.
+    const head = heads[index];
+    return head.length >= 3 && name.includes(' ') && heads.filter(other => other === head).length === 1 && stepWords.includes(` ${head} `);
+  });
+};
+
+/** Recipe ingredients for a step: the ones the step lists, or else the ones its text mentions. */
+export const getStepIngredients = (step: InstructionStep, ingredients: Ingredient[]): Ingredient[] => {
+  if (!step.ingredients || step.ingredients.length === 0) return findStepIngredients(step.text, ingredients);
+  const matched = step.ingredients
+    .map(name => findIngredientMatch(name, ingredients)?.item)
+    .filter((ing): ing is Ingredient => ing !== undefined);
+  return [...new Set(matched)];
+};
+
+/**
+ * One entry per instruction. Structured steps are used when they line up with
+ * the instructions; otherwise each step's duration is read from its text.
+ */
+export const getRecipeSteps = (recipe: Recipe): InstructionStep[] => {
+  if (recipe.steps && recipe.steps.length === recipe.instructions.length) return recipe.steps;
+  return recipe.instructions.map(text => {
+    const seconds = detectStepDurations(text).reduce((sum, duration) => sum + duration.seconds, 0);
+    return seconds > 0 ? { text, durationMinutes: Math.ceil(seconds / 60) } : { text };
+  });
+};
+
+export interface RecipeTimes {
+  totalMinutes: number;
+  // Hands-on time; null when the recipe doesn't say which steps are unattended.
+  activeMinutes: number | null;
+}
+
+export const calculateRecipeTimes = (recipe: Recipe): RecipeTimes => {
+  const steps = getRecipeSteps(recipe);
+  const totalMinutes = steps.reduce((sum, step) => sum + (step.durationMinutes ?? 0), 0);
+  const knowsPassiveSteps = recipe.steps !== undefined && steps === recipe.steps;
+  const activeMinutes = knowsPassiveSteps
+    ? steps.reduce((sum, step) => sum + (step.isPassive ? 0 : step.durationMinutes ?? 0), 0)
+    : null;
+  return { totalMinutes, activeMinutes };
+};
+
+/** "45 min" or "1 h 15 min". */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+/** "4:05" or "1:04:05". */
+export const formatTimer = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
@@ -0,0 +1,105 @@
+// dietaryProfile.ts
+// The user's diets, allergens and dislikes, persisted in localStorage, plus the
+// client-side check that rejects recipes containing a flagged allergen.
+import type { DietType, DietaryProfile, Recipe } from '../types';
+
+const STORAGE_KEY = 'fridgeToFeast.dietaryProfile.v1';
+
+export const DIET_TYPES: DietType[] = ['vegetarian', 'vegan', 'pescatarian', 'gluten-free', 'dairy-free', 'low-carb', 'halal', 'kosher'];
+
+// Ingredient-name keywords per allergen, in the app's supported languages.
+// Recipes come back in the user's language, so English alone isn't enough.
+export const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  nuts: [
+    'nuts', 'almond', 'walnut', 'hazelnut', 'cashew', 'pecan', 'pistachio', 'macadamia', 'praline', 'marzipan',
+    'nötter', 'mandel', 'valnöt', 'hasselnöt', 'nüsse', 'walnuss', 'haselnuss', 'noix', 'amande', 'noisette',
+    'nueces', 'almendra', 'avellana', 'noci', 'mandorl', 'nocciol', 'orasi', 'badem', 'lješnjak',
+  ],
+  peanuts: ['peanut', 'jordnöt', 'erdnuss', 'cacahuète', 'arachide', 'cacahuete', 'maní', 'kikiriki'],
+  gluten: [
+    'flour', 'wheat', 'bread', 'pasta', 'spaghetti', 'noodle', 'barley', 'rye', 'couscous', 'bulgur', 'semolina', 'breadcrumb', 'tortilla',
+    'vetemjöl', 'mjöl', 'bröd', 'mehl', 'weizen', 'brot', 'nudeln', 'farine', 'blé', 'pain', 'pâtes', 'harina', 'trigo', 'pan',
+    'farina', 'grano', 'brašno', 'kruh', 'tjestenina',
+  ],
+  dairy: [
+    'milk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'ghee', 'mozzarella', 'parmesan', 'feta',
+    'mjölk', 'ost', 'smör', 'grädde', 'milch', 'käse', 'sahne', 'joghurt', 'lait', 'fromage', 'beurre', 'crème', 'yaourt',
+    'leche', 'queso', 'mantequilla', 'nata', 'yogur', 'latte', 'formaggio', 'burro', 'panna', 'mlijeko', 'sir', 'maslac', 'vrhnje', 'jogurt',
+  ],
+  eggs: [
+    'egg', 'ägg', 'ei', 'eier', 'œuf', 'oeuf', 'huevo', 'uovo', 'uova', 'jaje', 'jaja', 'mayonnaise',
+    'äggula', 'äggvita', 'eigelb', 'eiweiß', 'eiweiss', 'eidotter', 'eiklar', 'rührei', 'spiegelei',
+  ],
+  fish: [
+    'fish', 'salmon', 'tuna', 'cod', 'anchov', 'sardine', 'trout', 'fisk', 'lax', 'tonfisk', 'fisch', 'lachs', 'thunfisch',
+    'poisson', 'saumon', 'thon', 'pescado', 'salmón', 'atún', 'pesce', 'salmone', 'tonno', 'riba', 'losos',
+  ],
+  shellfish: [
+    'shrimp', 'prawn', 'crab', 'lobster', 'mussel', 'oyster', 'clam', 'scallop', 'räkor', 'krabba', 'hummer', 'musslor',
+    'garnele', 'krabbe', 'muschel', 'crevette', 'crabe', 'homard', 'moule', 'gamba', 'camarón', 'cangrejo', 'mejillón',
+    'gamberi', 'granchio', 'cozze', 'škamp', 'rak', 'dagnje',
+  ],
+  soy: ['soy', 'soja', 'tofu', 'edamame', 'tempeh', 'miso'],
+  sesame: ['sesame', 'tahini', 'sesam', 'sésamo', 'sesamo', 'sézam'],
+};
+
+export const ALLERGEN_IDS = Object.keys(ALLERGEN_KEYWORDS);
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = { diets: [], allergens: [], dislikedIngredients: [] };
+
+export const loadDietaryProfile = (): DietaryProfile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_DIETARY_PROFILE;
+    const parsed = JSON.parse(raw);
+    return {
+      diets: Array.isArray(parsed.diets) ? parsed.diets.filter((diet: string) => DIET_TYPES.includes(diet as DietType)) : [],
+      allergens: Array.isArray(parsed.allergens) ? parsed.allergens : [],
+      dislikedIngredients: Array.isArray(parsed.dislikedIngredients) ? parsed.dislikedIngredients : [],
+    };
+  } catch (e) {
+    console.error("Failed to load dietary profile:", e);
+    return EMPTY_DIETARY_PROFILE;
+  }
+};
+
+export const saveDietaryProfile = (profile: DietaryProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.error("Failed to save dietary profile:", e);
+  }
+};
+
+export const isDietaryProfileEmpty = (profile: DietaryProfile) =>
+  profile.diets.length === 0 && profile.allergens.length === 0 && profile.dislikedIngredients.length === 0;
+
+// Short keywords ("ost", "pan", "ei") must match a whole word, otherwise they
+// would flag "roast", "pancetta" or "mais", or else end a compound word whose
+// first part is a word of its own ("fetaost", "rågbröd", "Vollkornbrot").
+// Four-letter ones may also begin a compound ("sojasås", "Sojasauce"). Shorter
+// ones begin too many other words ("eggplant", "Eisbergsalat") and "ei" ends
+// too many ("Kartoffelbrei"), so their compounds are listed as keywords.
+// Longer keywords match anywhere, e.g. inside "weizenmehl".
+const COMPOUND_PART_MIN_LENGTH = 3;
+
+const matchesKeyword = (name: string, keyword: string) => {
+  if (keyword.length > 4) return name.includes(keyword);
+  return name.split(/[^\p{L}]+/u).some(word =>
+    word === keyword
+    || word === `${keyword}s`
+    || (keyword.length >= 3 && word.endsWith(keyword) && word.length - keyword.length >= COMPOUND_PART_MIN_LENGTH)
+    || (keyword.length === 4 && word.startsWith(keyword) && word.length - keyword.length >= COMPOUND_PART_MIN_LENGTH)
+  );
+};
+
+/** The allergens from the profile that appear in a recipe's ingredient names. */
+export const findFlaggedAllergens = (recipe: Recipe, profile: DietaryProfile): string[] => {
+  return profile.allergens.filter(allergen => {
+    const keywords = ALLERGEN_KEYWORDS[allergen] ?? [allergen.toLowerCase()];
+    return recipe.ingredients.some(ing => {
+      const name = ing.name.toLowerCase();
+      return keywords.some(keyword => matchesKeyword(name, keyword));
+    });
+  });
+};
@@ -0,0 +1,37 @@
+// download.ts
+// Triggers a browser download, or the print dialog, for content generated in
+// the app.
+
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/plain') => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start reading the blob only after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Prints a standalone HTML document from a hidden frame, so the app's own
+ * layout stays out of the printout. The print dialog also offers "Save as PDF".
+ */
+export const printHtmlDocument = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener('afterprint', () => frame.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,97 @@
+// freshness.ts
+// Expiry estimates for pantry items. An item's own `expiresAt` (entered by the
+// user or estimated by the model from the photo) always wins; otherwise the
+// date is derived from when it was bought plus a typical fridge shelf life for
+// its food category.
+import type { AvailableIngredient, Recipe } from '../types';
+import { findAvailableIngredient, findIngredientMatch } from './ingredientMatching';
+
+export type FreshnessStatus = 'expired' | 'expiring' | 'fresh';
+
+// Items expiring within this many days are "use it up first".
+export const EXPIRING_SOON_DAYS = 3;
+const DEFAULT_SHELF_LIFE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ShelfLifeCategory {
+  // Lower-case names in the app's supported languages, matched like ingredient names.
+  names: string[];
+  days: number;
+}
+
+// More specific categories come first; the first best match wins.
+const SHELF_LIFE: ShelfLifeCategory[] = [
+  // Minced meat and fish spoil fastest.
+  { days: 2, names: ['minced meat', 'ground beef', 'köttfärs', 'hackfleisch', 'viande hachée', 'carne picada', 'carne macinata', 'mljeveno meso', '肉馅', 'لحم مفروم'] },
+  { days: 2, names: ['fish', 'salmon', 'cod', 'shrimp', 'prawn', 'fisk', 'lax', 'räkor', 'fisch', 'lachs', 'poisson', 'saumon', 'crevette', 'pescado', 'salmón', 'gamba', 'pesce', 'salmone', 'gambero', 'riba', 'losos', '鱼', '三文鱼', '虾', 'سمك', 'سلمون', 'روبيان'] },
+  { days: 3, names: ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'meat', 'kyckling', 'nötkött', 'fläsk', 'kött', 'hähnchen', 'huhn', 'rind', 'schwein', 'fleisch', 'poulet', 'bœuf', 'porc', 'viande', 'pollo', 'ternera', 'cerdo', 'carne', 'manzo', 'maiale', 'piletina', 'govedina', 'svinjetina', 'meso', '鸡肉', '牛肉', '猪肉', 'دجاج', 'لحم'] },
+  { days: 4, names: ['berries', 'strawberry', 'raspberry', 'blueberry', 'jordgubbe', 'hallon', 'blåbär', 'erdbeere', 'himbeere', 'fraise', 'framboise', 'fresa', 'frambuesa', 'fragola', 'lampone', 'jagoda', 'malina', '草莓', 'فراولة'] },
+  { days: 4, names: ['leftovers', 'rester', 'reste', 'restes', 'sobras', 'avanzi', 'ostaci', '剩菜', 'بقايا'] },
+  { days: 5, names: ['spinach', 'lettuce', 'salad', 'basil', 'parsley', 'coriander', 'cilantro', 'herbs', 'spenat', 'sallad', 'basilika', 'persilja', 'spinat', 'salat', 'basilikum', 'petersilie', 'épinards', 'laitue', 'basilic', 'persil', 'espinacas', 'lechuga', 'albahaca', 'perejil', 'spinaci', 'lattuga', 'basilico', 'prezzemolo', 'špinat', 'zelena salata', 'bosiljak', 'peršin', '菠菜', '生菜', 'سبانخ', 'خس'] },
+  { days: 5, names: ['bread', 'bröd', 'brot', 'pain', 'pan', 'pane', 'kruh', '面包', 'خبز'] },
+  { days: 5, names: ['banana', 'avocado', 'mushroom', 'banan', 'svamp', 'champinjon', 'banane', 'pilz', 'champignon', 'plátano', 'champiñón', 'fungo', 'gljiva', '香蕉', '蘑菇', 'موز', 'فطر'] },
+  { days: 7, names: ['milk', 'cream', 'mjölk', 'grädde', 'milch', 'sahne', 'lait', 'crème', 'leche', 'nata', 'latte', 'panna', 'mlijeko', 'vrhnje', '牛奶', '奶油', 'حليب', 'قشدة'] },
+  { days: 7, names: ['tomato', 'cucumber', 'zucchini', 'broccoli', 'bell pepper', 'tomat', 'gurka', 'paprika', 'tomate', 'gurke', 'concombre', 'courgette', 'poivron', 'pepino', 'calabacín', 'pimiento', 'pomodoro', 'cetriolo', 'peperone', 'rajčica', 'krastavac', '番茄', '黄瓜', 'طماطم', 'خيار'] },
+  { days: 10, names: ['ham', 'bacon', 'sausage', 'skinka', 'korv', 'schinken', 'speck', 'wurst', 'jambon', 'saucisse', 'jamón', 'salchicha', 'prosciutto', 'salsiccia', 'šunka', 'kobasica', '火腿', '培根', '香肠', 'نقانق'] },
+  { days: 12, names: ['yogurt', 'yoghurt', 'mozzarella', 'feta', 'ricotta', 'cream cheese', 'fil', 'kvarg', 'joghurt', 'quark', 'yaourt', 'yogur', 'jogurt', '酸奶', 'زبادي'] },
+  { days: 14, names: ['apple', 'orange', 'lemon', 'lime', 'pear', 'grape', 'äpple', 'apelsin', 'citron', 'päron', 'apfel', 'zitrone', 'birne', 'pomme', 'poire', 'manzana', 'naranja', 'limón', 'mela', 'arancia', 'limone', 'jabuka', 'naranča', 'limun', '苹果', '橙子', '柠檬', 'تفاح', 'برتقال', 'ليمون'] },
+  { days: 21, names: ['carrot', 'potato', 'onion', 'garlic', 'cabbage', 'morot', 'potatis', 'lök', 'vitlök', 'kål', 'karotte', 'kartoffel', 'zwiebel', 'knoblauch', 'kohl', 'carotte', 'pomme de terre', 'oignon', 'ail', 'chou', 'zanahoria', 'patata', 'cebolla', 'ajo', 'col', 'carota', 'cipolla', 'aglio', 'cavolo', 'mrkva', 'krumpir', 'luk', 'češnjak', 'kupus', '胡萝卜', '土豆', '洋葱', '大蒜', 'جزر', 'بطاطس', 'بصل', 'ثوم'] },
+  { days: 28, names: ['egg', 'cheese', 'cheddar', 'parmesan', 'ägg', 'ost', 'ei', 'käse', 'œuf', 'fromage', 'huevo', 'queso', 'uovo', 'formaggio', 'jaje', 'sir', '鸡蛋', '奶酪', 'بيض', 'جبن'] },
+  { days: 30, names: ['butter', 'smör', 'beurre', 'mantequilla', 'burro', 'maslac', '黄油', 'زبدة'] },
+  { days: 90, names: ['ketchup', 'mustard', 'mayonnaise', 'jam', 'sauce', 'senap', 'sylt', 'senf', 'marmelade', 'moutarde', 'confiture', 'mostaza', 'mermelada', 'salsa', 'senape', 'marmellata', 'džem', 'umak', '番茄酱', '芥末', '果酱', 'كاتشب', 'خردل', 'مربى'] },
+  { days: 180, names: ['rice', 'pasta', 'flour', 'oats', 'lentils', 'beans', 'ris', 'mjöl', 'havre', 'linser', 'bönor', 'reis', 'nudeln', 'mehl', 'hafer', 'linsen', 'bohnen', 'riz', 'pâtes', 'farine', 'lentilles', 'haricots', 'arroz', 'harina', 'lentejas', 'frijoles', 'riso', 'farina', 'lenticchie', 'fagioli', 'riža', 'tjestenina', 'brašno', 'leća', 'grah', '米', '面粉', 'أرز', 'معكرونة', 'دقيق', 'عدس'] },
+];
+
+const SHELF_LIFE_ENTRIES = SHELF_LIFE.flatMap(({ names, days }) => names.map(name => ({ name, days })));
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Date-only strings ("2025-03-14") are read as local dates, not UTC midnight.
+const parseDate = (value: string): Date => {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return dateOnly ? new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]) : startOfDay(new Date(value));
+};
+
+// Calendar days rather than 24-hour blocks, which land on 23:00 the day before after a DST change.
+export const addDays = (date: Date, days: number): Date => {
+  const result = startOfDay(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/** Typical number of days an item keeps in the fridge after purchase. */
+export const estimateShelfLifeDays = (name: string): number =>
+  findIngredientMatch(name, SHELF_LIFE_ENTRIES)?.item.days ?? DEFAULT_SHELF_LIFE_DAYS;
+
+/** The item's expiry date: its own, or purchase date plus the category's shelf life. */
+export const getExpiryDate = (item: AvailableIngredient, now: Date = new Date()): Date => {
+  if (item.expiresAt) return parseDate(item.expiresAt);
+  const purchased = item.purchasedAt ?? item.addedAt;
+  return addDays(purchased ? parseDate(purchased) : now, estimateShelfLifeDays(item.name));
+};
+
+/** Whole days until the item expires; negative once it has. */
+export const daysUntilExpiry = (item: AvailableIngredient, now: Date = new Date()): number =>
+  Math.round((getExpiryDate(item, now).getTime() - startOfDay(now).getTime()) / DAY_MS);
+
+export const getFreshnessStatus = (item: AvailableIngredient, now: Date = new Date()): FreshnessStatus => {
+  const days = daysUntilExpiry(item, now);
+  if (days < 0) return 'expired';
+  return days <= EXPIRING_SOON_DAYS ? 'expiring' : 'fresh';
+};
+
+/** Items that are expiring soon (but not yet expired), soonest first. */
+export const findExpiringIngredients = (items: AvailableIngredient[], now: Date = new Date()): AvailableIngredient[] =>
+  items
+    .map(item => ({ item, days: daysUntilExpiry(item, now) }))
+    .filter(({ days }) => days >= 0 && days <= EXPIRING_SOON_DAYS)
+    .sort((a, b) => a.days - b.days)
+    .map(({ item }) => item);
+
+/** How many of the given expiring items a recipe uses up. */
+export const countExpiringIngredientsUsed = (recipe: Recipe, expiring: AvailableIngredient[]): number =>
+  expiring.filter(item => recipe.ingredients.some(ing => findAvailableIngredient(ing.name, [item]))).length;
+
+/** `YYYY-MM-DD` for date inputs, in local time. */
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
@@ -1,11 +1,33 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { AvailableIngredient, MealType, Recipe } from '../types';
+import type { AvailableIngredient, DietaryProfile, Equipment, MealPlanOptions, MealType, PlannedMeal, Recipe, RecipeConstraints } from '../types';
+import { DEFAULT_PANTRY_STAPLES } from './ingredientMatching';
+import { EQUIPMENT } from './kitchenEquipment';
+import type { RecipeAIProvider, RecipeStreamHandlers } from './aiProvider';
+import { createJsonArrayStreamParser } from './jsonArrayStream';
+import { EmptyResultError, QuotaError, isRateLimitError } from './aiErrors';
+import { parseJsonArray, validateAvailableIngredients, validatePlannedMeals, validateRecipe, validateRecipes } from './aiValidation';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
+// The client is created on first use so that importing this module never fails,
+// e.g. when the app runs against the mock provider without an API key.
+let client: GoogleGenAI | null = null;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new Error("API_KEY environment variable is not set");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const RECIPE_MODEL = 'gemini-2.5-pro';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const PROMPT_VERSION = 2;
+
+// Rate-limit failures surface as QuotaError so the UI can explain them.
+const asQuotaError = (error: unknown): unknown =>
+  isRateLimitError(error) && !(error instanceof QuotaError) ? new QuotaError(undefined, { cause: error }) : error;
 
 const fileToGenerativePart = async (file: File) => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
@@ -20,9 +42,9 @@ const fileToGenerativePart = async (file: File) => {
 
 export const analyzeFridgeContents = async (imageFiles: File[]): Promise<AvailableIngredient[]> => {
   const imageParts = await Promise.all(imageFiles.map(file => fileToGenerativePart(file)));
-  const prompt = `Analyze these images of a refrigerator's contents. Identify all usable food items and estimate their quantities. Return the response as a JSON array of objects, where each object has 'name', 'quantity', and 'unit'. For example: [{"name": "eggs", "quantity": 6, "unit": "unit"}, {"name": "milk", "quantity": 0.5, "unit": "gallon"}]. Be as accurate as possible with estimations.`;
+  const prompt = `Analyze these images of a refrigerator's contents. Identify all usable food items and estimate their quantities. Also estimate from each item's visible condition (ripeness, wilting, packaging) how many days it will stay good in the fridge. For every item, also say where you saw it: 'imageIndex' is the 0-based position of the image among the ${imageFiles.length} provided, and 'box_2d' is [ymin, xmin, ymax, xmax] around all of that item in that image, scaled to 0-1000. 'confidence' (0 to 1) is how sure you are of the item's identity and quantity; use a low value for items that are partly hidden, blurry or ambiguous. Return the response as a JSON array of objects, where each object has 'name', 'quantity', 'unit', 'daysUntilExpiry', 'imageIndex', 'box_2d' and 'confidence'. For example: [{"name": "eggs", "quantity": 6, "unit": "unit", "daysUntilExpiry": 21, "imageIndex": 0, "box_2d": [120, 40, 310, 380], "confidence": 0.95}, {"name": "milk", "quantity": 0.5, "unit": "gallon", "daysUntilExpiry": 5, "imageIndex": 1, "box_2d": [400, 600, 900, 780], "confidence": 0.7}]. Be as accurate as possible with estimations.`;
   
-  const response = await ai.models.generateContent({
+  const response = await getClient().models.generateContent({
     model: 'gemini-2.5-flash',
     contents: { parts: [{ text: prompt }, ...imageParts] },
     config: {
@@ -35,20 +57,95 @@ export const analyzeFridgeContents = async (imageFiles: File[]): Promise<Availab
             name: { type: Type.STRING },
             quantity: { type: Type.NUMBER },
             unit: { type: Type.STRING },
+            daysUntilExpiry: { type: Type.NUMBER },
+            imageIndex: { type: Type.INTEGER },
+            box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            confidence: { type: Type.NUMBER },
           },
           required: ['name', 'quantity', 'unit'],
         },
       }
     }
-  });
+  }).catch(error => { throw asQuotaError(error); });
 
-  const jsonText = response.text.trim();
-  try {
-    return JSON.parse(jsonText);
-  } catch (e) {
-    console.error("Failed to parse ingredients JSON:", jsonText);
-    throw new Error("Could not understand the ingredients in the image.");
+  const { items } = validateAvailableIngredients(parseJsonArray(response.text, 'ingredients'), imageFiles.length);
+  if (items.length === 0) {
+    throw new EmptyResultError("Could not understand the ingredients in the image.");
+  }
+  return items;
+};
+
+export const analyzeReceipt = async (imageFiles: File[]): Promise<AvailableIngredient[]> => {
+  const imageParts = await Promise.all(imageFiles.map(file => fileToGenerativePart(file)));
+  const prompt = `These images are grocery receipts. List every food or drink item that was bought, skipping non-food items, deposits, bags, discounts and totals.
+- Expand abbreviated receipt text into a plain, generic ingredient name without brands, e.g. "ARLA MJÖLK 3% 1L" becomes "milk".
+- 'quantity' and 'unit' are the total amount bought: multiply the number of packs by the pack size when the size is printed or obvious (2 x 500 g pasta is 1000 g). For loose items sold by weight use the printed weight. Otherwise count items with the unit "unit".
+- Merge repeated lines for the same product.
+- If the receipt shows a purchase date, put it in 'purchasedAt' as YYYY-MM-DD on every item.
+Return a JSON array of objects with 'name', 'quantity', 'unit' and, when known, 'purchasedAt'. Return [] if no food items can be read.`;
+
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: { parts: [{ text: prompt }, ...imageParts] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            quantity: { type: Type.NUMBER },
+            unit: { type: Type.STRING },
+            purchasedAt: { type: Type.STRING },
+          },
+          required: ['name', 'quantity', 'unit'],
+        },
+      }
+    }
+  }).catch(error => { throw asQuotaError(error); });
+
+  const { items } = validateAvailableIngredients(parseJsonArray(response.text, 'receipt items'));
+  if (items.length === 0) {
+    throw new EmptyResultError("Could not read any food items on the receipt.");
   }
+  return items;
+};
+
+export const extractIngredientsFromText = async (text: string, language: string): Promise<AvailableIngredient[]> => {
+  const prompt = `The user described the food they have at home, typed or dictated in ${language}. List each ingredient they mention.
+- Keep each name as the user wrote it, in ${language}, without brands or descriptions of freshness.
+- Use the amount the user gave. Where it is vague ("some spinach", "a bit of cheese", "leftover rice") estimate a typical household amount in a metric unit, e.g. 100 g spinach.
+- Count whole items with the unit "unit".
+Return a JSON array of objects with 'name', 'quantity' and 'unit'. Return [] if the text mentions no food.
+
+Text: ${JSON.stringify(text)}`;
+
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            quantity: { type: Type.NUMBER },
+            unit: { type: Type.STRING },
+          },
+          required: ['name', 'quantity', 'unit'],
+        },
+      }
+    }
+  }).catch(error => { throw asQuotaError(error); });
+
+  const { items } = validateAvailableIngredients(parseJsonArray(response.text, 'ingredients'));
+  if (items.length === 0) {
+    throw new EmptyResultError("Could not find any ingredients in the text.");
+  }
+  return items;
 };
 
 const STABLE_RECIPE_CORE_PROMPT = `You are an expert chef AI for an app called "Fridge-to-Feast". The app's entire purpose is to prevent a trip to the grocery store by creating recipes **using only ingredients the user already has.**
@@ -56,7 +153,8 @@ const STABLE_RECIPE_CORE_PROMPT = `You are an expert chef AI for an app called "
 **ABSOLUTE CRITICAL RULES (Alphabetical Order):**
 - **CALORIE ESTIMATION:** For each recipe, provide a reasonable estimate of the total calories for a single serving. Include this as a number in the 'calories' field.
 - **EMPTY ARRAY FOR NO RECIPES:** If you cannot create any meaningful recipes that strictly follow all other rules, you **MUST** return an empty JSON array: \`[]\`. This is a valid and expected response.
-- **LIMITED PANTRY STAPLES:** You may assume the user has basic pantry items like salt, pepper, and vegetable oil. You can use these sparingly. Do NOT list any other items as assumed pantry staples (e.g., no mustard, no vinegar, no flour, unless they are in the provided list).
+- **LIMITED PANTRY STAPLES:** You may assume the user has the items listed under PANTRY STAPLES below, and use them freely. Do NOT assume any other pantry staples (e.g., no mustard, no vinegar, no flour, unless they are in the available or staples list).
+- **NUTRITION ESTIMATION:** For each recipe, estimate the nutrition of a single serving in the 'nutrition' object: 'protein', 'carbohydrates', 'fat', 'fiber' and 'sugar' in grams, and 'sodium' in milligrams. Base these on the ingredient quantities in the recipe.
 - **NO EXTERNAL INGREDIENTS:** Do **NOT** invent, add, or assume any ingredients that are not on the list. For example, if the user has eggs but not milk, you cannot suggest a recipe that requires milk.
 - **RECIPE COUNT:** Generate exactly 2 diverse recipes.
 - **RESPECT QUANTITIES:** The quantity of each ingredient required for a single serving in your recipe must be less than or equal to the quantity available.
@@ -67,8 +165,59 @@ Return the response as a valid JSON array of recipe objects. For each recipe, pr
 - A catchy name ('recipeName').
 - A short description ('description').
 - An estimated calorie count per serving ('calories').
+- An estimated nutrition breakdown per serving ('nutrition').
 - A list of ingredients with the exact quantities and units for a single serving ('ingredients').
-- Detailed, step-by-step instructions for a beginner cook ('instructions').`;
+- Detailed, step-by-step instructions for a beginner cook ('steps'). For each step give its 'text' and, where they apply: 'durationMinutes' (how long the step takes), 'isPassive' (true for unattended time such as baking, simmering, resting or chilling), 'ovenTemperatureC', the 'equipment' it needs beyond basic utensils, and the names of the recipe ingredients it uses ('ingredients', spelled exactly as in the ingredient list).`;
+
+// One recipe object, shared by the recipe list and meal plan responses.
+const RECIPE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    recipeName: { type: Type.STRING },
+    description: { type: Type.STRING },
+    calories: { type: Type.NUMBER },
+    nutrition: {
+      type: Type.OBJECT,
+      properties: {
+        protein: { type: Type.NUMBER },
+        carbohydrates: { type: Type.NUMBER },
+        fat: { type: Type.NUMBER },
+        fiber: { type: Type.NUMBER },
+        sugar: { type: Type.NUMBER },
+        sodium: { type: Type.NUMBER },
+      },
+      required: ['protein', 'carbohydrates', 'fat', 'fiber', 'sugar', 'sodium'],
+    },
+    ingredients: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unit: { type: Type.STRING },
+        },
+        required: ['name', 'quantity', 'unit'],
+      }
+    },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          durationMinutes: { type: Type.NUMBER },
+          isPassive: { type: Type.BOOLEAN },
+          ovenTemperatureC: { type: Type.NUMBER },
+          equipment: { type: Type.ARRAY, items: { type: Type.STRING, enum: EQUIPMENT } },
+          ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['text'],
+      }
+    },
+  },
+  required: ['recipeName', 'description', 'ingredients', 'steps', 'calories', 'nutrition'],
+};
 
 const creativityMap: { [key: number]: string } = {
   1: "Generate simple, traditional, and very easy-to-make recipes. Prioritize classic combinations and straightforward techniques.",
@@ -78,14 +227,54 @@ const creativityMap: { [key: number]: string } = {
   5: "Generate highly creative, unconventional, and 'out-of-the-box' recipes. Be adventurous and suggest something the user has likely never tried before."
 };
 
+const dietLabels: { [key: string]: string } = {
+  'vegetarian': 'vegetarian (no meat, poultry or fish)',
+  'vegan': 'vegan (no animal products at all, including dairy, eggs and honey)',
+  'pescatarian': 'pescatarian (no meat or poultry; fish and seafood are allowed)',
+  'gluten-free': 'gluten-free (no wheat, barley, rye or products made from them)',
+  'dairy-free': 'dairy-free (no milk, cheese, butter, cream or yogurt)',
+  'low-carb': 'low-carb (avoid starchy ingredients such as bread, pasta, rice and potatoes)',
+  'halal': 'halal (no pork or alcohol)',
+  'kosher': 'kosher (no pork or shellfish, and never combine meat with dairy)',
+};
+
+const buildDietaryInstruction = (profile?: DietaryProfile): string => {
+  if (!profile) return '';
+  const rules: string[] = [];
+  if (profile.diets.length > 0) {
+    rules.push(`- Every recipe **MUST** be ${profile.diets.map(diet => dietLabels[diet] || diet).join(', and ')}.`);
+  }
+  if (profile.allergens.length > 0) {
+    rules.push(`- The user is allergic to: ${profile.allergens.join(', ')}. Do **NOT** use any ingredient that contains or is derived from these, even if it is in the available list.`);
+  }
+  if (profile.dislikedIngredients.length > 0) {
+    rules.push(`- The user dislikes: ${profile.dislikedIngredients.join(', ')}. Do **NOT** use these ingredients.`);
+  }
+  if (rules.length === 0) return '';
+  return `\n\n**DIETARY RULES (HARD CONSTRAINTS, NEVER BREAK THESE):**\n${rules.join('\n')}`;
+};
+
+const buildEquipmentInstruction = (unavailable?: Equipment[]): string => {
+  if (!unavailable || unavailable.length === 0) return '';
+  return `\n\n**KITCHEN EQUIPMENT (HARD CONSTRAINT):**\nThe user does not have: ${unavailable.join(', ')}. No step may need any of these.`;
+};
+
+const buildExpiringInstruction = (expiring?: string[]): string => {
+  if (!expiring || expiring.length === 0) return '';
+  return `\n\n**USE IT UP FIRST:**\nThese available ingredients expire within the next few days: ${expiring.join(', ')}. Prefer recipes that use as many of them as possible, in generous amounts, so they don't go to waste. This never overrides the rules above.`;
+};
+
 export const generateMultipleRecipes = async (
   ingredients: AvailableIngredient[], 
   language: string,
   creativity: number,
   existingRecipes: Recipe[] = [],
-  mealType: MealType
+  mealType: MealType,
+  constraints: RecipeConstraints = {},
+  handlers: RecipeStreamHandlers = {}
 ): Promise<Recipe[]> => {
-  const ingredientsString = JSON.stringify(ingredients);
+  // Only send what the model needs; pantry metadata like added dates is left out.
+  const ingredientsString = JSON.stringify(ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit })));
 
   // 1. Stable Core (defined above)
   
@@ -104,23 +293,113 @@ export const generateMultipleRecipes = async (
     mealTypeInstruction += 'Generate any type of meal.'; // Fallback
   }
 
-  // 4. Tiny Locale Note
-  const tinyLocaleNote = `\n\n**RESPONSE LANGUAGE:**\nYour entire response, including all text fields ('recipeName', 'description', ingredient 'name's, 'unit's, and 'instructions'), must be fully translated into ${language}.`;
+  // 4. Dietary Rules
+  const dietaryInstruction = buildDietaryInstruction(constraints.dietaryProfile);
+
+  // 5. Pantry Staples
+  const staples = constraints.pantryStaples ?? DEFAULT_PANTRY_STAPLES;
+  const staplesInstruction = `\n\n**PANTRY STAPLES:**\n${staples.length > 0 ? staples.join(', ') : 'None. The user has no pantry staples; use only the available ingredients.'}`;
+
+  // 6. Kitchen Equipment
+  const equipmentInstruction = buildEquipmentInstruction(constraints.unavailableEquipment);
+
+  // 7. Use It Up First
+  const expiringInstruction = buildExpiringInstruction(constraints.expiringIngredients);
+
+  // 8. Tiny Locale Note
+  const tinyLocaleNote = `\n\n**RESPONSE LANGUAGE:**\nYour entire response, including all text fields ('recipeName', 'description', ingredient 'name's, 'unit's, and each step's 'text' and 'ingredients'), must be fully translated into ${language}. Only 'equipment' values stay in English.`;
   
-  // 5. Avoid Existing Recipes (if any)
+  // 9. Avoid Existing Recipes (if any)
   let avoidRecipesNote = '';
   if (existingRecipes.length > 0) {
     const existingRecipeNames = existingRecipes.map(r => r.recipeName).join(', ');
     avoidRecipesNote = `\n\n**IMPORTANT - AVOID DUPLICATES:**\nGenerate recipes that are distinctly different from the following already suggested recipes: [${existingRecipeNames}].`;
   }
 
-  // 6. Per-request Content
+  // 10. Per-request Content
   const perRequestContent = `\n\n**AVAILABLE INGREDIENTS (JSON):**\n${ingredientsString}`;
 
-  const prompt = STABLE_RECIPE_CORE_PROMPT + creativityInstruction + mealTypeInstruction + tinyLocaleNote + avoidRecipesNote + perRequestContent;
+  const prompt = STABLE_RECIPE_CORE_PROMPT + creativityInstruction + mealTypeInstruction + dietaryInstruction + staplesInstruction + equipmentInstruction + expiringInstruction + tinyLocaleNote + avoidRecipesNote + perRequestContent;
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-pro',
+  const stream = await getClient().models.generateContentStream({
+    model: RECIPE_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: RECIPE_SCHEMA,
+      },
+    },
+  }).catch(error => { throw asQuotaError(error); });
+
+  // Recipes are handed to the UI one by one as their JSON objects complete.
+  const parser = createJsonArrayStreamParser<unknown>();
+  const streamed: Recipe[] = [];
+  let jsonText = '';
+  try {
+    for await (const chunk of stream) {
+      const text = chunk.text ?? '';
+      jsonText += text;
+      for (const raw of parser.push(text)) {
+        const result = validateRecipe(raw);
+        if (!('value' in result)) {
+          console.warn("Dropped an invalid streamed recipe:", result.reason);
+          continue;
+        }
+        streamed.push(result.value);
+        handlers.onRecipe?.(result.value, streamed.length - 1);
+      }
+      handlers.onProgress?.({ started: parser.getStartedCount(), completed: streamed.length });
+    }
+  } catch (error) {
+    throw asQuotaError(error);
+  }
+
+  try {
+    return validateRecipes(parseJsonArray(jsonText, 'recipes')).items;
+  } catch (error) {
+    // A truncated stream still leaves us with every recipe that did complete.
+    if (streamed.length > 0) {
+      console.warn("Recipe stream ended early; using the recipes received so far.");
+      return streamed;
+    }
+    throw error;
+  }
+};
+
+export const generateMealPlan = async (
+  ingredients: AvailableIngredient[],
+  language: string,
+  options: MealPlanOptions,
+  constraints: RecipeConstraints = {}
+): Promise<PlannedMeal[]> => {
+  const ingredientsString = JSON.stringify(ingredients.map(({ name, quantity, unit }) => ({ name, quantity, unit })));
+  const staples = constraints.pantryStaples ?? DEFAULT_PANTRY_STAPLES;
+  const mealCount = options.days * options.slots.length;
+
+  const prompt = `You are an expert chef AI for an app called "Fridge-to-Feast". Plan ${mealCount} meals for the next ${options.days} day(s) using only ingredients the user already has.
+
+**ABSOLUTE CRITICAL RULES:**
+- **SLOTS:** Plan exactly one meal for each day from 1 to ${options.days} and each of these slots: ${options.slots.join(', ')}. Put the day number in 'day' and the slot name, in English and lower case, in 'slot'. Breakfasts should be breakfast dishes.
+- **SHARED PANTRY:** All meals are cooked from the same pantry. Each meal is cooked for ${options.servingsPerMeal} serving(s), so it uses ${options.servingsPerMeal} times its per-serving quantities. The total used by all meals together must fit within the available quantities; an ingredient used up by one meal is gone for the next.
+- **FRESH FIRST:** Use perishable ingredients (fresh produce, dairy, meat and fish) in the earliest days of the plan.
+- **VARIETY:** Do not repeat a recipe within the plan.
+- **LIMITED PANTRY STAPLES:** You may assume the user has the items listed under PANTRY STAPLES below, and use them freely. Do NOT assume any other pantry staples.
+- **SHORTFALL:** If the pantry cannot cover every meal, still fill every slot, but keep the number of extra ingredients to buy as small as possible and reuse them across meals.
+- **RECIPE DETAILS:** Each 'recipe' has a 'recipeName', a short 'description', 'calories' and 'nutrition' per serving ('protein', 'carbohydrates', 'fat', 'fiber' and 'sugar' in grams, 'sodium' in milligrams), 'ingredients' with quantities for a single serving, and step-by-step 'steps', each with its 'text' and, where they apply, 'durationMinutes', 'isPassive', 'ovenTemperatureC', 'equipment' and the 'ingredients' it uses.${buildDietaryInstruction(constraints.dietaryProfile)}${buildEquipmentInstruction(constraints.unavailableEquipment)}
+
+**PANTRY STAPLES:**
+${staples.length > 0 ? staples.join(', ') : 'None. The user has no pantry staples; use only the available ingredients.'}${buildExpiringInstruction(constraints.expiringIngredients)}
+
+**RESPONSE LANGUAGE:**
+Every text field of every recipe must be fully translated into ${language}. Only 'slot' and 'equipment' values stay in English.
+
+**AVAILABLE INGREDIENTS (JSON):**
+${ingredientsString}`;
+
+  const response = await getClient().models.generateContent({
+    model: RECIPE_MODEL,
     contents: prompt,
     config: {
       responseMimeType: "application/json",
@@ -129,47 +408,56 @@ export const generateMultipleRecipes = async (
         items: {
           type: Type.OBJECT,
           properties: {
-            recipeName: { type: Type.STRING },
-            description: { type: Type.STRING },
-            calories: { type: Type.NUMBER },
-            ingredients: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  quantity: { type: Type.NUMBER },
-                  unit: { type: Type.STRING },
-                },
-                required: ['name', 'quantity', 'unit'],
-              }
-            },
-            instructions: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
+            day: { type: Type.INTEGER },
+            slot: { type: Type.STRING, enum: options.slots },
+            recipe: RECIPE_SCHEMA,
           },
-          required: ['recipeName', 'description', 'ingredients', 'instructions', 'calories'],
-        }
+          required: ['day', 'slot', 'recipe'],
+        },
       },
     },
-  });
+  }).catch(error => { throw asQuotaError(error); });
 
-  const jsonText = response.text.trim();
-  try {
-    return JSON.parse(jsonText);
-  } catch (e) {
-    console.error("Failed to parse recipes JSON:", jsonText);
-    throw new Error("Could not generate valid recipes.");
+  const { items } = validatePlannedMeals(parseJsonArray(response.text, 'meal plan'), options);
+  if (items.length === 0) {
+    throw new EmptyResultError("The AI could not plan any meals with these ingredients.");
   }
+  return items;
+};
+
+export const parseRecipeText = async (text: string, language: string): Promise<Recipe[]> => {
+  const prompt = `The user pasted one or more recipes they already cook, e.g. family recipes. Convert each into a structured recipe without changing what it is.
+- Keep the dish, its ingredients and its method. Do not add ingredients or steps that aren't in the text.
+- Write every text field in ${language}, so ingredient names can be matched against the user's pantry.
+- Give 'ingredients' with quantities for a single serving: divide the amounts by the number of servings the text states, or by a sensible estimate if it doesn't. Use metric or common kitchen units, and "unit" for whole items. Use 0 for amounts like "to taste".
+- Split the method into 'steps', each with its 'text' and, where the text says so, 'durationMinutes', 'isPassive', 'ovenTemperatureC' (convert from °F or gas marks), 'equipment' and the 'ingredients' it uses.
+- Keep the original name as 'recipeName'; write a one-sentence 'description' if there is none. Estimate 'calories' and 'nutrition' per serving ('protein', 'carbohydrates', 'fat', 'fiber' and 'sugar' in grams, 'sodium' in milligrams).
+Return a JSON array with one object per recipe. Return [] if the text contains no recipe.
+
+Text: ${JSON.stringify(text)}`;
+
+  const response = await getClient().models.generateContent({
+    model: RECIPE_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: { type: Type.ARRAY, items: RECIPE_SCHEMA },
+    },
+  }).catch(error => { throw asQuotaError(error); });
+
+  const { items } = validateRecipes(parseJsonArray(response.text, 'recipes'));
+  if (items.length === 0) {
+    throw new EmptyResultError("Could not find a recipe in the text.");
+  }
+  return items;
 };
 
 export const generateMealImage = async (recipeName: string, description: string): Promise<string> => {
   const prompt = `A delicious-looking, professional photograph of a finished dish: "${recipeName}". Description: "${description}". The image should be appetizing, well-lit, with a shallow depth of field, styled like a modern food blog photo. Crucially, do not include any text, letters, or words in the image. The image should only be of the food.`;
   
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
+    const response = await getClient().models.generateImages({
+      model: IMAGE_MODEL,
       prompt: prompt,
       config: {
         numberOfImages: 1,
@@ -186,7 +474,7 @@ export const generateMealImage = async (recipeName: string, description: string)
     }
   } catch (error) {
     console.error(`Failed to generate image for "${recipeName}":`, error);
-    throw new Error(`Could not generate an image for ${recipeName}.`);
+    throw new Error(`Could not generate an image for ${recipeName}.`, { cause: error });
   }
 };
 
@@ -199,7 +487,7 @@ export const translateIngredientList = async (ingredients: AvailableIngredient[]
   const prompt = `Translate the following list of food ingredient names into ${targetLanguage}. Return the response as a JSON array of strings, in the same order as the input. For example, if the input is ["egg", "milk"], the output for Spanish should be ["huevo", "leche"]. Do not include any other text, explanations, or markdown formatting. Input: ${JSON.stringify(ingredientNames)}`;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: 'gemini-2.5-flash',
       contents: prompt,
       config: {
@@ -229,4 +517,18 @@ export const translateIngredientList = async (ingredients: AvailableIngredient[]
     // Fallback: return original ingredients if translation fails
     return ingredients;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: RecipeAIProvider = {
+  name: 'gemini',
+  models: { recipes: RECIPE_MODEL, images: IMAGE_MODEL },
+  promptVersion: PROMPT_VERSION,
+  analyzeFridgeContents,
+  analyzeReceipt,
+  extractIngredientsFromText,
+  generateMultipleRecipes,
+  generateMealPlan,
+  generateMealImage,
+  translateIngredientList,
+  parseRecipeText,
+};
@@ -0,0 +1,96 @@
+// imageQueue.ts
+// Runs meal image requests with bounded concurrency, backs off exponentially
+// when the provider signals a rate limit, and can drop everything at once when
+// the user starts over so stale images never land in a new session.
+import { isRateLimitError } from './aiErrors';
+
+export class ImageJobCancelledError extends Error {
+  constructor() {
+    super('Image generation was cancelled.');
+    this.name = 'ImageJobCancelledError';
+  }
+}
+
+export interface ImageJobQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+export interface ImageJobQueue {
+  enqueue: (job: () => Promise<string>) => Promise<string>;
+  cancelAll: () => void;
+}
+
+interface PendingJob {
+  run: () => Promise<string>;
+  resolve: (value: string) => void;
+  reject: (reason: unknown) => void;
+  generation: number;
+}
+
+export const createImageJobQueue = ({ concurrency = 2, maxRetries = 4, baseDelayMs = 2000 }: ImageJobQueueOptions = {}): ImageJobQueue => {
+  const pending: PendingJob[] = [];
+  let running = 0;
+  // Bumped by cancelAll; jobs from an older generation settle as cancelled.
+  let generation = 0;
+  const cancelWaits = new Set<() => void>();
+
+  const wait = (ms: number) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      cancelWaits.delete(cancel);
+      resolve();
+    }, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new ImageJobCancelledError());
+    };
+    cancelWaits.add(cancel);
+  });
+
+  const runWithBackoff = async (job: PendingJob): Promise<string> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await job.run();
+      } catch (error) {
+        if (job.generation !== generation) throw new ImageJobCancelledError();
+        if (!isRateLimitError(error) || attempt >= maxRetries) throw error;
+        // Jitter keeps parallel jobs from retrying in lockstep.
+        const delay = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+        console.warn(`Image request rate-limited, retrying in ${Math.round(delay)} ms.`);
+        await wait(delay);
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running++;
+      runWithBackoff(job)
+        .then(result => {
+          if (job.generation === generation) job.resolve(result);
+          else job.reject(new ImageJobCancelledError());
+        })
+        .catch(error => job.reject(job.generation === generation ? error : new ImageJobCancelledError()))
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+  };
+
+  const enqueue = (run: () => Promise<string>) => new Promise<string>((resolve, reject) => {
+    pending.push({ run, resolve, reject, generation });
+    pump();
+  });
+
+  const cancelAll = () => {
+    generation++;
+    pending.splice(0).forEach(job => job.reject(new ImageJobCancelledError()));
+    cancelWaits.forEach(cancel => cancel());
+    cancelWaits.clear();
+  };
+
+  return { enqueue, cancelAll };
+};
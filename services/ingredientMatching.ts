@@ -0,0 +1,263 @@
+// ingredientMatching.ts
+// The one place that decides whether a recipe ingredient is something the user
+// has. Names are normalized (qualifiers like "fresh" or "chopped" stripped,
+// plurals reduced to a lemma, synonyms folded together) and compared with a
+// confidence score, so "2 ripe tomatoes" finds "tomato" but "pepper" never
+// finds "bell pepper".
+
+export interface IngredientMatch<T> {
+  item: T;
+  // 1 for the same ingredient, lower for a more or less specific variety of it.
+  confidence: number;
+}
+
+// Below this a match is not trusted for filtering, servings or deductions.
+export const MATCH_THRESHOLD = 0.6;
+const VARIETY_CONFIDENCE = 0.7;
+
+// Preparation and size words that don't change what the ingredient is.
+const QUALIFIERS = new Set([
+  // en
+  'fresh', 'freshly', 'chopped', 'diced', 'sliced', 'minced', 'grated', 'shredded', 'peeled', 'crushed', 'large',
+  'small', 'medium', 'ripe', 'frozen', 'dried', 'raw', 'cooked', 'whole', 'finely', 'roughly', 'thinly', 'boneless',
+  'skinless', 'organic', 'leftover', 'of', 'and', 'or', 'a', 'some',
+  // sv
+  'färsk', 'färska', 'hackad', 'hackade', 'skivad', 'skivade', 'riven', 'rivna', 'stor', 'stora', 'liten', 'små',
+  'mogen', 'mogna', 'fryst', 'frysta', 'kokt', 'kokta', 'och',
+  // de
+  'frisch', 'frische', 'frischer', 'gehackt', 'gehackte', 'gewürfelt', 'gewürfelte', 'gerieben', 'geriebener', 'groß',
+  'große', 'klein', 'kleine', 'reif', 'reife', 'gefroren', 'tiefgekühlt', 'gekocht', 'gekochte', 'und',
+  // fr
+  'frais', 'fraîche', 'fraîches', 'haché', 'hachée', 'hachés', 'émincé', 'émincée', 'râpé', 'râpée', 'coupé', 'coupés',
+  'gros', 'grosse', 'petit', 'petite', 'petits', 'mûr', 'mûre', 'surgelé', 'surgelés', 'cuit', 'cuite', 'de', 'du', 'des', 'et',
+  // es
+  'fresco', 'fresca', 'frescos', 'frescas', 'picado', 'picada', 'picados', 'rallado', 'rallada', 'cortado', 'grande',
+  'grandes', 'pequeño', 'pequeña', 'maduro', 'madura', 'congelado', 'congelada', 'cocido', 'cocida', 'y',
+  // it
+  'freschi', 'fresche', 'tritato', 'tritata', 'grattugiato', 'grattugiata', 'tagliato', 'piccolo', 'piccola', 'maturo',
+  'matura', 'surgelato', 'surgelati', 'cotto', 'cotta', 'di', 'e',
+  // hr
+  'svjež', 'svježi', 'svježa', 'svježe', 'nasjeckan', 'nasjeckani', 'ribani', 'ribana', 'veliki', 'velika', 'mali',
+  'mala', 'zreo', 'zrela', 'smrznut', 'smrznuti', 'kuhan', 'kuhani', 'i',
+]);
+
+// Plurals and inflections that a suffix rule would get wrong, mapped to their lemma.
+const LEMMAS: Record<string, string> = {
+  // en
+  leaves: 'leaf', loaves: 'loaf', halves: 'half', knives: 'knife', geese: 'goose', mice: 'mouse',
+  // sv
+  tomater: 'tomat', morötter: 'morot', potatisar: 'potatis', lökar: 'lök', äpplen: 'äpple', bönor: 'böna',
+  ärtor: 'ärta', gurkor: 'gurka', paprikor: 'paprika', citroner: 'citron', champinjoner: 'champinjon', räkor: 'räka',
+  // de
+  eier: 'ei', tomaten: 'tomate', kartoffeln: 'kartoffel', zwiebeln: 'zwiebel', karotten: 'karotte', möhren: 'möhre',
+  äpfel: 'apfel', pilze: 'pilz', bohnen: 'bohne', erbsen: 'erbse', gurken: 'gurke', zitronen: 'zitrone', nudeln: 'nudel',
+  // fr
+  œufs: 'œuf', oeufs: 'oeuf', choux: 'chou', poireaux: 'poireau',
+  // es
+  limones: 'limón', champiñones: 'champiñón', melocotones: 'melocotón', calabacines: 'calabacín',
+  // it
+  pomodori: 'pomodoro', uova: 'uovo', patate: 'patata', cipolle: 'cipolla', carote: 'carota', funghi: 'fungo',
+  zucchine: 'zucchina', peperoni: 'peperone', limoni: 'limone', fagioli: 'fagiolo', piselli: 'pisello',
+  // hr
+  jaja: 'jaje', rajčice: 'rajčica', krumpiri: 'krumpir', mrkve: 'mrkva', gljive: 'gljiva', limuni: 'limun',
+};
+
+// Different names for the same thing, folded into the first one.
+const SYNONYM_GROUPS: string[][] = [
+  ['spring onion', 'scallion', 'green onion'],
+  ['coriander', 'cilantro'],
+  ['zucchini', 'courgette'],
+  ['eggplant', 'aubergine'],
+  ['bell pepper', 'capsicum', 'sweet pepper'],
+  ['chickpea', 'garbanzo', 'garbanzo bean'],
+  ['minced beef', 'ground beef', 'beef mince'],
+  ['icing sugar', 'powdered sugar', "confectioners' sugar"],
+  ['heavy cream', 'double cream', 'whipping cream'],
+  ['yogurt', 'yoghurt'],
+  ['shrimp', 'prawn'],
+  ['arugula', 'rocket'],
+  ['cornstarch', 'cornflour'],
+  ['egg', 'hen egg'],
+  ['vegetable oil', 'cooking oil'],
+];
+
+const SYNONYMS = new Map<string, string>(
+  SYNONYM_GROUPS.flatMap(([canonical, ...others]) => others.map(other => [other, canonical] as [string, string]))
+);
+
+// Names where a modifier makes a different food, so they never count as a variety
+// of their last word ("bell pepper" is not pepper, "peanut butter" is not butter).
+const DISTINCT_FOODS = new Set([
+  'bell pepper', 'chili pepper', 'pepper jack', 'sweet potato', 'peanut butter', 'cocoa butter', 'coconut milk',
+  'coconut water', 'cream cheese', 'sour cream', 'ice cream', 'spring onion', 'water chestnut', 'sugar snap pea',
+  'salt cod', 'rice vinegar', 'rice noodle', 'egg noodle', 'soy sauce', 'fish sauce', 'tomato paste', 'tomato sauce',
+  'almond milk', 'oat milk', 'soy milk', 'sötpotatis', 'süßkartoffel', 'patate douce',
+  // Swedish and German compounds that end in another food's name ("knoblauch" is garlic, not "lauch").
+  'knoblauch', 'schnittlauch', 'vitlök', 'gräslök', 'purjolök', 'vårlök', 'salladslök', 'frühlingszwiebel',
+  'kokosmilch', 'kokosnussmilch', 'hafermilch', 'mandelmilch', 'sojamilch', 'reismilch', 'buttermilch', 'kondensmilch',
+  'kokosmjölk', 'havremjölk', 'mandelmjölk', 'sojamjölk', 'rismjölk', 'kärnmjölk', 'filmjölk',
+  'erdnussbutter', 'kakaobutter', 'jordnötssmör', 'kakaosmör', 'kokosgrädde', 'kokossahne',
+  'kikärta', 'kichererbse', 'sockerärta', 'blomkål', 'grönkål', 'brysselkål', 'blumenkohl', 'grünkohl', 'rosenkohl',
+  // English words that merely end in another food's name ("pineapple" is not apple).
+  'pineapple', 'crabapple', 'peppercorn', 'grapefruit', 'licorice', 'liquorice', 'buttermilk', 'buckwheat', 'horseradish',
+  'shellfish', 'crayfish', 'sweetbread', 'gingerbread', 'shortbread', 'sausage',
+]);
+
+// Swedish and German food names that form one-word variety compounds
+// ("körsbärstomat", "Cocktailtomate", "vetemjöl"). Only these count as the
+// general food at the end of a single word; English doesn't build varieties
+// that way, so "pineapple" is never taken for apple.
+const COMPOUND_HEADS = new Set([
+  // sv
+  'tomat', 'potatis', 'paprika', 'gurka', 'morot', 'sallad', 'mjöl', 'bröd', 'pasta', 'grädde', 'mjölk', 'yoghurt',
+  'korv', 'skinka', 'svamp', 'äpple', 'päron', 'socker', 'senap', 'vinäger', 'olja', 'kyckling', 'färs', 'böna', 'lins',
+  // de
+  'tomate', 'kartoffel', 'gurke', 'karotte', 'möhre', 'salat', 'mehl', 'brot', 'nudel', 'sahne', 'milch', 'joghurt',
+  'käse', 'bohne', 'linse', 'wurst', 'schinken', 'pilz', 'apfel', 'birne', 'zucker', 'senf', 'essig', 'hähnchen',
+  'zwiebel', 'reis', 'quark', 'butter',
+]);
+
+// Products made from an ingredient rather than varieties of it ("chicken stock", "lemon juice").
+const DERIVED_PRODUCTS = new Set([
+  'stock', 'broth', 'bouillon', 'sauce', 'paste', 'powder', 'juice', 'vinegar', 'soup', 'extract', 'cube', 'syrup',
+]);
+
+// Built-in staples with their names in the app's supported languages and their
+// everyday varieties. A user's staple that names any of these covers the whole
+// group; anything else has to be one of the user's staples by name, so "pepper"
+// covers "black pepper" but not "red pepper" or "cayenne pepper".
+const STAPLE_SYNONYMS: string[][] = [
+  [
+    'salt', 'sal', 'sel', 'salz', 'sale', 'sol', '盐', 'ملح',
+    'sea salt', 'kosher salt', 'table salt', 'coarse salt', 'flaky salt', 'flaky sea salt', 'fine salt',
+    'havssalt', 'flingsalt', 'bordssalt', 'grovt salt', 'meersalz', 'fleur de sel', 'sel de mer', 'gros sel',
+    'sal marina', 'sale marino', 'sale fino', 'sale grosso', 'morska sol', '海盐', 'ملح البحر',
+  ],
+  [
+    'pepper', 'peppar', 'pfeffer', 'poivre', 'pimienta', 'pepe', 'papar', '胡椒', '胡椒粉', 'فلفل',
+    'black pepper', 'white pepper', 'ground pepper', 'ground black pepper', 'cracked black pepper', 'black peppercorns',
+    'svartpeppar', 'vitpeppar', 'malen svartpeppar', 'schwarzer pfeffer', 'weißer pfeffer', 'poivre noir', 'poivre blanc',
+    'pimienta negra', 'pimienta blanca', 'pepe nero', 'pepe bianco', 'crni papar', '黑胡椒', '白胡椒', 'فلفل أسود',
+  ],
+  [
+    'oil', 'olja', 'öl', 'olivenöl', 'rapsöl', 'pflanzenöl', 'sonnenblumenöl', 'huile', 'aceite', 'olio', 'ulje', '食用油', '植物油', '橄榄油', 'زيت',
+    'olive oil', 'extra virgin olive oil', 'vegetable oil', 'canola oil', 'rapeseed oil', 'sunflower oil', 'neutral oil', 'cooking oil',
+    'olivolja', 'rapsolja', 'solrosolja', 'matolja', 'neutral olja', "huile d'olive", 'huile de tournesol', 'huile végétale',
+    'aceite de oliva', 'aceite de girasol', "olio d'oliva", 'olio di oliva', 'olio extravergine di oliva', 'olio di semi',
+    'maslinovo ulje', 'suncokretovo ulje', 'زيت الزيتون',
+  ],
+  [
+    'water', 'vatten', 'wasser', 'eau', 'agua', 'acqua', 'voda', '水', 'ماء',
+    'cold water', 'warm water', 'hot water', 'boiling water', 'lukewarm water', 'ice water',
+    'kallt vatten', 'varmt vatten', 'ljummet vatten', 'kokande vatten', 'warmes wasser', 'kaltes wasser', 'eau chaude', 'eau froide',
+    'agua caliente', 'agua fría', 'acqua calda', 'acqua fredda', 'topla voda', 'hladna voda', '温水', '冷水', 'ماء دافئ',
+  ],
+  ['sugar', 'socker', 'zucker', 'sucre', 'azúcar', 'zucchero', 'šećer', '糖', 'سكر', 'white sugar', 'granulated sugar', 'strösocker', 'weißer zucker', 'sucre blanc'],
+];
+
+// What the model may assume the user has until they configure their own list.
+export const DEFAULT_PANTRY_STAPLES = ['salt', 'pepper', 'oil', 'water'];
+
+const LEMMA_SUFFIXES = Object.keys(LEMMAS).filter(form => form.length >= 5);
+
+const lemmatize = (word: string): string => {
+  if (LEMMAS[word]) return LEMMAS[word];
+  // Swedish and German compounds inflect their last part: "körsbärstomater", "Cocktailtomaten".
+  const suffix = LEMMA_SUFFIXES.find(form => word.endsWith(form));
+  if (suffix) return word.slice(0, -suffix.length) + LEMMAS[suffix];
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`; // berries
+  if (word.endsWith('oes')) return word.slice(0, -2); // tomatoes, potatoes
+  if (/(ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2); // peaches, radishes
+  // Leave "asparagus", "hummus", "potatis", "couscous" alone.
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const cache = new Map<string, string>();
+
+/** Reduces an ingredient name to a canonical form for comparison. */
+export const normalizeIngredientName = (name: string): string => {
+  const cached = cache.get(name);
+  if (cached !== undefined) return cached;
+
+  const words = name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ') // "tomatoes (ripe)"
+    .split(',')[0] // "tomatoes, diced"
+    .split(/[^\p{L}'’]+/u)
+    .filter(word => word && !QUALIFIERS.has(word))
+    .map(lemmatize);
+  // If everything was a qualifier ("fresh"), keep the original words.
+  let normalized = words.join(' ') || name.trim().toLowerCase();
+  normalized = SYNONYMS.get(normalized) ?? normalized;
+
+  cache.set(name, normalized);
+  return normalized;
+};
+
+export const isSameIngredient = (a: string, b: string): boolean =>
+  normalizeIngredientName(a) === normalizeIngredientName(b);
+
+// True when `specific` is `general` plus extra modifiers: "cherry tomato" of "tomato",
+// "tomate cerise" of "tomate", or a compound like "körsbärstomat" of "tomat".
+const isVarietyOf = (specific: string, general: string): boolean => {
+  if (specific.length <= general.length) return false;
+  if ([...DISTINCT_FOODS].some(food => specific.includes(food) && !general.includes(food))) return false;
+  const words = specific.split(' ');
+  const head = words[words.length - 1];
+  if (DERIVED_PRODUCTS.has(head) && !general.endsWith(head)) return false;
+  if (specific.endsWith(` ${general}`) || specific.startsWith(`${general} `)) return true;
+  return words.length === 1 && COMPOUND_HEADS.has(general) && specific.endsWith(general);
+};
+
+/** How confident we are that two ingredient names refer to the same thing, from 0 to 1. */
+export const ingredientMatchConfidence = (a: string, b: string): number => {
+  const normalizedA = normalizeIngredientName(a);
+  const normalizedB = normalizeIngredientName(b);
+  if (normalizedA === normalizedB) return 1;
+  if (isVarietyOf(normalizedA, normalizedB) || isVarietyOf(normalizedB, normalizedA)) return VARIETY_CONFIDENCE;
+  return 0;
+};
+
+/** The best match for `name` among `candidates`, or null if none is confident enough. */
+export const findIngredientMatch = <T extends { name: string }>(name: string, candidates: T[], minConfidence = MATCH_THRESHOLD): IngredientMatch<T> | null => {
+  let best: IngredientMatch<T> | null = null;
+  for (const item of candidates) {
+    const confidence = ingredientMatchConfidence(name, item.name);
+    if (confidence >= minConfidence && (!best || confidence > best.confidence)) {
+      best = { item, confidence };
+      if (confidence === 1) break;
+    }
+  }
+  return best;
+};
+
+export const findAvailableIngredient = <T extends { name: string }>(name: string, available: T[]): T | undefined =>
+  findIngredientMatch(name, available)?.item;
+
+const expandedStaples = new Map<string, Set<string>>();
+
+// Synonym groups in normalized form, built on first use.
+let normalizedStapleSynonyms: string[][] | undefined;
+
+// The user's staples plus the synonyms of any built-in ones, normalized.
+const expandStaples = (staples: string[]): Set<string> => {
+  const key = staples.join('\u0000');
+  let expanded = expandedStaples.get(key);
+  if (!expanded) {
+    normalizedStapleSynonyms ??= STAPLE_SYNONYMS.map(group => group.map(normalizeIngredientName));
+    expanded = new Set<string>();
+    for (const staple of staples) {
+      const normalized = normalizeIngredientName(staple);
+      const synonyms = normalizedStapleSynonyms.find(group => group.includes(normalized));
+      (synonyms ?? [normalized]).forEach(name => expanded!.add(name));
+    }
+    expandedStaples.set(key, expanded);
+  }
+  return expanded;
+};
+
+/** Whether an ingredient is one of the user's staples ("sea salt", "olive oil", "olivolja" for oil) they're assumed to have. */
+export const isPantryStaple = (name: string, staples: string[] = DEFAULT_PANTRY_STAPLES): boolean =>
+  expandStaples(staples).has(normalizeIngredientName(name));
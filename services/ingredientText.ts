@@ -0,0 +1,112 @@
+// ingredientText.ts
+// Reads typed or dictated ingredient lists such as "half a dozen eggs, 500g
+// minced beef, 2 cans of tomatoes". Phrases with a clear amount are parsed on
+// the device; vague ones ("some spinach", "leftover rice") are returned as
+// unparsed so the model can estimate an amount for them.
+import type { AvailableIngredient } from '../types';
+import { normalizeUnit } from './unitConversion';
+
+export interface ParsedIngredientText {
+  items: AvailableIngredient[];
+  // Phrases the local parser could not read an amount from, in input order.
+  unparsed: string[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+// Packaging matches the "other" units offered by IngredientEditor.
+const PACKAGE_UNITS: Record<string, string> = {
+  bottle: 'bottle', bottles: 'bottle',
+  can: 'can', cans: 'can', tin: 'can', tins: 'can',
+  container: 'container', containers: 'container', tub: 'container', tubs: 'container',
+  jar: 'jar', jars: 'jar',
+  package: 'package', packages: 'package', pack: 'package', packs: 'package', packet: 'package', packets: 'package', bag: 'package', bags: 'package',
+};
+
+/**
+ * Splits free text into one phrase per ingredient: on commas, semicolons, new
+ * lines and "and". A comma between digits is a decimal comma ("1,5 kg").
+ */
+export const splitIngredientText = (text: string): string[] =>
+  text
+    .split(/(?<!\d),|,(?!\d)|[;\n]+|\s+(?:and|&|plus)\s+/i)
+    .map(phrase => phrase.trim().replace(/[.!]+$/, ''))
+    .filter(phrase => phrase !== '');
+
+const parseNumber = (token: string): number | null => {
+  if (FRACTIONS[token] !== undefined) return FRACTIONS[token];
+  if (/^\d+([.,]\d+)?$/.test(token)) return parseFloat(token.replace(',', '.'));
+  const fraction = /^(\d+)\/(\d+)$/.exec(token);
+  if (fraction && +fraction[2] > 0) return +fraction[1] / +fraction[2];
+  return NUMBER_WORDS[token] ?? null;
+};
+
+/** Reads one phrase with an explicit amount, or returns null when the amount is vague or missing. */
+export const parseIngredientPhrase = (phrase: string): AvailableIngredient | null => {
+  // "500g" and "2x" are written without a space as often as with one.
+  const tokens = phrase.trim().replace(/(\d)([^\d\s./,])/g, '$1 $2').split(/\s+/);
+  const lower = tokens.map(token => token.toLowerCase());
+  let pos = 0;
+
+  let quantity: number;
+  if (lower[0] === 'half') {
+    quantity = 0.5;
+    pos = lower[1] === 'a' || lower[1] === 'an' ? 2 : 1;
+  } else if ((lower[0] === 'a' || lower[0] === 'an') && lower[1] === 'couple') {
+    quantity = 2;
+    pos = lower[2] === 'of' ? 3 : 2;
+  } else {
+    const number = parseNumber(lower[0]);
+    if (number === null) return null;
+    quantity = number;
+    pos = 1;
+    // "1 ½ cups", "2 1/2 kg"
+    const fraction = lower[pos] !== undefined ? parseNumber(lower[pos]) : null;
+    if (fraction !== null && fraction < 1) {
+      quantity += fraction;
+      pos++;
+    }
+  }
+  if (lower[pos] === 'x' || lower[pos] === '×') pos++;
+
+  let unit = 'unit';
+  if (lower[pos] === 'dozen') {
+    quantity *= 12;
+    pos++;
+  } else if (pos < tokens.length - 1) {
+    const twoWordUnit = lower[pos + 1] !== undefined ? normalizeUnit(`${lower[pos]} ${lower[pos + 1]}`) : null;
+    if (twoWordUnit && pos + 2 < tokens.length) {
+      unit = twoWordUnit;
+      pos += 2;
+    } else if (PACKAGE_UNITS[lower[pos]] || normalizeUnit(lower[pos])) {
+      unit = PACKAGE_UNITS[lower[pos]] ?? normalizeUnit(lower[pos])!;
+      pos++;
+    }
+  }
+  if (lower[pos] === 'of') pos++;
+
+  const name = tokens.slice(pos).join(' ').trim();
+  // "3 cups" on its own says how much, but not of what.
+  if (name === '' || quantity <= 0 || normalizeUnit(name) || PACKAGE_UNITS[name.toLowerCase()]) return null;
+  return { name, quantity: parseFloat(quantity.toFixed(2)), unit };
+};
+
+/** Parses what it can locally and hands back the rest. */
+export const parseIngredientText = (text: string): ParsedIngredientText => {
+  const items: AvailableIngredient[] = [];
+  const unparsed: string[] = [];
+  for (const phrase of splitIngredientText(text)) {
+    const item = parseIngredientPhrase(phrase);
+    if (item) {
+      items.push(item);
+    } else {
+      unparsed.push(phrase);
+    }
+  }
+  return { items, unparsed };
+};
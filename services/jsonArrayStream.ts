@@ -0,0 +1,75 @@
+// jsonArrayStream.ts
+// Incremental parser for a streamed top-level JSON array of objects. Text is
+// fed in arbitrary chunks and every object is handed back as soon as its
+// closing brace arrives, so the UI can render results before the array ends.
+
+export interface JsonArrayStreamParser<T> {
+  /** Feeds the next chunk of text and returns the objects it completed. */
+  push: (chunk: string) => T[];
+  /** Number of array elements that have started, including an incomplete one. */
+  getStartedCount: () => number;
+}
+
+export const createJsonArrayStreamParser = <T>(): JsonArrayStreamParser<T> => {
+  // 0 = outside the array, 1 = inside the array between elements, 2+ = inside an element.
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+  let started = 0;
+  let current = '';
+
+  const push = (chunk: string): T[] => {
+    const completed: T[] = [];
+    for (const char of chunk) {
+      if (finished) break;
+
+      if (inString) {
+        current += char;
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (depth === 0) {
+        if (char === '[') depth = 1;
+        continue;
+      }
+
+      if (char === '{' || char === '[') {
+        if (depth === 1) {
+          current = '';
+          started++;
+        }
+        depth++;
+        current += char;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          finished = true;
+        } else {
+          current += char;
+          if (depth === 1) {
+            try {
+              completed.push(JSON.parse(current));
+            } catch (e) {
+              console.warn("Skipping malformed element in streamed JSON array:", current);
+            }
+            current = '';
+          }
+        }
+      } else if (depth > 1) {
+        if (char === '"') inString = true;
+        current += char;
+      }
+    }
+    return completed;
+  };
+
+  return { push, getStartedCount: () => started };
+};
@@ -0,0 +1,66 @@
+// kitchenEquipment.ts
+// The kitchen equipment a recipe needs, and the equipment the user has said
+// they don't own (persisted in localStorage and sent to the model as a
+// constraint).
+import type { Equipment, Recipe } from '../types';
+
+const STORAGE_KEY = 'fridgeToFeast.unavailableEquipment.v1';
+
+export const EQUIPMENT: Equipment[] = ['oven', 'stovetop', 'microwave', 'blender', 'food-processor', 'mixer', 'grill', 'air-fryer', 'slow-cooker', 'pressure-cooker'];
+
+// For recipes without structured steps: words in the instructions that give the
+// equipment away, in the app's supported languages. Short words match whole words only.
+const EQUIPMENT_KEYWORDS: Record<Equipment, string[]> = {
+  oven: ['oven', 'bake', 'preheat', 'ugn', 'ugnen', 'ofen', 'backofen', 'au four', 'horno', 'forno', 'pećnica', 'pećnicu', '烤箱', 'فرن'],
+  stovetop: ['saucepan', 'skillet', 'frying pan', 'a pan', 'the pan', 'medium heat', 'low heat', 'high heat', 'simmer', 'boil', 'fry', 'poach', 'stekpanna', 'kastrull', 'pfanne', 'topf', 'poêle', 'sartén', 'olla', 'padella', 'pentola', 'tava', 'lonac', '锅', 'مقلاة', 'قدر'],
+  microwave: ['microwave', 'mikrovågsugn', 'mikrowelle', 'micro-ondes', 'microondas', 'microonde', 'mikrovalna', '微波炉', 'ميكروويف'],
+  blender: ['blender', 'blend', 'mixeur', 'licuadora', 'frullatore', 'stabmixer', 'stavmixer', '搅拌机', 'خلاط'],
+  'food-processor': ['food processor', 'matberedare', 'küchenmaschine', 'robot culinaire', 'procesador de alimentos', 'robot da cucina', 'multipraktik', '料理机', 'محضرة طعام'],
+  mixer: ['electric mixer', 'stand mixer', 'hand mixer', 'elvisp', 'handrührgerät', 'batteur électrique', 'batidora', 'sbattitore elettrico', 'mikser', '打蛋器', 'مضرب كهربائي'],
+  grill: ['grill', 'barbecue', 'griller', 'parrilla', 'griglia', 'roštilj', '烤架', 'شواية'],
+  'air-fryer': ['air fryer', 'airfryer', 'heißluftfritteuse', 'friteuse à air', 'freidora de aire', 'friggitrice ad aria', 'fritezu na vrući zrak', '空气炸锅', 'قلاية هوائية'],
+  'slow-cooker': ['slow cooker', 'crock-pot', 'långkokare', 'schongarer', 'mijoteuse', 'olla de cocción lenta', '慢炖锅', 'طباخ بطيء'],
+  'pressure-cooker': ['pressure cooker', 'instant pot', 'tryckkokare', 'schnellkochtopf', 'autocuiseur', 'olla a presión', 'pentola a pressione', 'ekspres lonac', '高压锅', 'طنجرة ضغط'],
+};
+
+// Short Latin-script keywords ("oven", "blend") must be whole words; longer ones
+// and other scripts may sit inside a compound ("Backofen") or an unspaced sentence.
+const matchesKeyword = (text: string, keyword: string) => {
+  if (keyword.length <= 5 && !/[^\p{Script=Latin}\s-]/u.test(keyword)) {
+    return text.split(/[^\p{L}-]+/u).some(word => word === keyword || word === `${keyword}s`);
+  }
+  return text.includes(keyword);
+};
+
+export const loadUnavailableEquipment = (): Equipment[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((item: string) => EQUIPMENT.includes(item as Equipment)) : [];
+  } catch (e) {
+    console.error("Failed to load kitchen equipment:", e);
+    return [];
+  }
+};
+
+export const saveUnavailableEquipment = (equipment: Equipment[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(equipment));
+  } catch (e) {
+    console.error("Failed to save kitchen equipment:", e);
+  }
+};
+
+/** Equipment the recipe's steps call for, or a keyword guess from the instructions for older recipes. */
+export const findRequiredEquipment = (recipe: Recipe): Equipment[] => {
+  if (recipe.steps) {
+    const used = new Set(recipe.steps.flatMap(step => step.equipment ?? []));
+    return EQUIPMENT.filter(item => used.has(item));
+  }
+  const text = recipe.instructions.join(' ').toLowerCase();
+  return EQUIPMENT.filter(item => EQUIPMENT_KEYWORDS[item].some(keyword => matchesKeyword(text, keyword)));
+};
+
+/** The equipment the recipe needs that the user doesn't have. */
+export const findMissingEquipment = (recipe: Recipe, unavailable: Equipment[]): Equipment[] =>
+  unavailable.length === 0 ? [] : findRequiredEquipment(recipe).filter(item => unavailable.includes(item));
@@ -0,0 +1,67 @@
+// localDb.ts
+// A small promise wrapper around the app's IndexedDB database. Stores holding
+// larger data (saved recipes with their images) live here rather than in
+// localStorage, which is limited to a few megabytes.
+
+const DB_NAME = 'fridgeToFeast';
+const DB_VERSION = 2;
+
+// Every object store in the database, keyed by its `id` property.
+export const STORES = {
+  recipeBook: 'recipeBook',
+  // Cached AI responses and their LRU bookkeeping, kept apart so eviction
+  // never has to load the (large) cached values themselves.
+  cacheData: 'cacheData',
+  cacheIndex: 'cacheIndex',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const dbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+
+export const dbGet = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', objectStore => objectStore.get(id));
+
+export const dbPut = async <T extends { id: string }>(store: StoreName, value: T): Promise<void> => {
+  await runRequest(store, 'readwrite', objectStore => objectStore.put(value));
+};
+
+export const dbDelete = async (store: StoreName, id: string): Promise<void> => {
+  await runRequest(store, 'readwrite', objectStore => objectStore.delete(id));
+};
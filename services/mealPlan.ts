@@ -0,0 +1,86 @@
+// mealPlan.ts
+// Pantry bookkeeping for a multi-day meal plan. Meals are cooked in calendar
+// order against one shared pantry, so two meals can't both count on the same
+// eggs, and whatever the pantry can't cover ends up on one shopping list.
+import type { AvailableIngredient, MealPlan, MealSlot, PlannedMeal, ShoppingListItem } from '../types';
+import { deductCookedRecipe } from './pantryStore';
+import { calculateShortfall, isUnmeasuredIngredientMissing } from './recipeAvailability';
+import { isPantryStaple } from './ingredientMatching';
+import { buildShoppingList } from './shoppingList';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+export const MAX_PLAN_DAYS = 7;
+
+// The current plan is kept in localStorage so a week's plan survives reloads.
+const STORAGE_KEY = 'fridgeToFeast.mealPlan.v1';
+
+export interface PlannedMealCoverage {
+  meal: PlannedMeal;
+  // Names of the ingredients the pantry no longer has enough of by the time this meal is cooked.
+  missing: string[];
+  isCooked: boolean;
+}
+
+export const sortPlannedMeals = (meals: PlannedMeal[]): PlannedMeal[] =>
+  [...meals].sort((a, b) => a.day - b.day || MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot));
+
+export const plannedMealKey = (meal: PlannedMeal) => `${meal.day}|${meal.slot}`;
+
+export const isMealCooked = (plan: MealPlan, meal: PlannedMeal): boolean =>
+  plan.cookedMeals?.includes(plannedMealKey(meal)) ?? false;
+
+export const markMealCooked = (plan: MealPlan, meal: PlannedMeal): MealPlan =>
+  isMealCooked(plan, meal) ? plan : { ...plan, cookedMeals: [...(plan.cookedMeals ?? []), plannedMealKey(meal)] };
+
+/**
+ * Walks the plan in order, deducting each meal from a running copy of the pantry.
+ * Meals already cooked have been deducted from the real pantry, so they are skipped.
+ */
+export const trackPlanConsumption = (plan: MealPlan, pantry: AvailableIngredient[], staples?: string[]): PlannedMealCoverage[] => {
+  const { servingsPerMeal } = plan.options;
+  let remaining = pantry.map(item => ({ ...item }));
+
+  return sortPlannedMeals(plan.meals).map(meal => {
+    if (isMealCooked(plan, meal)) return { meal, missing: [], isCooked: true };
+    const missing = meal.recipe.ingredients
+      .filter(ing => !isPantryStaple(ing.name, staples)
+        && (calculateShortfall(ing, servingsPerMeal, remaining) > 0 || isUnmeasuredIngredientMissing(ing, remaining)))
+      .map(ing => ing.name);
+    remaining = deductCookedRecipe(remaining, meal.recipe, servingsPerMeal, staples);
+    return { meal, missing, isCooked: false };
+  });
+};
+
+/** Everything the meals still to be cooked need beyond what's in the pantry. */
+export const buildPlanShoppingList = (plan: MealPlan, pantry: AvailableIngredient[], staples?: string[]): ShoppingListItem[] =>
+  buildShoppingList(
+    plan.meals
+      .filter(meal => !isMealCooked(plan, meal))
+      .map(meal => ({ recipe: meal.recipe, servingCount: plan.options.servingsPerMeal })),
+    pantry,
+    staples
+  );
+
+export const loadMealPlan = (): MealPlan | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return parsed && Array.isArray(parsed.meals) && parsed.options ? parsed : null;
+  } catch (e) {
+    console.error("Failed to load meal plan:", e);
+    return null;
+  }
+};
+
+export const saveMealPlan = (plan: MealPlan) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(plan));
+  } catch (e) {
+    console.error("Failed to save meal plan:", e);
+  }
+};
+
+export const clearMealPlan = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
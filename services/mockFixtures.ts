@@ -0,0 +1,161 @@
+import type { AvailableIngredient, Recipe } from '../types';
+
+// Fixture data for the offline mock provider. Recipe ingredients only use names
+// from MOCK_FRIDGE_INGREDIENTS (plus basic pantry staples) so they pass the
+// "only available ingredients" filter in App.tsx.
+
+// What the mock "reads" from any receipt photo; overlaps the fridge fixtures on purpose
+// so merging and deduplication can be tried out.
+export const MOCK_RECEIPT_ITEMS: AvailableIngredient[] = [
+  { name: 'eggs', quantity: 12, unit: 'unit' },
+  { name: 'milk', quantity: 1, unit: 'l' },
+  { name: 'pasta', quantity: 500, unit: 'g' },
+  { name: 'carrots', quantity: 1, unit: 'kg' },
+];
+
+export const MOCK_FRIDGE_INGREDIENTS: AvailableIngredient[] = [
+  { name: 'eggs', quantity: 6, unit: 'unit' },
+  { name: 'milk', quantity: 1, unit: 'l' },
+  { name: 'cheddar cheese', quantity: 200, unit: 'g' },
+  { name: 'spinach', quantity: 150, unit: 'g' },
+  { name: 'tomatoes', quantity: 4, unit: 'unit' },
+  { name: 'onion', quantity: 2, unit: 'unit' },
+  { name: 'butter', quantity: 250, unit: 'g' },
+  { name: 'chicken breast', quantity: 400, unit: 'g' },
+  { name: 'rice', quantity: 500, unit: 'g' },
+  { name: 'cucumber', quantity: 1, unit: 'unit' },
+  { name: 'yogurt', quantity: 500, unit: 'g' },
+];
+
+export const MOCK_RECIPES: Recipe[] = [
+  {
+    recipeName: 'Spinach & Cheddar Omelette',
+    description: 'A fluffy omelette folded around wilted spinach and melted cheddar.',
+    calories: 420,
+    nutrition: { protein: 27, carbohydrates: 3, fat: 33, fiber: 1, sugar: 2, sodium: 520 },
+    ingredients: [
+      { name: 'eggs', quantity: 3, unit: 'unit' },
+      { name: 'spinach', quantity: 40, unit: 'g' },
+      { name: 'cheddar cheese', quantity: 30, unit: 'g' },
+      { name: 'butter', quantity: 10, unit: 'g' },
+      { name: 'salt', quantity: 1, unit: 'pinch' },
+    ],
+    instructions: [
+      'Whisk the eggs with a pinch of salt.',
+      'Melt the butter in a non-stick pan over medium heat.',
+      'Add the spinach and stir until wilted, about 1 minute.',
+      'Pour in the eggs and cook for 2 minutes until just set.',
+      'Sprinkle over the cheddar, fold the omelette in half and serve.',
+    ],
+  },
+  {
+    recipeName: 'Tomato & Cucumber Yogurt Salad',
+    description: 'A cooling salad of juicy tomatoes and crisp cucumber in a tangy yogurt dressing.',
+    calories: 180,
+    nutrition: { protein: 7, carbohydrates: 15, fat: 10, fiber: 2, sugar: 11, sodium: 330 },
+    ingredients: [
+      { name: 'tomatoes', quantity: 1, unit: 'unit' },
+      { name: 'cucumber', quantity: 0.5, unit: 'unit' },
+      { name: 'yogurt', quantity: 100, unit: 'g' },
+      { name: 'onion', quantity: 0.25, unit: 'unit' },
+      { name: 'salt', quantity: 1, unit: 'pinch' },
+    ],
+    instructions: [
+      'Dice the tomato and cucumber into bite-sized pieces.',
+      'Finely slice the onion.',
+      'Season the yogurt with a pinch of salt.',
+      'Toss the vegetables with the yogurt and serve chilled.',
+    ],
+  },
+  {
+    recipeName: 'Buttery Chicken Rice',
+    description: 'Golden pan-fried chicken served over rice cooked with onion and butter.',
+    calories: 610,
+    nutrition: { protein: 40, carbohydrates: 64, fat: 19, fiber: 2, sugar: 3, sodium: 620 },
+    ingredients: [
+      { name: 'chicken breast', quantity: 150, unit: 'g' },
+      { name: 'rice', quantity: 80, unit: 'g' },
+      { name: 'onion', quantity: 0.5, unit: 'unit' },
+      { name: 'butter', quantity: 15, unit: 'g' },
+      { name: 'salt', quantity: 1, unit: 'pinch' },
+      { name: 'pepper', quantity: 1, unit: 'pinch' },
+    ],
+    instructions: [
+      'Rinse the rice and cook it in salted water for 15 minutes, then drain.',
+      'Dice the onion and soften it in half of the butter for 5 minutes.',
+      'Season the chicken with salt and pepper and fry it in the remaining butter for 6 minutes per side.',
+      'Stir the onion through the rice, slice the chicken and serve on top.',
+    ],
+    steps: [
+      { text: 'Rinse the rice and cook it in salted water for 15 minutes, then drain.', durationMinutes: 15, isPassive: true, equipment: ['stovetop'], ingredients: ['rice', 'salt'] },
+      { text: 'Dice the onion and soften it in half of the butter for 5 minutes.', durationMinutes: 5, equipment: ['stovetop'], ingredients: ['onion', 'butter'] },
+      { text: 'Season the chicken with salt and pepper and fry it in the remaining butter for 6 minutes per side.', durationMinutes: 12, equipment: ['stovetop'], ingredients: ['chicken breast', 'salt', 'pepper', 'butter'] },
+      { text: 'Stir the onion through the rice, slice the chicken and serve on top.', durationMinutes: 2, ingredients: ['onion', 'rice', 'chicken breast'] },
+    ],
+  },
+  {
+    recipeName: 'Creamy Tomato Rice Soup',
+    description: 'A comforting soup of tomatoes, onion and rice, enriched with a splash of milk.',
+    calories: 350,
+    nutrition: { protein: 9, carbohydrates: 48, fat: 13, fiber: 4, sugar: 12, sodium: 480 },
+    ingredients: [
+      { name: 'tomatoes', quantity: 2, unit: 'unit' },
+      { name: 'onion', quantity: 0.5, unit: 'unit' },
+      { name: 'rice', quantity: 40, unit: 'g' },
+      { name: 'milk', quantity: 100, unit: 'ml' },
+      { name: 'butter', quantity: 10, unit: 'g' },
+      { name: 'water', quantity: 300, unit: 'ml' },
+      { name: 'salt', quantity: 1, unit: 'pinch' },
+    ],
+    instructions: [
+      'Chop the onion and tomatoes.',
+      'Soften the onion in the butter for 5 minutes.',
+      'Add the tomatoes, rice and water and simmer for 20 minutes.',
+      'Stir in the milk, season with salt and serve hot.',
+    ],
+    steps: [
+      { text: 'Chop the onion and tomatoes.', durationMinutes: 5, ingredients: ['onion', 'tomatoes'] },
+      { text: 'Soften the onion in the butter for 5 minutes.', durationMinutes: 5, equipment: ['stovetop'], ingredients: ['onion', 'butter'] },
+      { text: 'Add the tomatoes, rice and water and simmer for 20 minutes.', durationMinutes: 20, isPassive: true, equipment: ['stovetop'], ingredients: ['tomatoes', 'rice', 'water'] },
+      { text: 'Stir in the milk, season with salt and serve hot.', durationMinutes: 2, ingredients: ['milk', 'salt'] },
+    ],
+  },
+  {
+    recipeName: 'Cheesy Spinach Scramble',
+    description: 'Soft scrambled eggs with spinach and a generous handful of cheddar.',
+    calories: 390,
+    nutrition: { protein: 22, carbohydrates: 3, fat: 31, fiber: 1, sugar: 2, sodium: 430 },
+    ingredients: [
+      { name: 'eggs', quantity: 2, unit: 'unit' },
+      { name: 'spinach', quantity: 30, unit: 'g' },
+      { name: 'cheddar cheese', quantity: 25, unit: 'g' },
+      { name: 'milk', quantity: 30, unit: 'ml' },
+      { name: 'butter', quantity: 10, unit: 'g' },
+    ],
+    instructions: [
+      'Whisk the eggs with the milk.',
+      'Melt the butter in a pan over low heat and add the spinach.',
+      'Pour in the eggs and stir gently for 3 minutes until softly set.',
+      'Fold through the cheddar and serve immediately.',
+    ],
+  },
+  {
+    recipeName: 'Chilled Chicken & Yogurt Bowl',
+    description: 'Cold sliced chicken over rice with cucumber and a yogurt drizzle.',
+    calories: 520,
+    nutrition: { protein: 37, carbohydrates: 60, fat: 12, fiber: 2, sugar: 5, sodium: 560 },
+    ingredients: [
+      { name: 'chicken breast', quantity: 120, unit: 'g' },
+      { name: 'rice', quantity: 70, unit: 'g' },
+      { name: 'cucumber', quantity: 0.5, unit: 'unit' },
+      { name: 'yogurt', quantity: 60, unit: 'g' },
+      { name: 'salt', quantity: 1, unit: 'pinch' },
+    ],
+    instructions: [
+      'Cook the rice for 15 minutes, drain and let it cool.',
+      'Poach the chicken in simmering salted water for 12 minutes, then cool and slice.',
+      'Slice the cucumber.',
+      'Arrange rice, chicken and cucumber in a bowl and drizzle with yogurt.',
+    ],
+  },
+];
@@ -0,0 +1,178 @@
+import type { AvailableIngredient, MealPlanOptions, MealType, PlannedMeal, Recipe, RecipeConstraints } from '../types';
+import type { RecipeAIProvider, RecipeStreamHandlers } from './aiProvider';
+import { MOCK_FRIDGE_INGREDIENTS, MOCK_RECEIPT_ITEMS, MOCK_RECIPES } from './mockFixtures';
+import { findFlaggedAllergens } from './dietaryProfile';
+import { findMissingEquipment } from './kitchenEquipment';
+import { findAvailableIngredient, isPantryStaple } from './ingredientMatching';
+import { calculateMaxServings } from './recipeAvailability';
+import { deductCookedRecipe } from './pantryStore';
+import { parseIngredientPhrase, splitIngredientText } from './ingredientText';
+import { EmptyResultError } from './aiErrors';
+
+// A deterministic, offline stand-in for the Gemini provider. Same inputs always
+// give the same outputs, so the whole App flow can be developed and demoed
+// without an API key or network access.
+
+const MOCK_LATENCY_MS = 400;
+
+const simulateLatency = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+const hashString = (str: string): number => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash * 31 + str.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (str: string) =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const copyRecipe = (recipe: Recipe): Recipe => ({
+  ...recipe,
+  ingredients: recipe.ingredients.map(ing => ({ ...ing })),
+  instructions: [...recipe.instructions],
+  ...(recipe.steps && { steps: recipe.steps.map(step => ({ ...step })) }),
+});
+
+const analyzeFridgeContents = async (imageFiles: File[]): Promise<AvailableIngredient[]> => {
+  await simulateLatency();
+  if (imageFiles.length === 0) return [];
+  // Lay the fixtures out on a grid over the photos, one in five flagged as uncertain.
+  return MOCK_FRIDGE_INGREDIENTS.map((ing, index) => {
+    const cell = Math.floor(index / imageFiles.length);
+    const top = 20 + (Math.floor(cell / 3) % 4) * 245;
+    const left = 20 + (cell % 3) * 330;
+    return {
+      ...ing,
+      detection: {
+        imageIndex: index % imageFiles.length,
+        box: [top, left, top + 225, left + 300] as [number, number, number, number],
+        confidence: index % 5 === 4 ? 0.45 : 0.9,
+      },
+    };
+  });
+};
+
+const analyzeReceipt = async (imageFiles: File[]): Promise<AvailableIngredient[]> => {
+  await simulateLatency();
+  if (imageFiles.length === 0) return [];
+  return MOCK_RECEIPT_ITEMS.map(item => ({ ...item }));
+};
+
+// Reads what the local parser can and counts anything vague as a single item.
+const extractIngredientsFromText = async (text: string, _language: string): Promise<AvailableIngredient[]> => {
+  await simulateLatency();
+  return splitIngredientText(text).map(phrase =>
+    parseIngredientPhrase(phrase) ?? { name: phrase.replace(/^(some|a bit of|a little|leftover)\s+/i, ''), quantity: 1, unit: 'unit' }
+  );
+};
+
+const generateMultipleRecipes = async (
+  ingredients: AvailableIngredient[],
+  _language: string,
+  _creativity: number,
+  existingRecipes: Recipe[] = [],
+  _mealType: MealType,
+  constraints: RecipeConstraints = {},
+  handlers: RecipeStreamHandlers = {}
+): Promise<Recipe[]> => {
+  await simulateLatency();
+  const existingNames = new Set(existingRecipes.map(r => r.recipeName));
+
+  const profile = constraints.dietaryProfile;
+  const candidates = MOCK_RECIPES.filter(recipe =>
+    !existingNames.has(recipe.recipeName) && !(profile && findFlaggedAllergens(recipe, profile).length > 0)
+    && findMissingEquipment(recipe, constraints.unavailableEquipment ?? []).length === 0
+  );
+  // Only offer fixtures whose non-staple ingredients are all in the user's list.
+  const makeable = candidates.filter(recipe =>
+    recipe.ingredients.every(ing => isPantryStaple(ing.name, constraints.pantryStaples) || findAvailableIngredient(ing.name, ingredients))
+  );
+
+  const results = makeable.slice(0, 2).map(copyRecipe);
+
+  // Mimic the streaming provider: one recipe at a time, each after its own delay.
+  for (let i = 0; i < results.length; i++) {
+    handlers.onProgress?.({ started: i + 1, completed: i });
+    await simulateLatency();
+    handlers.onRecipe?.(results[i], i);
+  }
+  handlers.onProgress?.({ started: results.length, completed: results.length });
+  return results;
+};
+
+const generateMealPlan = async (
+  ingredients: AvailableIngredient[],
+  _language: string,
+  options: MealPlanOptions,
+  constraints: RecipeConstraints = {}
+): Promise<PlannedMeal[]> => {
+  await simulateLatency();
+  const profile = constraints.dietaryProfile;
+  const candidates = MOCK_RECIPES.filter(recipe =>
+    !(profile && findFlaggedAllergens(recipe, profile).length > 0)
+    && findMissingEquipment(recipe, constraints.unavailableEquipment ?? []).length === 0
+  );
+  if (candidates.length === 0) return [];
+
+  // Fill slots in order, preferring a fixture the remaining pantry can still cover.
+  let remaining = ingredients.map(ing => ({ ...ing }));
+  const used = new Set<string>();
+  const meals: PlannedMeal[] = [];
+  for (let day = 1; day <= options.days; day++) {
+    for (const slot of options.slots) {
+      const fresh = candidates.filter(recipe => !used.has(recipe.recipeName));
+      const pool = fresh.length > 0 ? fresh : candidates;
+      const recipe = pool.find(r => calculateMaxServings(r, remaining, constraints.pantryStaples) >= options.servingsPerMeal)
+        ?? pool[meals.length % pool.length];
+      used.add(recipe.recipeName);
+      remaining = deductCookedRecipe(remaining, recipe, options.servingsPerMeal, constraints.pantryStaples);
+      meals.push({ day, slot, recipe: copyRecipe(recipe) });
+    }
+  }
+  return meals;
+};
+
+const generateMealImage = async (recipeName: string, description: string): Promise<string> => {
+  await simulateLatency();
+  const hue = hashString(recipeName + description) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">
+  <rect width="800" height="600" fill="hsl(${hue}, 45%, 85%)"/>
+  <circle cx="400" cy="280" r="170" fill="#ffffff"/>
+  <circle cx="400" cy="280" r="120" fill="hsl(${hue}, 55%, 60%)"/>
+  <text x="400" y="530" font-family="Poppins, sans-serif" font-size="32" text-anchor="middle" fill="#2d2d2d">${escapeXml(recipeName)}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// The mock has no translation model; names are returned unchanged.
+const translateIngredientList = async (ingredients: AvailableIngredient[], _targetLanguage: string): Promise<AvailableIngredient[]> => {
+  return ingredients;
+};
+
+// The first line is the name; lines with an amount are ingredients and the rest is the method.
+const parseRecipeText = async (text: string, _language: string): Promise<Recipe[]> => {
+  await simulateLatency();
+  const [name = '', ...lines] = text.split('\n').map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s*/, '')).filter(Boolean);
+  const ingredients = lines.map(parseIngredientPhrase).filter((ing): ing is AvailableIngredient => ing !== null);
+  const instructions = lines.filter(line => parseIngredientPhrase(line) === null && !/^(?:ingredients|instructions|method)\s*:?$/i.test(line));
+  if (ingredients.length === 0 || instructions.length === 0) {
+    throw new EmptyResultError("Could not find a recipe in the text.");
+  }
+  return [{ recipeName: name, description: '', ingredients, instructions }];
+};
+
+export const mockProvider: RecipeAIProvider = {
+  name: 'mock',
+  models: { recipes: 'mock', images: 'mock-svg' },
+  promptVersion: 1,
+  analyzeFridgeContents,
+  analyzeReceipt,
+  extractIngredientsFromText,
+  generateMultipleRecipes,
+  generateMealPlan,
+  generateMealImage,
+  translateIngredientList,
+  parseRecipeText,
+};
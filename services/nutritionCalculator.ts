@@ -0,0 +1,119 @@
+// nutritionCalculator.ts
+// Derives per-serving nutrition from a recipe's ingredient list using the
+// bundled nutrient table, as a cross-check on the model's own estimate.
+import type { NutritionInfo, Recipe } from '../types';
+import { FOODS, type FoodEntry } from './nutritionDatabase';
+import { convertQuantity, getUnitDimension } from './unitConversion';
+
+export interface NutritionEstimate {
+  calories: number;
+  nutrition: NutritionInfo;
+  // Ingredients we could both look up and weigh, out of all non-water ingredients.
+  matchedCount: number;
+  totalCount: number;
+  unmatched: string[];
+}
+
+// Above this relative difference the model's calorie estimate is flagged as doubtful.
+const DISAGREEMENT_THRESHOLD = 0.25;
+// ...but small absolute gaps (a 60 vs 90 kcal side salad) are not worth flagging.
+const DISAGREEMENT_MIN_KCAL = 75;
+
+const isCjk = (text: string) => /[㐀-鿿]/.test(text);
+
+const matchesAlias = (name: string, words: string[], alias: string): boolean => {
+  if (alias.includes(' ') || isCjk(alias)) {
+    return name.includes(alias);
+  }
+  if (alias.length <= 3) {
+    // Short names ("ei", "sal", "med") only match whole words to avoid false hits.
+    return words.some(word => word === alias || word === `${alias}s`);
+  }
+  return words.some(word =>
+    // Plurals and inflections ("tomatoes", "tomaten"), or the head of a compound ("vetemjöl").
+    (word.startsWith(alias) && word.length - alias.length <= 3) || word.endsWith(alias)
+  );
+};
+
+/** Finds the food entry whose longest alias matches the ingredient name. */
+export const findFood = (ingredientName: string): FoodEntry | null => {
+  const name = ingredientName.toLowerCase();
+  const words = name.split(/[^\p{L}]+/u).filter(Boolean);
+  let best: FoodEntry | null = null;
+  let bestLength = 0;
+  for (const entry of FOODS) {
+    for (const alias of entry.names) {
+      if (alias.length > bestLength && matchesAlias(name, words, alias)) {
+        best = entry;
+        bestLength = alias.length;
+      }
+    }
+  }
+  return best;
+};
+
+/** Weight in grams of an ingredient quantity, or null if it can't be determined. */
+const toGrams = (quantity: number, unit: string, ingredientName: string, entry: FoodEntry): number | null => {
+  const grams = convertQuantity(quantity, unit, 'g', ingredientName);
+  if (grams !== null) return grams;
+  if (getUnitDimension(unit) === 'count' && entry.unitWeight) {
+    const pieces = convertQuantity(quantity, unit, 'unit');
+    return pieces !== null ? pieces * entry.unitWeight : null;
+  }
+  return null;
+};
+
+export const calculateRecipeNutrition = (recipe: Recipe): NutritionEstimate => {
+  const totals = { kcal: 0, protein: 0, carbohydrates: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 };
+  const unmatched: string[] = [];
+  let matchedCount = 0;
+  let totalCount = 0;
+
+  for (const ing of recipe.ingredients) {
+    const entry = findFood(ing.name);
+    // Water has no nutrients; counting it would only inflate the coverage.
+    if (entry && entry.names[0] === 'water') continue;
+    totalCount++;
+
+    const grams = entry ? toGrams(ing.quantity, ing.unit, ing.name, entry) : null;
+    if (!entry || grams === null) {
+      unmatched.push(ing.name);
+      continue;
+    }
+
+    matchedCount++;
+    const factor = grams / 100;
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+      totals[key] += entry.per100g[key] * factor;
+    }
+  }
+
+  const round = (value: number) => parseFloat(value.toFixed(1));
+  return {
+    calories: Math.round(totals.kcal),
+    nutrition: {
+      protein: round(totals.protein),
+      carbohydrates: round(totals.carbohydrates),
+      fat: round(totals.fat),
+      fiber: round(totals.fiber),
+      sugar: round(totals.sugar),
+      sodium: Math.round(totals.sodium),
+    },
+    matchedCount,
+    totalCount,
+    unmatched,
+  };
+};
+
+/**
+ * Relative difference between the model's calorie estimate and ours, or null
+ * when the gap is too small to matter or we couldn't weigh every ingredient.
+ */
+export const getCalorieDisagreement = (modelCalories: number | undefined, estimate: NutritionEstimate): number | null => {
+  if (!modelCalories || estimate.matchedCount < estimate.totalCount || estimate.calories === 0) {
+    return null;
+  }
+  const difference = Math.abs(modelCalories - estimate.calories);
+  const relative = difference / Math.max(modelCalories, estimate.calories);
+  return relative > DISAGREEMENT_THRESHOLD && difference > DISAGREEMENT_MIN_KCAL ? relative : null;
+};
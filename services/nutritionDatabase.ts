@@ -0,0 +1,102 @@
+// nutritionDatabase.ts
+// A small bundled nutrient table for common foods, so recipe nutrition can be
+// computed offline instead of trusting the model's estimate. Values are per
+// 100 g of the raw/uncooked food (sodium in mg, everything else in g and kcal),
+// rounded from standard food composition tables.
+
+export interface NutrientValues {
+  kcal: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+export interface FoodEntry {
+  // Lower-case names in the app's supported languages. The first one is canonical.
+  names: string[];
+  per100g: NutrientValues;
+  // Typical weight in grams of one piece, for recipes that count items ("2 eggs").
+  unitWeight?: number;
+}
+
+const food = (names: string[], [kcal, protein, carbohydrates, fat, fiber, sugar, sodium]: number[], unitWeight?: number): FoodEntry => ({
+  names,
+  per100g: { kcal, protein, carbohydrates, fat, fiber, sugar, sodium },
+  unitWeight,
+});
+
+//                                                                kcal  prot  carb   fat  fiber sugar sodium  piece (g)
+export const FOODS: FoodEntry[] = [
+  // Dairy & eggs
+  food(['egg', 'ägg', 'ei', 'eier', 'œuf', 'oeuf', 'huevo', 'uovo', 'uova', 'jaje', 'jaja', '鸡蛋', 'بيض'], [143, 12.6, 0.7, 9.5, 0, 0.4, 142], 50),
+  food(['milk', 'mjölk', 'milch', 'lait', 'leche', 'latte', 'mlijeko', '牛奶', 'حليب'], [61, 3.2, 4.8, 3.3, 0, 5.1, 43]),
+  food(['butter', 'smör', 'beurre', 'mantequilla', 'burro', 'maslac', '黄油', 'زبدة'], [717, 0.9, 0.1, 81, 0, 0.1, 11]),
+  food(['cheddar', 'cheese', 'ost', 'käse', 'fromage', 'queso', 'formaggio', 'sir', '奶酪', 'جبن'], [403, 25, 1.3, 33, 0, 0.5, 621]),
+  food(['mozzarella'], [280, 28, 3.1, 17, 0, 1, 627]),
+  food(['parmesan', 'parmigiano'], [431, 38, 4.1, 29, 0, 0.9, 1529]),
+  food(['feta'], [264, 14, 4, 21, 0, 4, 917]),
+  food(['cream cheese', 'färskost', 'frischkäse'], [342, 6, 4, 34, 0, 3, 321]),
+  food(['yogurt', 'yoghurt', 'joghurt', 'yaourt', 'yogur', 'jogurt', '酸奶', 'زبادي'], [61, 3.5, 4.7, 3.3, 0, 4.7, 46]),
+  food(['sour cream', 'gräddfil', 'crème fraîche', 'creme fraiche'], [193, 2.4, 4.6, 19, 0, 3.5, 31]),
+  food(['cream', 'grädde', 'sahne', 'crème', 'nata', 'panna', 'vrhnje', '奶油'], [340, 2.8, 2.7, 36, 0, 2.9, 27]),
+  // Meat & fish
+  food(['chicken breast', 'kycklingbröst', 'hähnchenbrust', 'blanc de poulet', 'pechuga de pollo', 'petto di pollo', 'pileća prsa', '鸡胸肉'], [120, 22.5, 0, 2.6, 0, 0, 45], 170),
+  food(['chicken', 'kyckling', 'hähnchen', 'poulet', 'pollo', 'piletina', '鸡肉', 'دجاج'], [177, 19.7, 0, 10.9, 0, 0, 84]),
+  food(['minced beef', 'ground beef', 'beef', 'nötfärs', 'nötkött', 'rindfleisch', 'hackfleisch', 'bœuf', 'boeuf', 'carne picada', 'ternera', 'manzo', 'govedina', '牛肉', 'لحم بقري'], [254, 17.2, 0, 20, 0, 0, 66]),
+  food(['pork', 'fläsk', 'schwein', 'porc', 'cerdo', 'maiale', 'svinjetina', '猪肉'], [242, 27, 0, 14, 0, 0, 62]),
+  food(['bacon', 'pancetta', 'speck', 'lardons', 'beicon', 'slanina', '培根'], [417, 13, 1.4, 40, 0, 0, 833], 15),
+  food(['ham', 'skinka', 'schinken', 'jambon', 'jamón', 'prosciutto', 'šunka', '火腿'], [145, 21, 1.5, 6, 0, 0, 1200], 20),
+  food(['sausage', 'korv', 'wurst', 'saucisse', 'salchicha', 'salsiccia', 'kobasica', '香肠'], [301, 12, 2, 27, 0, 1, 800], 75),
+  food(['salmon', 'lax', 'lachs', 'saumon', 'salmón', 'salmone', 'losos', '三文鱼'], [208, 20, 0, 13, 0, 0, 59]),
+  food(['tuna', 'tonfisk', 'thunfisch', 'thon', 'atún', 'tonno', '金枪鱼'], [116, 26, 0, 0.8, 0, 0, 247]),
+  food(['shrimp', 'prawn', 'räkor', 'garnelen', 'crevettes', 'gambas', 'gamberi', 'škampi', '虾'], [99, 24, 0.2, 0.3, 0, 0, 111]),
+  food(['tofu', '豆腐'], [76, 8, 1.9, 4.8, 0.3, 0.6, 7]),
+  // Grains, legumes & starches
+  food(['rice', 'ris', 'reis', 'riz', 'arroz', 'riso', 'riža', '米饭', '大米', 'أرز'], [365, 7.1, 80, 0.7, 1.3, 0.1, 5]),
+  food(['pasta', 'spaghetti', 'penne', 'macaroni', 'nudeln', 'pâtes', 'tjestenina', '意大利面'], [371, 13, 75, 1.5, 3.2, 2.7, 6]),
+  food(['flour', 'mjöl', 'mehl', 'farine', 'harina', 'farina', 'brašno', '面粉', 'دقيق'], [364, 10, 76, 1, 2.7, 0.3, 2]),
+  food(['bread', 'bröd', 'brot', 'pain', 'pan', 'pane', 'kruh', '面包', 'خبز'], [265, 9, 49, 3.2, 2.7, 5, 491], 30),
+  food(['oats', 'havregryn', 'haferflocken', 'flocons d\'avoine', 'avena', 'zobene pahuljice', '燕麦'], [389, 17, 66, 7, 10.6, 0, 2]),
+  food(['potato', 'potatis', 'kartoffel', 'pomme de terre', 'patata', 'krumpir', '土豆', 'بطاطس'], [77, 2, 17, 0.1, 2.2, 0.8, 6], 170),
+  food(['sweet potato', 'sötpotatis', 'süßkartoffel', 'patate douce', 'batata', 'batat', '红薯'], [86, 1.6, 20, 0.1, 3, 4.2, 55], 130),
+  food(['chickpea', 'kikärt', 'kichererbse', 'pois chiche', 'garbanzo', 'ceci', 'slanutak', '鹰嘴豆'], [164, 8.9, 27, 2.6, 7.6, 4.8, 7]),
+  food(['lentil', 'lins', 'linsen', 'lentille', 'lenteja', 'lenticchie', 'leća', '扁豆'], [352, 24.6, 63, 1.1, 10.7, 2, 6]),
+  food(['beans', 'bönor', 'bohnen', 'haricots', 'frijoles', 'fagioli', 'grah', '豆'], [127, 8.7, 22.8, 0.5, 6.4, 0.3, 2]),
+  // Vegetables
+  food(['onion', 'lök', 'zwiebel', 'oignon', 'cebolla', 'cipolla', 'luk', '洋葱', 'بصل'], [40, 1.1, 9.3, 0.1, 1.7, 4.2, 4], 110),
+  food(['garlic', 'vitlök', 'knoblauch', 'ail', 'ajo', 'aglio', 'češnjak', '大蒜', 'ثوم'], [149, 6.4, 33, 0.5, 2.1, 1, 17], 5),
+  food(['cherry tomato', 'körsbärstomat', 'kirschtomate', 'tomate cerise', 'tomate cherry', 'pomodorino', 'cherry rajčica', '圣女果'], [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5], 17),
+  food(['tomato', 'tomat', 'tomate', 'pomodor', 'rajčica', '番茄', 'طماطم'], [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5], 120),
+  food(['passata', 'crushed tomatoes', 'tomato sauce', 'krossade tomater', 'tomatensauce', 'sauce tomate', 'salsa de tomate', 'passata di pomodoro'], [24, 1.3, 5, 0.2, 1.5, 3.6, 10]),
+  food(['cucumber', 'gurka', 'gurke', 'concombre', 'pepino', 'cetriolo', 'krastavac', '黄瓜', 'خيار'], [15, 0.7, 3.6, 0.1, 0.5, 1.7, 2], 300),
+  food(['carrot', 'morot', 'morötter', 'karotte', 'möhre', 'carotte', 'zanahoria', 'carota', 'mrkva', '胡萝卜', 'جزر'], [41, 0.9, 9.6, 0.2, 2.8, 4.7, 69], 60),
+  food(['bell pepper', 'paprika', 'poivron', 'pimiento', 'peperone', '甜椒'], [31, 1, 6, 0.3, 2.1, 4.2, 4], 150),
+  food(['spinach', 'spenat', 'spinat', 'épinard', 'espinaca', 'spinaci', 'špinat', '菠菜', 'سبانخ'], [23, 2.9, 3.6, 0.4, 2.2, 0.4, 79]),
+  food(['lettuce', 'sallad', 'salat', 'laitue', 'lechuga', 'lattuga', 'zelena salata', '生菜'], [15, 1.4, 2.9, 0.2, 1.3, 0.8, 28], 300),
+  food(['broccoli', 'brokkoli', 'brocoli', 'brócoli', 'brokula', '西兰花'], [34, 2.8, 6.6, 0.4, 2.6, 1.7, 33], 300),
+  food(['cabbage', 'kål', 'kohl', 'chou', 'repollo', 'cavolo', 'kupus', '卷心菜'], [25, 1.3, 5.8, 0.1, 2.5, 3.2, 18], 900),
+  food(['mushroom', 'svamp', 'champinjon', 'pilz', 'champignon', 'champiñón', 'seta', 'fungh', 'gljiv', '蘑菇'], [22, 3.1, 3.3, 0.3, 1, 2, 5], 18),
+  food(['zucchini', 'courgette', 'squash', 'calabacín', 'tikvica', '西葫芦'], [17, 1.2, 3.1, 0.3, 1, 2.5, 8], 200),
+  food(['corn', 'majs', 'mais', 'maïs', 'maíz', 'kukuruz', '玉米'], [86, 3.3, 19, 1.4, 2, 6.3, 15]),
+  food(['peas', 'ärtor', 'erbsen', 'petits pois', 'guisantes', 'piselli', 'grašak', '豌豆'], [81, 5.4, 14, 0.4, 5.7, 5.7, 5]),
+  food(['ginger', 'ingefära', 'ingwer', 'gingembre', 'jengibre', 'zenzero', 'đumbir', '姜'], [80, 1.8, 18, 0.8, 2, 1.7, 13]),
+  food(['avocado', 'avokado', 'avocat', 'aguacate', '牛油果'], [160, 2, 8.5, 14.7, 6.7, 0.7, 7], 150),
+  // Fruit
+  food(['apple', 'äpple', 'apfel', 'pomme', 'manzana', 'mela', 'jabuka', '苹果', 'تفاح'], [52, 0.3, 14, 0.2, 2.4, 10, 1], 180),
+  food(['banana', 'banan', 'banane', 'plátano', '香蕉', 'موز'], [89, 1.1, 23, 0.3, 2.6, 12, 1], 120),
+  food(['lemon', 'citron', 'zitrone', 'limón', 'limone', 'limun', '柠檬', 'ليمون'], [29, 1.1, 9.3, 0.3, 2.8, 2.5, 2], 85),
+  // Nuts
+  food(['peanut butter', 'jordnötssmör', 'erdnussbutter', 'beurre de cacahuète', 'mantequilla de cacahuete', 'burro di arachidi'], [588, 25, 20, 50, 6, 9, 17]),
+  food(['almond', 'mandel', 'amande', 'almendra', 'mandorl', 'badem', '杏仁'], [579, 21, 22, 50, 12.5, 4.4, 1]),
+  // Pantry
+  food(['olive oil', 'oil', 'olja', 'öl', 'huile', 'aceite', 'olio', 'ulje', '油', 'زيت'], [884, 0, 0, 100, 0, 0, 2]),
+  food(['sugar', 'socker', 'zucker', 'sucre', 'azúcar', 'zucchero', 'šećer', '糖', 'سكر'], [387, 0, 100, 0, 0, 100, 1]),
+  food(['honey', 'honung', 'honig', 'miel', 'miele', 'med', '蜂蜜', 'عسل'], [304, 0.3, 82, 0, 0.2, 82, 4]),
+  food(['salt', 'salz', 'sel', 'sal', 'sale', 'sol', '盐', 'ملح'], [0, 0, 0, 0, 0, 0, 38758]),
+  food(['black pepper', 'pepper', 'peppar', 'pfeffer', 'poivre', 'pimienta', 'pepe', 'papar', '胡椒'], [251, 10, 64, 3.3, 25, 0.6, 20]),
+  food(['soy sauce', 'sojasås', 'sojasauce', 'sauce soja', 'salsa de soja', 'salsa di soia', 'umak od soje', '酱油'], [53, 8, 4.9, 0.6, 0.8, 0.4, 5493]),
+  food(['water', 'vatten', 'wasser', 'eau', 'agua', 'acqua', 'voda', '水', 'ماء'], [0, 0, 0, 0, 0, 0, 0]),
+];
@@ -0,0 +1,143 @@
+import type { AvailableIngredient, Recipe } from '../types';
+import { DEFAULT_PANTRY_STAPLES, findAvailableIngredient, isPantryStaple, isSameIngredient } from './ingredientMatching';
+import { convertQuantity } from './unitConversion';
+import { isRecord } from './aiValidation';
+
+// Persists the user's pantry inventory in localStorage so it survives reloads
+// and "Start over". The pantry is small (at most MAX_INGREDIENTS items), so a
+// synchronous store keeps the App flow simple.
+
+const STORAGE_KEY = 'fridgeToFeast.pantry.v1';
+const STAPLES_STORAGE_KEY = 'fridgeToFeast.pantryStaples.v1';
+
+const isValidItem = (item: unknown): item is AvailableIngredient =>
+  isRecord(item) && typeof item.name === 'string' && typeof item.quantity === 'number' && typeof item.unit === 'string';
+
+export const loadPantry = (): AvailableIngredient[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidItem) : [];
+  } catch (e) {
+    console.error("Failed to load pantry:", e);
+    return [];
+  }
+};
+
+/** Drops the links to scan photos, which aren't kept once the scan is over. */
+export const withoutDetections = (items: AvailableIngredient[]): AvailableIngredient[] =>
+  items.map(({ detection: _detection, ...item }) => item);
+
+/** Saves the pantry, stamping today's date on items that don't have one yet. Returns the saved items. */
+export const savePantry = (items: AvailableIngredient[]): AvailableIngredient[] => {
+  const now = new Date().toISOString();
+  const stamped = withoutDetections(items)
+    .filter(item => item.name.trim() !== '' && item.quantity > 0)
+    .map(item => (item.addedAt ? item : { ...item, addedAt: now }));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stamped));
+  } catch (e) {
+    console.error("Failed to save pantry:", e);
+  }
+  return stamped;
+};
+
+export const clearPantry = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Merges freshly scanned items into the saved pantry. A scan is the latest
+ * observation of an item, so a match takes the scanned quantity and unit while
+ * keeping its original added date. A freshness estimate from the photo replaces the
+ * old expiry date. Pantry items that weren't in the photo are kept.
+ */
+export const mergeScannedIngredients = (pantry: AvailableIngredient[], scanned: AvailableIngredient[]): AvailableIngredient[] => {
+  const merged = pantry.map(item => ({ ...item }));
+  for (const scannedItem of scanned) {
+    const existing = merged.find(item => isSameIngredient(item.name, scannedItem.name));
+    if (existing) {
+      existing.quantity = scannedItem.quantity;
+      existing.unit = scannedItem.unit;
+      if (scannedItem.expiresAt) existing.expiresAt = scannedItem.expiresAt;
+      if (scannedItem.detection) existing.detection = scannedItem.detection;
+    } else {
+      merged.push({ ...scannedItem });
+    }
+  }
+  return merged;
+};
+
+const isSameItem = (a: AvailableIngredient, b: AvailableIngredient): boolean =>
+  (!!a.barcode && a.barcode === b.barcode) || (a.name.trim() !== '' && b.name.trim() !== '' && isSameIngredient(a.name, b.name));
+
+/**
+ * Merges newly bought items (from a receipt or product barcodes) into a list.
+ * Unlike a fridge scan these add to what's already there: a match gains the
+ * purchased amount, converted into its unit, and keeps its own dates so the
+ * older stock is still used first. Amounts in incompatible units stay separate.
+ */
+export const mergePurchasedIngredients = (current: AvailableIngredient[], purchased: AvailableIngredient[]): AvailableIngredient[] => {
+  const merged = current.map(item => ({ ...item }));
+  for (const bought of purchased) {
+    const existing = merged.find(item => isSameItem(item, bought));
+    const added = existing ? convertQuantity(bought.quantity, bought.unit, existing.unit, bought.name || existing.name) : null;
+    if (existing && added !== null) {
+      existing.quantity = parseFloat((existing.quantity + added).toFixed(2));
+    } else {
+      merged.push({ ...bought });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Subtracts what was used to cook `servingCount` servings of a recipe from the
+ * pantry. Pantry staples are left alone, amounts are converted into the pantry
+ * item's unit, and items that are used up are removed.
+ */
+export const deductCookedRecipe = (pantry: AvailableIngredient[], recipe: Recipe, servingCount: number, staples?: string[]): AvailableIngredient[] => {
+  let updated = pantry.map(item => ({ ...item }));
+
+  for (const recipeIng of recipe.ingredients) {
+    if (isPantryStaple(recipeIng.name, staples)) continue;
+
+    const pantryItem = findAvailableIngredient(recipeIng.name, updated);
+    if (!pantryItem) continue;
+
+    const used = convertQuantity(recipeIng.quantity * servingCount, recipeIng.unit, pantryItem.unit, recipeIng.name);
+    if (used === null) {
+      console.warn(`Could not deduct "${recipeIng.name}": ${recipeIng.unit} and ${pantryItem.unit} are not convertible.`);
+      continue;
+    }
+
+    pantryItem.quantity = parseFloat(Math.max(0, pantryItem.quantity - used).toFixed(2));
+    if (pantryItem.quantity <= 0) {
+      updated = updated.filter(item => item !== pantryItem);
+    }
+  }
+
+  return updated;
+};
+
+/** The user's own pantry staples, or the defaults if they never changed them. */
+export const loadPantryStaples = (): string[] => {
+  try {
+    const raw = localStorage.getItem(STAPLES_STORAGE_KEY);
+    if (!raw) return [...DEFAULT_PANTRY_STAPLES];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [...DEFAULT_PANTRY_STAPLES];
+  } catch (e) {
+    console.error("Failed to load pantry staples:", e);
+    return [...DEFAULT_PANTRY_STAPLES];
+  }
+};
+
+export const savePantryStaples = (staples: string[]) => {
+  try {
+    localStorage.setItem(STAPLES_STORAGE_KEY, JSON.stringify(staples));
+  } catch (e) {
+    console.error("Failed to save pantry staples:", e);
+  }
+};
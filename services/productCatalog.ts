@@ -0,0 +1,67 @@
+// productCatalog.ts
+// Maps scanned product codes to pantry items. A few common products ship with
+// the app; every product the user names after scanning is remembered locally,
+// so the next scan of the same code fills itself in.
+import type { AvailableIngredient } from '../types';
+import { isRecord } from './aiValidation';
+
+interface CatalogProduct {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+const STORAGE_KEY = 'fridgeToFeast.products.v1';
+
+// Generic ingredient names rather than brands, so recipes and matching work as usual.
+const BUNDLED_PRODUCTS: Record<string, CatalogProduct> = {
+  '3017620422003': { name: 'hazelnut spread', quantity: 400, unit: 'g' },
+  '3017620425035': { name: 'hazelnut spread', quantity: 1, unit: 'kg' },
+  '5449000000996': { name: 'cola', quantity: 330, unit: 'ml' },
+  '3274080005003': { name: 'water', quantity: 1.5, unit: 'l' },
+  '8076800195057': { name: 'spaghetti', quantity: 500, unit: 'g' },
+  '5000157024671': { name: 'baked beans', quantity: 415, unit: 'g' },
+  '5411188112709': { name: 'soy milk', quantity: 1, unit: 'l' },
+  '4000417025005': { name: 'milk chocolate', quantity: 100, unit: 'g' },
+  '3046920022606': { name: 'dark chocolate', quantity: 100, unit: 'g' },
+  '7622210449283': { name: 'chocolate biscuits', quantity: 300, unit: 'g' },
+};
+
+const isValidProduct = (product: unknown): product is CatalogProduct =>
+  isRecord(product) && typeof product.name === 'string' && typeof product.quantity === 'number' && typeof product.unit === 'string';
+
+const loadLearnedProducts = (): Record<string, CatalogProduct> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, CatalogProduct] => isValidProduct(entry[1])));
+  } catch (e) {
+    console.error("Failed to load scanned products:", e);
+    return {};
+  }
+};
+
+/**
+ * A pantry item for a scanned code. Unknown codes come back without a name so
+ * the user is asked to fill it in when confirming the ingredients.
+ */
+export const lookupProduct = (code: string): AvailableIngredient => {
+  const product = loadLearnedProducts()[code] ?? BUNDLED_PRODUCTS[code];
+  return product ? { ...product, barcode: code } : { name: '', quantity: 1, unit: 'package', barcode: code };
+};
+
+/** Remembers the name, amount and unit the user confirmed for each scanned item. */
+export const rememberScannedProducts = (items: AvailableIngredient[]) => {
+  const scanned = items.filter(item => item.barcode && item.name.trim() !== '');
+  if (scanned.length === 0) return;
+  const learned = loadLearnedProducts();
+  for (const { barcode, name, quantity, unit } of scanned) {
+    learned[barcode!] = { name: name.trim(), quantity, unit };
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(learned));
+  } catch (e) {
+    console.error("Failed to save scanned products:", e);
+  }
+};
@@ -0,0 +1,63 @@
+// recipeAvailability.ts
+// Shared "what can I make with my pantry?" math used by RecipeCard and App.
+import type { AvailableIngredient, Ingredient, Recipe } from '../types';
+import { convertQuantity } from './unitConversion';
+import { findAvailableIngredient, isPantryStaple } from './ingredientMatching';
+
+export const calculateMaxServings = (recipe: Recipe, available: AvailableIngredient[], staples?: string[]): number => {
+    let maxPossible = Infinity;
+
+    for (const recipeIng of recipe.ingredients) {
+        // Skip pantry staples in the calculation, assuming user has enough.
+        if (isPantryStaple(recipeIng.name, staples)) {
+            continue;
+        }
+        
+        const availableIng = findAvailableIngredient(recipeIng.name, available);
+
+        if (availableIng && recipeIng.quantity > 0) {
+            const availableInRecipeUnit = convertQuantity(availableIng.quantity, availableIng.unit, recipeIng.unit, recipeIng.name);
+
+            if (availableInRecipeUnit !== null) {
+                // The small epsilon keeps floating point error (0.3 kg / 100 g = 2.9999...) from costing a serving.
+                const possible = Math.floor(availableInRecipeUnit / recipeIng.quantity + 1e-9);
+                if (possible < maxPossible) {
+                    maxPossible = possible;
+                }
+            } else {
+                 // The units can't be converted into each other (e.g. "can" vs "g"),
+                 // so we can't tell how much of the recipe the user can make.
+                 return 0;
+            }
+        } else if (!availableIng) {
+            // If a non-pantry ingredient is not available at all, can't make any.
+            return 0;
+        }
+    }
+    
+    // If loop completes and maxPossible is still Infinity, it means all ingredients were pantry staples.
+    // Default to a high number, e.g., 20 servings. Otherwise, return the calculated max.
+    return maxPossible === Infinity ? 20 : Math.max(0, maxPossible);
+};
+
+/**
+ * Whether an ingredient without an amount ("salt to taste", imported as 0) is
+ * missing. Such an ingredient has no shortfall to buy, but the recipe still needs it.
+ */
+export const isUnmeasuredIngredientMissing = (ingredient: Ingredient, available: AvailableIngredient[]): boolean =>
+    ingredient.quantity <= 0 && !findAvailableIngredient(ingredient.name, available);
+
+/** How much of a recipe ingredient is missing for the given number of servings, in the recipe's unit. */
+export const calculateShortfall = (ingredient: Ingredient, servingCount: number, available: AvailableIngredient[]): number => {
+    const neededForServings = ingredient.quantity * servingCount;
+    const availableIng = findAvailableIngredient(ingredient.name, available);
+    if (!availableIng) {
+        return neededForServings;
+    }
+    const availableInRecipeUnit = convertQuantity(availableIng.quantity, availableIng.unit, ingredient.unit, ingredient.name);
+    if (availableInRecipeUnit === null) {
+        // Incomparable units: we can't tell, so don't suggest buying anything.
+        return 0;
+    }
+    return Math.max(0, neededForServings - availableInRecipeUnit);
+};
@@ -0,0 +1,60 @@
+// recipeBook.ts
+// The user's saved recipes, stored in IndexedDB together with their generated images.
+import type { Recipe, SavedRecipe } from '../types';
+import { STORES, dbDelete, dbGetAll, dbPut } from './localDb';
+
+const generateId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/** Saved recipes, newest first. */
+export const listSavedRecipes = async (): Promise<SavedRecipe[]> => {
+  const saved = await dbGetAll<SavedRecipe>(STORES.recipeBook);
+  return saved.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const isSameRecipe = (a: Recipe, b: Recipe) =>
+  a.recipeName === b.recipeName && a.description === b.description;
+
+/** Saves a recipe, or returns the existing entry if the same recipe is already in the book. */
+export const saveRecipe = async (recipe: Recipe, existing: SavedRecipe[]): Promise<SavedRecipe> => {
+  const alreadySaved = existing.find(saved => isSameRecipe(saved.recipe, recipe));
+  if (alreadySaved) {
+    // The image may have finished generating after the recipe was first saved.
+    if (!alreadySaved.recipe.imageUrl && recipe.imageUrl) {
+      const updated = { ...alreadySaved, recipe: { ...alreadySaved.recipe, imageUrl: recipe.imageUrl } };
+      await dbPut(STORES.recipeBook, updated);
+      return updated;
+    }
+    return alreadySaved;
+  }
+
+  const saved: SavedRecipe = {
+    id: generateId(),
+    recipe,
+    savedAt: new Date().toISOString(),
+    favorite: false,
+    tags: [],
+  };
+  await dbPut(STORES.recipeBook, saved);
+  return saved;
+};
+
+export const updateSavedRecipe = (saved: SavedRecipe): Promise<void> => dbPut(STORES.recipeBook, saved);
+
+export const deleteSavedRecipe = (id: string): Promise<void> => dbDelete(STORES.recipeBook, id);
+
+/** Matches the query against recipe names, ingredient names and tags. */
+export const searchSavedRecipes = (saved: SavedRecipe[], query: string, favoritesOnly: boolean): SavedRecipe[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return saved.filter(entry => {
+    if (favoritesOnly && !entry.favorite) return false;
+    const haystack = [
+      entry.recipe.recipeName,
+      ...entry.recipe.ingredients.map(ing => ing.name),
+      ...entry.tags,
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
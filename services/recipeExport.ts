@@ -0,0 +1,191 @@
+// recipeExport.ts
+// Formats recipes for use outside the app: Schema.org Recipe JSON-LD for
+// recipe managers, Markdown, and a print-ready HTML page the browser can also
+// save as PDF. Quantities are scaled to the chosen number of servings.
+import type { NutritionInfo, Recipe } from '../types';
+import { calculateRecipeNutrition } from './nutritionCalculator';
+import { calculateRecipeTimes, formatMinutes, getRecipeSteps } from './cookingSteps';
+
+export interface RecipeExportItem {
+  recipe: Recipe;
+  servingCount: number;
+}
+
+// Headings in the user's language; the component builds these with `t`.
+export interface RecipeExportLabels {
+  ingredients: string;
+  instructions: string;
+  nutrition: string;
+  calories: string;
+  perServing: string;
+  servings: (count: number) => string;
+  totalFor: (count: number) => string;
+  totalTime: (time: string) => string;
+  nutrients: Record<keyof NutritionInfo, string>;
+}
+
+// In the order the Markdown and print tables list them; the importer relies on it.
+export const NUTRIENT_FIELDS: { key: keyof NutritionInfo; unit: string; schemaProperty: string }[] = [
+  { key: 'protein', unit: 'g', schemaProperty: 'proteinContent' },
+  { key: 'carbohydrates', unit: 'g', schemaProperty: 'carbohydrateContent' },
+  { key: 'fat', unit: 'g', schemaProperty: 'fatContent' },
+  { key: 'fiber', unit: 'g', schemaProperty: 'fiberContent' },
+  { key: 'sugar', unit: 'g', schemaProperty: 'sugarContent' },
+  { key: 'sodium', unit: 'mg', schemaProperty: 'sodiumContent' },
+];
+
+const roundAmount = (value: number) => parseFloat(value.toFixed(2));
+
+const formatIngredients = ({ recipe, servingCount }: RecipeExportItem): string[] =>
+  recipe.ingredients.map(ing => `${roundAmount(ing.quantity * servingCount)} ${ing.unit} ${ing.name}`.trim());
+
+// Per-serving nutrition: the model's estimate, or our own calculation for recipes that came without one.
+const getNutrition = (recipe: Recipe): { calories?: number; nutrition?: NutritionInfo } => {
+  if (recipe.calories !== undefined || recipe.nutrition) return { calories: recipe.calories, nutrition: recipe.nutrition };
+  const estimate = calculateRecipeNutrition(recipe);
+  return estimate.matchedCount > 0 ? { calories: estimate.calories, nutrition: estimate.nutrition } : {};
+};
+
+/** ISO 8601 duration ("PT1H15M"), the format Schema.org uses for times. */
+const toIsoDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+};
+
+/** A Schema.org Recipe object; nutrition is per serving, as the vocabulary defines it. */
+export const recipeToJsonLd = ({ recipe, servingCount }: RecipeExportItem, language: string): Record<string, unknown> => {
+  const { totalMinutes } = calculateRecipeTimes(recipe);
+  const { calories, nutrition } = getNutrition(recipe);
+  const nutritionInformation: Record<string, string> = {};
+  if (calories !== undefined) nutritionInformation.calories = `${Math.round(calories)} calories`;
+  if (nutrition) {
+    for (const { key, unit, schemaProperty } of NUTRIENT_FIELDS) {
+      nutritionInformation[schemaProperty] = `${roundAmount(nutrition[key])} ${unit}`;
+    }
+  }
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.recipeName,
+    description: recipe.description,
+    inLanguage: language,
+    ...(recipe.imageUrl && { image: [recipe.imageUrl] }),
+    recipeYield: String(servingCount),
+    ...(totalMinutes > 0 && { totalTime: toIsoDuration(totalMinutes) }),
+    recipeIngredient: formatIngredients({ recipe, servingCount }),
+    recipeInstructions: getRecipeSteps(recipe).map((step, index) => ({ '@type': 'HowToStep', position: index + 1, text: step.text })),
+    ...(Object.keys(nutritionInformation).length > 0 && {
+      nutrition: { '@type': 'NutritionInformation', servingSize: '1', ...nutritionInformation },
+    }),
+  };
+};
+
+/** One recipe as a JSON-LD document; several are wrapped in a `@graph`. */
+export const recipesToJsonLd = (items: RecipeExportItem[], language: string): string => {
+  const recipes = items.map(item => recipeToJsonLd(item, language));
+  const document = recipes.length === 1
+    ? recipes[0]
+    : { '@context': 'https://schema.org', '@graph': recipes.map(({ '@context': _, ...recipe }) => recipe) };
+  return JSON.stringify(document, null, 2);
+};
+
+const nutritionRows = (recipe: Recipe, servingCount: number, labels: RecipeExportLabels): [string, string, string][] => {
+  const { calories, nutrition } = getNutrition(recipe);
+  const rows: [string, string, string][] = [];
+  if (calories !== undefined) rows.push([labels.calories, `${Math.round(calories)} kcal`, `${Math.round(calories * servingCount)} kcal`]);
+  if (nutrition) {
+    for (const { key, unit } of NUTRIENT_FIELDS) {
+      rows.push([labels.nutrients[key], `${roundAmount(nutrition[key])} ${unit}`, `${roundAmount(nutrition[key] * servingCount)} ${unit}`]);
+    }
+  }
+  return rows;
+};
+
+const recipeMeta = ({ recipe, servingCount }: RecipeExportItem, labels: RecipeExportLabels): string[] => {
+  const { totalMinutes } = calculateRecipeTimes(recipe);
+  return [labels.servings(servingCount), ...(totalMinutes > 0 ? [labels.totalTime(formatMinutes(totalMinutes))] : [])];
+};
+
+export const recipeToMarkdown = (item: RecipeExportItem, labels: RecipeExportLabels): string => {
+  const { recipe, servingCount } = item;
+  const sections = [`# ${recipe.recipeName}`];
+  if (recipe.imageUrl) sections.push(`![${recipe.recipeName}](${recipe.imageUrl})`);
+  if (recipe.description) sections.push(`_${recipe.description}_`);
+  sections.push(recipeMeta(item, labels).join(' · '));
+  sections.push(`## ${labels.ingredients}\n\n${formatIngredients(item).map(line => `- ${line}`).join('\n')}`);
+  sections.push(`## ${labels.instructions}\n\n${getRecipeSteps(recipe).map((step, index) => `${index + 1}. ${step.text}`).join('\n')}`);
+  const rows = nutritionRows(recipe, servingCount, labels);
+  if (rows.length > 0) {
+    const table = [
+      `| | ${labels.perServing} | ${labels.totalFor(servingCount)} |`,
+      '| --- | ---: | ---: |',
+      ...rows.map(row => `| ${row.join(' | ')} |`),
+    ];
+    sections.push(`## ${labels.nutrition}\n\n${table.join('\n')}`);
+  }
+  return `${sections.join('\n\n')}\n`;
+};
+
+export const recipesToMarkdown = (items: RecipeExportItem[], labels: RecipeExportLabels): string =>
+  items.map(item => recipeToMarkdown(item, labels)).join('\n---\n\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  @page { margin: 15mm; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #222; line-height: 1.45; margin: 0; }
+  article + article { break-before: page; }
+  h1 { font-size: 24pt; margin: 0 0 4pt; }
+  h2 { font-size: 13pt; text-transform: uppercase; letter-spacing: 0.05em; border-bottom: 1px solid #999; padding-bottom: 2pt; margin: 16pt 0 6pt; }
+  img { display: block; width: 100%; max-height: 8cm; object-fit: cover; border-radius: 4pt; margin-bottom: 10pt; }
+  .description { font-style: italic; margin: 0 0 4pt; }
+  .meta { font-size: 10pt; color: #555; margin: 0; }
+  .ingredients { columns: 2; column-gap: 24pt; padding-inline-start: 16pt; }
+  .ingredients li { break-inside: avoid; }
+  ol li { margin-bottom: 6pt; break-inside: avoid; }
+  table { border-collapse: collapse; font-size: 10pt; }
+  th, td { padding-block: 2pt; padding-inline-end: 10pt; text-align: end; }
+  th:first-child, td:first-child { text-align: start; }
+`;
+
+const recipeToHtml = (item: RecipeExportItem, labels: RecipeExportLabels): string => {
+  const { recipe, servingCount } = item;
+  const rows = nutritionRows(recipe, servingCount, labels);
+  return `<article>
+  ${recipe.imageUrl ? `<img src="${escapeHtml(recipe.imageUrl)}" alt="${escapeHtml(recipe.recipeName)}">` : ''}
+  <h1>${escapeHtml(recipe.recipeName)}</h1>
+  ${recipe.description ? `<p class="description">${escapeHtml(recipe.description)}</p>` : ''}
+  <p class="meta">${recipeMeta(item, labels).map(escapeHtml).join(' · ')}</p>
+  <h2>${escapeHtml(labels.ingredients)}</h2>
+  <ul class="ingredients">${formatIngredients(item).map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+  <h2>${escapeHtml(labels.instructions)}</h2>
+  <ol>${getRecipeSteps(recipe).map(step => `<li>${escapeHtml(step.text)}</li>`).join('')}</ol>
+  ${rows.length > 0 ? `<h2>${escapeHtml(labels.nutrition)}</h2>
+  <table>
+    <tr><th></th><th>${escapeHtml(labels.perServing)}</th><th>${escapeHtml(labels.totalFor(servingCount))}</th></tr>
+    ${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+  </table>` : ''}
+</article>`;
+};
+
+/** A standalone HTML page laid out for paper, one recipe per page. */
+export const recipesToPrintHtml = (items: RecipeExportItem[], labels: RecipeExportLabels, language: string, title: string): string =>
+  `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}" dir="${language === 'ar' ? 'rtl' : 'ltr'}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${items.map(item => recipeToHtml(item, labels)).join('\n')}
+</body>
+</html>`;
+
+/** A file name (without extension) from the recipe name, keeping letters of any script. */
+export const recipeFileName = (name: string): string => {
+  const slug = name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+  return slug || 'recipe';
+};
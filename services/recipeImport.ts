@@ -0,0 +1,225 @@
+// recipeImport.ts
+// Reads recipes from outside the app: Schema.org Recipe JSON-LD (as a file, or
+// embedded in a saved web page) and our own Markdown export. Free text has no
+// structure to read, so it goes to the model instead (`parseRecipeText`).
+// Imported quantities are divided by the recipe's yield, because the app keeps
+// ingredients per serving.
+import type { Ingredient, Recipe } from '../types';
+import { ParseError } from './aiErrors';
+import { isRecord, validateRecipe } from './aiValidation';
+import { parseIngredientPhrase } from './ingredientText';
+import { NUTRIENT_FIELDS } from './recipeExport';
+
+export type RecipeImportFormat = 'json-ld' | 'markdown' | 'text';
+
+export interface RecipeImportResult {
+  recipes: Recipe[];
+  // Recipes that were found but had no ingredients or instructions.
+  skipped: number;
+}
+
+// A recipe in the shape `validateRecipe` expects, plus its image.
+interface RecipeCandidate {
+  raw: Record<string, unknown>;
+  imageUrl?: string;
+}
+
+const JSON_LD_SCRIPT_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+export const detectImportFormat = (text: string): RecipeImportFormat => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[') || /application\/ld\+json/i.test(trimmed)) return 'json-ld';
+  if (/^# \S/.test(trimmed) && /^## \S/m.test(trimmed)) return 'markdown';
+  return 'text';
+};
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&quot;': '"', '&#39;': "'", '&apos;': "'", '&lt;': '<', '&gt;': '>', '&nbsp;': ' ' };
+
+// Recipe sites often leave markup and entities in JSON-LD strings.
+const cleanHtmlText = (value: unknown): string =>
+  typeof value === 'string'
+    ? value.replace(/<[^>]+>/g, ' ').replace(/&(?:amp|quot|#39|apos|lt|gt|nbsp);/g, entity => ENTITIES[entity]).replace(/\s+/g, ' ').replace(/ ([.,;:!?])/g, '$1').trim()
+    : '';
+
+const firstNumber = (text: string): number => {
+  const match = /\d+(?:[.,]\d+)?/.exec(text);
+  return match ? parseFloat(match[0].replace(',', '.')) : NaN;
+};
+
+// "4", "4 servings", ["4", "4 servings"]; anything unreadable counts as one serving.
+const parseServings = (value: unknown): number => {
+  const values = Array.isArray(value) ? value : [value];
+  for (const item of values) {
+    const servings = typeof item === 'number' ? item : firstNumber(String(item ?? ''));
+    if (Number.isFinite(servings) && servings >= 1) return servings;
+  }
+  return 1;
+};
+
+/**
+ * One ingredient line, scaled to a single serving. Lines without an amount
+ * ("salt to taste") are kept with a quantity of 0, which the pantry check treats
+ * as "just needs to be there".
+ */
+const parseIngredientLine = (line: string, servings: number): Ingredient | null => {
+  // "1 (400 g) can tomatoes, drained" is read as "1 can tomatoes"; "1,5 dl" keeps its decimal comma.
+  const text = line.replace(/\([^)]*\)/g, ' ').split(/(?<!\d),|,(?!\d)/)[0].replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  // Our own export writes amount-less ingredients as "0 pinch salt".
+  const zeroAmount = /^0(?:[.,]0+)?\s+/.exec(text);
+  if (zeroAmount) {
+    const parsed = parseIngredientPhrase(`1 ${text.slice(zeroAmount[0].length)}`);
+    if (parsed) return { ...parsed, quantity: 0 };
+  }
+  const parsed = parseIngredientPhrase(text);
+  if (parsed) return { name: parsed.name, quantity: parseFloat((parsed.quantity / servings).toFixed(2)), unit: parsed.unit };
+  const name = text.replace(/\s+(?:to taste|as needed|for serving|optional)$/i, '');
+  return { name, quantity: 0, unit: 'unit' };
+};
+
+// --- JSON-LD ---
+
+const isRecipeNode = (node: Record<string, unknown>) =>
+  node['@type'] === 'Recipe' || (Array.isArray(node['@type']) && node['@type'].includes('Recipe'));
+
+// Recipes may sit at the top level, in an array, in a `@graph` or as a page's `mainEntity`.
+const findRecipeNodes = (node: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(node)) return node.flatMap(findRecipeNodes);
+  if (!isRecord(node)) return [];
+  if (isRecipeNode(node)) return [node];
+  return [node['@graph'], node.mainEntity].flatMap(findRecipeNodes);
+};
+
+// Plain strings, HowToStep objects, or HowToSections grouping further steps.
+const readInstructions = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/\n+/).map(cleanHtmlText).filter(Boolean);
+  if (Array.isArray(value)) return value.flatMap(readInstructions);
+  if (!isRecord(value)) return [];
+  if (value.itemListElement) return readInstructions(value.itemListElement);
+  const text = cleanHtmlText(value.text) || cleanHtmlText(value.name);
+  return text ? [text] : [];
+};
+
+const readImageUrl = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return value.map(readImageUrl).find(Boolean);
+  const url = isRecord(value) ? value.url : value;
+  return typeof url === 'string' && /^(?:https?:|data:image\/)/.test(url) ? url : undefined;
+};
+
+// Nutrition values are strings like "27 g" or "520 mg"; sodium is kept in milligrams.
+const readNutrition = (value: unknown): Record<string, number> => {
+  if (!isRecord(value)) return {};
+  const nutrition: Record<string, number> = {};
+  for (const { key, schemaProperty } of NUTRIENT_FIELDS) {
+    const text = String(value[schemaProperty] ?? '');
+    const amount = firstNumber(text);
+    if (!Number.isFinite(amount)) continue;
+    nutrition[key] = key === 'sodium' && !/mg/i.test(text) && /\bg\b/i.test(text) ? amount * 1000 : amount;
+  }
+  return nutrition;
+};
+
+const jsonLdToCandidate = (node: Record<string, unknown>): RecipeCandidate => {
+  const servings = parseServings(node.recipeYield);
+  const ingredientLines = Array.isArray(node.recipeIngredient) ? node.recipeIngredient : [];
+  const nutrition = isRecord(node.nutrition) ? node.nutrition : undefined;
+  return {
+    raw: {
+      recipeName: cleanHtmlText(node.name),
+      description: cleanHtmlText(node.description),
+      ingredients: ingredientLines.map(line => parseIngredientLine(cleanHtmlText(line), servings)).filter(Boolean),
+      instructions: readInstructions(node.recipeInstructions),
+      calories: nutrition ? firstNumber(String(nutrition.calories ?? '')) : undefined,
+      nutrition: readNutrition(nutrition),
+    },
+    imageUrl: readImageUrl(node.image),
+  };
+};
+
+const parseJsonLd = (text: string): RecipeCandidate[] => {
+  // A saved web page carries its JSON-LD in script tags.
+  const scripts = [...text.matchAll(JSON_LD_SCRIPT_PATTERN)].map(match => match[1]);
+  const documents = scripts.length > 0 ? scripts : [text];
+  return documents.flatMap(json => {
+    try {
+      return findRecipeNodes(JSON.parse(json.trim())).map(jsonLdToCandidate);
+    } catch (e) {
+      if (scripts.length > 0) return [];
+      throw new ParseError('The recipe file is not valid JSON.', { cause: e });
+    }
+  });
+};
+
+// --- Markdown (as written by recipeToMarkdown) ---
+
+const parseMarkdownRecipe = (block: string): RecipeCandidate => {
+  const lines = block.split('\n').map(line => line.trim());
+  let recipeName = '';
+  let description = '';
+  let imageUrl: string | undefined;
+  let servings = 1;
+  const ingredientLines: string[] = [];
+  const instructions: string[] = [];
+  const nutritionRows: string[][] = [];
+
+  for (const line of lines) {
+    const image = /^!\[[^\]]*\]\((.+)\)$/.exec(line);
+    if (line.startsWith('# ')) recipeName = line.slice(2).trim();
+    else if (image) imageUrl = readImageUrl(image[1]);
+    else if (/^_.+_$/.test(line)) description = line.slice(1, -1);
+    else if (line.startsWith('- ')) ingredientLines.push(line.slice(2));
+    else if (/^\d+\.\s/.test(line)) instructions.push(line.replace(/^\d+\.\s+/, ''));
+    else if (line.startsWith('|')) nutritionRows.push(line.split('|').slice(1, -1).map(cell => cell.trim()));
+    // The line under the description reads "3 servings · Total 45 min".
+    else if (recipeName && line && !line.startsWith('#') && servings === 1 && ingredientLines.length === 0) servings = parseServings(line.split('·')[0]);
+  }
+
+  // Table rows after the header and separator: calories in kcal, then the nutrients in export order.
+  const nutrition: Record<string, number> = {};
+  let calories: number | undefined;
+  const valueRows = nutritionRows.filter(row => row.length >= 2 && /\d/.test(row[1]));
+  const nutrientRows = valueRows.filter(row => !/kcal/i.test(row[1]));
+  const calorieRow = valueRows.find(row => /kcal/i.test(row[1]));
+  if (calorieRow) calories = firstNumber(calorieRow[1]);
+  if (nutrientRows.length === NUTRIENT_FIELDS.length) {
+    NUTRIENT_FIELDS.forEach(({ key }, index) => { nutrition[key] = firstNumber(nutrientRows[index][1]); });
+  }
+
+  return {
+    raw: {
+      recipeName,
+      description,
+      ingredients: ingredientLines.map(line => parseIngredientLine(line, servings)).filter(Boolean),
+      instructions,
+      calories,
+      nutrition,
+    },
+    imageUrl,
+  };
+};
+
+const parseMarkdown = (text: string): RecipeCandidate[] =>
+  text.split(/\n---\n/).filter(block => /^\s*# \S/.test(block)).map(parseMarkdownRecipe);
+
+/**
+ * Recipes from JSON-LD or our Markdown export, checked like model output.
+ * Returns null for free text, which only the model can read.
+ */
+export const parseStructuredRecipes = (text: string): RecipeImportResult | null => {
+  const format = detectImportFormat(text);
+  if (format === 'text') return null;
+  const candidates = format === 'json-ld' ? parseJsonLd(text) : parseMarkdown(text);
+
+  const recipes: Recipe[] = [];
+  let skipped = 0;
+  for (const { raw, imageUrl } of candidates) {
+    const result = validateRecipe(raw);
+    if ('value' in result) {
+      recipes.push(imageUrl ? { ...result.value, imageUrl } : result.value);
+    } else {
+      console.warn(`Skipped an imported recipe: ${result.reason}`);
+      skipped++;
+    }
+  }
+  return { recipes, skipped };
+};
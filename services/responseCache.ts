@@ -0,0 +1,94 @@
+// responseCache.ts
+// Content-addressed cache for AI responses in IndexedDB. Keys are SHA-256
+// hashes of the request, and each namespace is capped by entry count and size
+// with least-recently-used eviction. Cache failures are logged and otherwise
+// ignored: a broken cache must never stop the app from calling the model.
+import { STORES, dbDelete, dbGet, dbGetAll, dbPut } from './localDb';
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface ResponseCache<T> {
+  get: (request: unknown) => Promise<T | undefined>;
+  set: (request: unknown, value: T) => Promise<void>;
+}
+
+interface CacheDataEntry {
+  id: string;
+  value: unknown;
+}
+
+interface CacheIndexEntry {
+  id: string;
+  namespace: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+// JSON with sorted object keys, so equal requests always hash the same.
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, val) =>
+  val && typeof val === 'object' && !Array.isArray(val)
+    ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+    : val
+);
+
+export const hashRequest = async (request: unknown): Promise<string> => {
+  const text = stableStringify(request);
+  // crypto.subtle only exists in secure contexts; elsewhere the key is just longer.
+  if (!globalThis.crypto?.subtle) return text;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const evict = async (namespace: string, limits: CacheLimits) => {
+  const entries = (await dbGetAll<CacheIndexEntry>(STORES.cacheIndex))
+    .filter(entry => entry.namespace === namespace)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  let totalBytes = 0;
+  for (let i = 0; i < entries.length; i++) {
+    totalBytes += entries[i].size;
+    if (i >= limits.maxEntries || totalBytes > limits.maxBytes) {
+      await dbDelete(STORES.cacheData, entries[i].id);
+      await dbDelete(STORES.cacheIndex, entries[i].id);
+    }
+  }
+};
+
+export const createResponseCache = <T>(namespace: string, limits: CacheLimits): ResponseCache<T> => {
+  const entryId = async (request: unknown) => `${namespace}:${await hashRequest(request)}`;
+
+  const get = async (request: unknown): Promise<T | undefined> => {
+    try {
+      const id = await entryId(request);
+      const data = await dbGet<CacheDataEntry>(STORES.cacheData, id);
+      if (!data) return undefined;
+      const index = await dbGet<CacheIndexEntry>(STORES.cacheIndex, id);
+      if (index) {
+        await dbPut(STORES.cacheIndex, { ...index, lastUsedAt: Date.now() });
+      }
+      return data.value as T;
+    } catch (err) {
+      console.warn(`Reading the ${namespace} cache failed:`, err);
+      return undefined;
+    }
+  };
+
+  const set = async (request: unknown, value: T): Promise<void> => {
+    try {
+      const id = await entryId(request);
+      // UTF-16 length is close enough to what the browser actually stores.
+      const size = JSON.stringify(value).length * 2;
+      if (size > limits.maxBytes) return;
+      await dbPut<CacheDataEntry>(STORES.cacheData, { id, value });
+      await dbPut<CacheIndexEntry>(STORES.cacheIndex, { id, namespace, size, lastUsedAt: Date.now() });
+      await evict(namespace, limits);
+    } catch (err) {
+      console.warn(`Writing the ${namespace} cache failed:`, err);
+    }
+  };
+
+  return { get, set };
+};
@@ -0,0 +1,98 @@
+// shoppingList.ts
+// Aggregates the shortfalls of several recipes into one shopping list and
+// formats it for export.
+import type { AvailableIngredient, Recipe, ShoppingListItem } from '../types';
+import { findAvailableIngredient, isPantryStaple, isSameIngredient, normalizeIngredientName } from './ingredientMatching';
+import { convertQuantity } from './unitConversion';
+
+export interface ShoppingSelection {
+  recipe: Recipe;
+  servingCount: number;
+}
+
+interface RequiredAmount {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+const roundAmount = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Sums what the selected recipes need, merging the same ingredient across
+ * recipes (converting units where possible), then subtracts what's in the
+ * pantry. Ingredient lines whose units can't be merged stay separate.
+ * Ingredients without an amount ("salt to taste") are listed by name, with an
+ * amount of 0, when the pantry doesn't have them.
+ */
+export const buildShoppingList = (selections: ShoppingSelection[], available: AvailableIngredient[], staples?: string[]): ShoppingListItem[] => {
+  const required: RequiredAmount[] = [];
+  const unmeasured: ShoppingListItem[] = [];
+
+  for (const { recipe, servingCount } of selections) {
+    for (const ing of recipe.ingredients) {
+      if (isPantryStaple(ing.name, staples)) continue;
+      if (ing.quantity <= 0) {
+        if (!findAvailableIngredient(ing.name, available) && !unmeasured.some(item => isSameIngredient(item.name, ing.name))) {
+          unmeasured.push({ name: ing.name, amountToBuy: 0, unit: ing.unit });
+        }
+        continue;
+      }
+
+      const needed = ing.quantity * servingCount;
+      let merged = false;
+      for (const entry of required) {
+        if (!isSameIngredient(entry.name, ing.name)) continue;
+        const converted = convertQuantity(needed, ing.unit, entry.unit, ing.name);
+        if (converted !== null) {
+          entry.quantity += converted;
+          merged = true;
+          break;
+        }
+      }
+      if (!merged) {
+        required.push({ name: ing.name, quantity: needed, unit: ing.unit });
+      }
+    }
+  }
+
+  // Each pantry item can only cover one list line, so track what's left of it.
+  const remaining = available.map(item => ({ ...item }));
+
+  const measured = required
+    .map(entry => {
+      let toBuy = entry.quantity;
+      const pantryItem = findAvailableIngredient(entry.name, remaining);
+      if (pantryItem) {
+        const inEntryUnit = convertQuantity(pantryItem.quantity, pantryItem.unit, entry.unit, entry.name);
+        if (inEntryUnit !== null) {
+          const used = Math.min(inEntryUnit, toBuy);
+          toBuy -= used;
+          pantryItem.quantity -= convertQuantity(used, entry.unit, pantryItem.unit, entry.name) ?? 0;
+        }
+      }
+      return { name: entry.name, amountToBuy: roundAmount(toBuy), unit: entry.unit };
+    })
+    .filter(item => item.amountToBuy > 0);
+  // A recipe that gives an amount says more than one that doesn't.
+  return [...measured, ...unmeasured.filter(item => !required.some(entry => isSameIngredient(entry.name, item.name)))];
+};
+
+const formatItem = (item: ShoppingListItem) => item.amountToBuy > 0 ? `${item.amountToBuy} ${item.unit} ${item.name}` : item.name;
+
+export const shoppingListToText = (items: ShoppingListItem[], title: string): string =>
+  `${title}\n\n${items.map(item => `- ${formatItem(item)}`).join('\n')}`;
+
+export const shoppingListToMarkdown = (items: ShoppingListItem[], title: string, checked: Set<string> = new Set()): string =>
+  `# ${title}\n\n${items.map(item => `- [${checked.has(shoppingItemKey(item)) ? 'x' : ' '}] ${formatItem(item)}`).join('\n')}\n`;
+
+const escapeCsv = (value: string | number) => {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const shoppingListToCsv = (items: ShoppingListItem[]): string =>
+  ['name,amount,unit', ...items.map(item => [item.name, item.amountToBuy || '', item.amountToBuy > 0 ? item.unit : ''].map(escapeCsv).join(','))].join('\n') + '\n';
+
+/** Stable key for an item, used to remember which items have been ticked off. */
+export const shoppingItemKey = (item: ShoppingListItem) => `${normalizeIngredientName(item.name)}|${item.unit}`;
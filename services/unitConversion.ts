@@ -0,0 +1,155 @@
+// unitConversion.ts
+// Converts ingredient quantities between the units used in the app: the metric
+// units offered by IngredientEditor, the US customary units the model often
+// returns, and "each" style count units. Volume <-> weight conversions use an
+// ingredient-specific density when one is known.
+
+export type UnitDimension = 'volume' | 'mass' | 'count';
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  // Size of one unit in the base unit of its dimension (ml, g or pieces).
+  factor: number;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Volume (base: ml)
+  ml: { dimension: 'volume', factor: 1 },
+  cl: { dimension: 'volume', factor: 10 },
+  dl: { dimension: 'volume', factor: 100 },
+  l: { dimension: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', factor: 4.92892 },
+  tbsp: { dimension: 'volume', factor: 14.7868 },
+  floz: { dimension: 'volume', factor: 29.5735 },
+  cup: { dimension: 'volume', factor: 236.588 },
+  pint: { dimension: 'volume', factor: 473.176 },
+  quart: { dimension: 'volume', factor: 946.353 },
+  gallon: { dimension: 'volume', factor: 3785.41 },
+  krm: { dimension: 'volume', factor: 1 },
+  pinch: { dimension: 'volume', factor: 0.3 },
+  // Mass (base: g)
+  mg: { dimension: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', factor: 1 },
+  hg: { dimension: 'mass', factor: 100 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.3495 },
+  lb: { dimension: 'mass', factor: 453.592 },
+  // Count (base: one piece)
+  unit: { dimension: 'count', factor: 1 },
+  dozen: { dimension: 'count', factor: 12 },
+};
+
+// Spellings, plurals and translations mapped onto the canonical keys above.
+const UNIT_ALIASES: Record<string, string> = {
+  milliliter: 'ml', millilitre: 'ml', milliliters: 'ml', millilitres: 'ml',
+  centiliter: 'cl', centilitre: 'cl', deciliter: 'dl', decilitre: 'dl',
+  liter: 'l', litre: 'l', liters: 'l', litres: 'l', lt: 'l', ltr: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsk: 'tsp', tl: 'tsp', cdta: 'tsp', cucchiaino: 'tsp', 'c. à café': 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbl: 'tbsp', msk: 'tbsp', el: 'tbsp', cs: 'tbsp', cda: 'tbsp', cucchiaio: 'tbsp', 'c. à soupe': 'tbsp',
+  'fl oz': 'floz', 'fl. oz': 'floz', 'fluid ounce': 'floz', 'fluid ounces': 'floz',
+  cups: 'cup', kopp: 'cup', tasse: 'cup', taza: 'cup', tazza: 'cup',
+  pints: 'pint', pt: 'pint', quarts: 'quart', qt: 'quart', gallons: 'gallon', gal: 'gallon',
+  kryddmått: 'krm', pinches: 'pinch', nypa: 'pinch', prise: 'pinch', pizca: 'pinch', pizzico: 'pinch',
+  milligram: 'mg', milligrams: 'mg',
+  gram: 'g', grams: 'g', gramm: 'g', gramme: 'g', grammes: 'g', gr: 'g', grammi: 'g', gramos: 'g',
+  hectogram: 'hg',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kilogramm: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  units: 'unit', piece: 'unit', pieces: 'unit', pcs: 'unit', pc: 'unit', item: 'unit', items: 'unit',
+  whole: 'unit', each: 'unit', ea: 'unit', st: 'unit', styck: 'unit', stk: 'unit', stück: 'unit',
+  pièce: 'unit', pièces: 'unit', pieza: 'unit', piezas: 'unit', pezzo: 'unit', pezzi: 'unit', komad: 'unit', kom: 'unit',
+  dozens: 'dozen', dussin: 'dozen', dutzend: 'dozen', douzaine: 'dozen', docena: 'dozen', dozzina: 'dozen',
+};
+
+// Approximate densities in g/ml, keyed by whole words of the ingredient name, so
+// "unsalted butter" is butter rather than salt. More specific entries come
+// first so that "brown sugar" wins over "sugar".
+const DENSITIES: [string, number][] = [
+  ['powdered sugar', 0.56],
+  ['brown sugar', 0.83],
+  ['sugar', 0.85],
+  ['flour', 0.53],
+  ['cocoa', 0.42],
+  ['oats', 0.41],
+  ['rice', 0.85],
+  ['salt', 1.2],
+  ['baking powder', 0.9],
+  ['honey', 1.42],
+  ['syrup', 1.33],
+  ['butter', 0.96],
+  ['oil', 0.92],
+  ['cream', 1.0],
+  ['yogurt', 1.03],
+  ['milk', 1.03],
+  ['water', 1.0],
+  ['stock', 1.0],
+  ['broth', 1.0],
+  ['juice', 1.04],
+  ['vinegar', 1.01],
+  ['wine', 0.99],
+  ['soy sauce', 1.15],
+  ['ketchup', 1.15],
+  ['mayonnaise', 0.91],
+  ['cheese', 0.45],
+  ['spinach', 0.12],
+];
+
+const normalizeUnitText = (unit: string) => unit.trim().toLowerCase().replace(/\.$/, '');
+
+/** Returns the canonical unit key for a raw unit string, or null if it is unknown. */
+export const normalizeUnit = (unit: string): string | null => {
+  const text = normalizeUnitText(unit);
+  if (UNITS[text]) return text;
+  if (UNIT_ALIASES[text]) return UNIT_ALIASES[text];
+  const singular = text.replace(/s$/, '');
+  if (UNITS[singular]) return singular;
+  if (UNIT_ALIASES[singular]) return UNIT_ALIASES[singular];
+  return null;
+};
+
+export const getUnitDimension = (unit: string): UnitDimension | null => {
+  const key = normalizeUnit(unit);
+  return key ? UNITS[key].dimension : null;
+};
+
+/** Density in g/ml for an ingredient, or null when we don't know it. */
+export const getDensity = (ingredientName: string): number | null => {
+  const name = ` ${ingredientName.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean).join(' ')} `;
+  const entry = DENSITIES.find(([keyword]) => [keyword, `${keyword}s`, `${keyword}es`].some(form => name.includes(` ${form} `)));
+  return entry ? entry[1] : null;
+};
+
+/**
+ * Converts `quantity` from one unit to another. Returns null when the units
+ * cannot be converted, e.g. "can" to "g", or volume to weight for an
+ * ingredient without a known density.
+ */
+export const convertQuantity = (quantity: number, fromUnit: string, toUnit: string, ingredientName = ''): number | null => {
+  const fromKey = normalizeUnit(fromUnit);
+  const toKey = normalizeUnit(toUnit);
+
+  if (!fromKey || !toKey) {
+    // Unknown units (bottle, jar, ...) are only comparable with themselves.
+    return normalizeUnitText(fromUnit).replace(/s$/, '') === normalizeUnitText(toUnit).replace(/s$/, '') ? quantity : null;
+  }
+
+  const from = UNITS[fromKey];
+  const to = UNITS[toKey];
+  const baseQuantity = quantity * from.factor;
+
+  if (from.dimension === to.dimension) {
+    return baseQuantity / to.factor;
+  }
+
+  const density = getDensity(ingredientName);
+  if (density === null) return null;
+
+  if (from.dimension === 'volume' && to.dimension === 'mass') {
+    return (baseQuantity * density) / to.factor;
+  }
+  if (from.dimension === 'mass' && to.dimension === 'volume') {
+    return baseQuantity / density / to.factor;
+  }
+  return null;
+};
@@ -0,0 +1,30 @@
+// voiceCommands.ts
+// Turns what the cook said into a cook-mode command. Recognition runs in the
+// recipe language, but the words of every supported language are accepted, as
+// people often fall back on English words like "timer".
+
+export type VoiceCommand = 'next' | 'back' | 'repeat' | 'ingredients' | 'timer';
+
+// Checked in this order, so "start the timer" isn't taken for anything else.
+const COMMAND_KEYWORDS: [VoiceCommand, string[]][] = [
+  ['timer', ['timer', 'start timer', 'temporizador', 'cronómetro', 'starta timer', 'wecker', 'minuteur', 'minuterie', 'tajmer', 'štoperica', 'cronometro', '计时', '定时', 'مؤقت']],
+  ['ingredients', ['ingredients', 'ingredientes', 'ingredienser', 'zutaten', 'ingrédients', 'sastojci', 'ingredienti', '配料', '材料', 'المكونات', 'مكونات']],
+  ['repeat', ['repeat', 'again', 'repite', 'repetir', 'otra vez', 'upprepa', 'igen', 'wiederholen', 'nochmal', 'noch einmal', 'répète', 'répéter', 'encore', 'ponovi', 'ripeti', 'ancora', '重复', '再说一遍', 'كرر', 'أعد']],
+  ['back', ['back', 'previous', 'go back', 'atrás', 'anterior', 'tillbaka', 'föregående', 'zurück', 'précédent', 'retour', 'natrag', 'prethodni', 'indietro', 'precedente', '上一步', 'السابق']],
+  ['next', ['next', 'siguiente', 'nästa', 'weiter', 'nächster', 'suivant', 'sljedeći', 'dalje', 'avanti', 'successivo', '下一步', 'التالي']],
+];
+
+// Latin-script keywords must be whole words ("back" shouldn't fire on "backofen");
+// Chinese and Arabic phrases may sit inside a longer transcript.
+const matchesKeyword = (words: string[], transcript: string, keyword: string) => {
+  if (/[^\p{Script=Latin}\s]/u.test(keyword)) return transcript.includes(keyword);
+  const keywordWords = keyword.split(' ');
+  return words.some((_, i) => keywordWords.every((word, offset) => words[i + offset] === word));
+};
+
+/** The command in a recognized phrase, or null when it doesn't contain one. */
+export const matchVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = transcript.toLowerCase();
+  const words = text.split(/[^\p{L}]+/u).filter(Boolean);
+  return COMMAND_KEYWORDS.find(([, keywords]) => keywords.some(keyword => matchesKeyword(words, text, keyword)))?.[0] ?? null;
+};
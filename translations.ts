@@ -87,9 +87,257 @@ export const translations = {
     errorIdentifyIngredients: "Could not identify any ingredients.",
     errorUnexpected: "An unexpected error occurred. Please try again.",
     errorNoRecipes: "We couldn't whip up any recipes with what you have. Try adding more ingredients!",
+    errorNoMoreRecipes: "No new recipes came back this time. Try again, or change the meal type or creativity.",
     
     // Dynamic Translation
     translating: "Translating...",
+
+    // Pantry
+    savedPantrySubtitle: "Already scanned this week? Pick up where you left off.",
+    useSavedPantry: "Use My Saved Pantry ({count} items)",
+    clearSavedPantry: "Clear saved pantry",
+    savePantry: "Save Pantry",
+    pantrySaved: "Pantry Saved!",
+    pantryAddedOn: "Added {date}",
+
+    // Mark as cooked
+    markCooked: "Mark as Cooked",
+    markCookedSuccess: "Pantry Updated!",
+    markCookedConfirm: "Remove the ingredients for {count} serving(s) from your pantry?",
+
+    // Shopping list
+    addToShoppingList: "Add to shopping list",
+    shoppingListTitle: "Shopping List",
+    shoppingListSubtitle: "Everything you still need for the selected recipes and servings.",
+    shoppingListEmpty: "You have everything you need!",
+    shoppingListCopy: "Copy List",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+
+    // Recipe book
+    saveRecipe: "Save",
+    recipeSaved: "Saved",
+    recipeBookTitle: "My Recipes",
+    recipeBookSubtitle: "Your saved recipes, checked against what's in your pantry right now.",
+    recipeBookSearchPlaceholder: "Search by name, ingredient or tag",
+    recipeBookFavoritesOnly: "Favourites only",
+    recipeBookEmpty: "No saved recipes yet. Save one from your results to find it here later.",
+    recipeBookNoResults: "No recipes match your search.",
+    recipeBookAddTag: "Add tag",
+    recipeBookToggleFavorite: "Toggle favourite",
+    recipeBookDelete: "Delete recipe",
+    recipeBookDeleteConfirm: "Delete \"{name}\" from your recipes?",
+    recipeBookOpen: "Open recipe",
+    recipeBookBackToList: "Back to my recipes",
+    back: "Back",
+
+    // Settings & dietary profile
+    settingsTitle: "Preferences",
+    close: "Close",
+    dietsTitle: "Diet",
+    dietsSubtitle: "Every generated recipe will follow these diets.",
+    diet_vegetarian: "Vegetarian",
+    diet_vegan: "Vegan",
+    diet_pescatarian: "Pescatarian",
+    diet_gluten_free: "Gluten-free",
+    diet_dairy_free: "Dairy-free",
+    diet_low_carb: "Low-carb",
+    diet_halal: "Halal",
+    diet_kosher: "Kosher",
+    allergensTitle: "Allergies",
+    allergensSubtitle: "Recipes that contain these are never shown, even if the AI suggests them.",
+    allergen_nuts: "Tree nuts",
+    allergen_peanuts: "Peanuts",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Dairy",
+    allergen_eggs: "Eggs",
+    allergen_fish: "Fish",
+    allergen_shellfish: "Shellfish",
+    allergen_soy: "Soy",
+    allergen_sesame: "Sesame",
+    allergensOther: "Other allergen",
+    dislikesTitle: "Disliked ingredients",
+    dislikesSubtitle: "The AI will avoid these when creating recipes.",
+    dislikesPlaceholder: "Add ingredient",
+
+    // Nutrition
+    nutritionTitle: "Nutrition",
+    nutritionProtein: "Protein",
+    nutritionCarbohydrates: "Carbs",
+    nutritionFat: "Fat",
+    nutritionFiber: "Fiber",
+    nutritionSugar: "Sugar",
+    nutritionSodium: "Sodium",
+    perServingShort: "/serving",
+
+    // Calculated nutrition
+    caloriesModelEstimate: "AI estimate: {count} kcal/serving",
+    caloriesCalculated: "Calculated: {count} kcal/serving",
+    nutritionCoverage: "Calculated from {matched} of {total} ingredients in our nutrient table",
+    caloriesDisagreement: "The AI estimate differs from the calculated value by {percent}%. Treat it with caution.",
+    nutritionCalculatedShort: "calc. {amount}",
+
+    // Streaming
+    loadingSendingIngredients: "Sending your ingredients to the chef...",
+    loadingWritingRecipe: "Writing recipe {count}...",
+    recipeStreamingPlaceholder: "The next recipe is on its way...",
+
+    // Image generation
+    imageFailed: "The photo couldn't be generated.",
+    retryImage: "Retry image",
+
+    // Typed errors
+    errorParseTitle: "The chef's answer got scrambled",
+    errorParseMessage: "The AI sent back a response we couldn't read. This is usually temporary, so please try again.",
+    errorEmptyTitle: "Nothing to work with",
+    errorQuotaTitle: "The kitchen is too busy right now",
+    errorQuotaMessage: "The AI service's usage limit has been reached. Wait a minute and try again, or check your API quota.",
+    errorEditIngredients: "Edit ingredients",
+
+    // Pantry staples
+    staplesTitle: "Pantry staples",
+    staplesSubtitle: "Things you always have at home. Recipes may use them freely, even if they're not in your photo.",
+    staplesPlaceholder: "Add a staple, e.g. flour",
+    staplesReset: "Reset to defaults",
+
+    // Meal planner
+    mealPlanTitle: "Meal plan",
+    mealPlanSubtitle: "Plan several days of meals that share what's in your pantry, so nothing gets counted twice.",
+    mealPlanOpen: "Meal plan",
+    mealPlanDays: "Days",
+    mealPlanServings: "Servings per meal",
+    mealPlanMeals: "Meals",
+    mealSlotBreakfast: "Breakfast",
+    mealSlotLunch: "Lunch",
+    mealSlotDinner: "Dinner",
+    mealPlanGenerate: "Plan my meals",
+    mealPlanRegenerate: "Plan again",
+    mealPlanGenerating: "Planning your meals...",
+    mealPlanNoSlots: "Pick at least one meal.",
+    mealPlanEmptyPantry: "Your pantry is empty. Scan your fridge first.",
+    mealPlanCalendarTitle: "Your plan",
+    mealPlanClear: "Clear plan",
+    mealPlanDay: "Day {day}",
+    mealPlanUnplanned: "Nothing planned",
+    mealPlanCovered: "In your pantry",
+    mealPlanCooked: "Cooked",
+    mealPlanMissing: "{count} to buy",
+    mealPlanBackToPlan: "Back to the plan",
+    errorMealPlan: "The meal plan could not be created. Please try again.",
+
+    // Freshness
+    expiresLabel: "Use by",
+    expiryExpired: "Expired",
+    expiryToday: "Expires today",
+    expiryInDays: "Expires in {count} day(s)",
+    expiringSummary: "{count} item(s) expire soon. Recipes will try to use them up first.",
+    sortLabel: "Sort by",
+    sortSuggested: "Suggested order",
+    sortExpiring: "Uses most expiring ingredients",
+    recipeUsesExpiring: "Uses {count} expiring item(s)",
+
+    // Barcode and receipt scanning
+    scanModeFridge: "Fridge photos",
+    scanModeBarcode: "Barcodes",
+    scanModeReceipt: "Receipt",
+    scanModeBarcodeSubtitle: "Upload up to {MAX_IMAGES} photos of product barcodes. Products you name once are recognised next time.",
+    scanModeReceiptSubtitle: "Upload up to {MAX_IMAGES} photos of a grocery receipt and we'll add what you bought.",
+    scanBarcodesButton: "Read barcodes ({count})",
+    scanReceiptButton: "Read receipt ({count})",
+    scanAddingTo: "New items will be added to your list of {count} ingredients.",
+    scanMore: "Scan more",
+    unknownProduct: "Unknown product {code}: enter its name",
+    errorNoBarcodes: "We couldn't find a readable barcode in these photos. Try a closer, sharper shot of the bars.",
+    errorReadReceipt: "We couldn't read any food items on this receipt. Try a flatter, well-lit photo.",
+
+    // Detection review
+    detectionPhotosTitle: "What we found",
+    detectionPhotosHint: "Tap a box to jump to its item. Dashed amber boxes are guesses worth checking.",
+    detectionPhotoAlt: "Fridge photo {number}",
+    detectionUnnamed: "Unnamed item",
+    detectionLowConfidence: "Not sure — please check",
+
+    // Text and voice entry
+    scanModeText: "Type or say",
+    scanModeTextSubtitle: "No photo needed: list what you have, with amounts where you know them.",
+    textEntryPlaceholder: "e.g. half a dozen eggs, 500g minced beef, some spinach",
+    textEntryButton: "Add these ingredients",
+    dictationStart: "Start dictation",
+    dictationStop: "Stop dictation",
+    dictationListening: "Listening…",
+    dictationNotAllowed: "Microphone access was blocked. Allow it in your browser settings to dictate.",
+    dictationFailed: "Dictation stopped unexpectedly. Please try again or type instead.",
+    errorReadIngredientText: "We couldn't find any ingredients in that text. Try listing them separated by commas.",
+
+    // Cook mode
+    startCooking: "Start cooking",
+    cookModeTitle: "Cooking {name}",
+    cookModeStepOf: "Step {current} of {total}",
+    cookModeScreenOn: "Screen stays on",
+    cookModeExit: "Exit cook mode",
+    cookModeStepIngredients: "For this step",
+    cookModeStartTimer: "Start timer: {label}",
+    cookModeTimerRunning: "Timer running: {label}",
+    cookModeTimerStep: "Step {step} · {label}",
+    cookModeTimerDone: "Time's up!",
+    cookModeTimerPause: "Pause",
+    cookModeTimerResume: "Resume",
+    cookModeTimerDismiss: "Remove timer",
+    cookModeBack: "Back",
+    cookModeNext: "Next step",
+    cookModeFinish: "Done cooking",
+
+    // Structured steps and equipment
+    recipeTotalTime: "Total {time}",
+    recipeActiveTime: "{time} hands-on",
+    recipeEquipment: "Needs:",
+    cookModeOvenTemperature: "Oven: {temperature} °C",
+    equipmentTitle: "Equipment I don't own",
+    equipmentSubtitle: "Recipes won't need anything you tick here.",
+    equipment_oven: "Oven",
+    equipment_stovetop: "Stovetop",
+    equipment_microwave: "Microwave",
+    equipment_blender: "Blender",
+    equipment_food_processor: "Food processor",
+    equipment_mixer: "Electric mixer",
+    equipment_grill: "Grill",
+    equipment_air_fryer: "Air fryer",
+    equipment_slow_cooker: "Slow cooker",
+    equipment_pressure_cooker: "Pressure cooker",
+
+    // Hands-free cook mode
+    cookModeReadAloud: "Read step aloud",
+    cookModeStopReading: "Stop reading",
+    cookModeHandsFreeOn: "Turn on voice commands",
+    cookModeHandsFreeOff: "Turn off voice commands",
+    cookModeVoiceHint: "Listening… say \"next\", \"back\", \"repeat\", \"ingredients\" or \"start timer\".",
+    cookModeVoiceHeard: "Heard: \"{text}\"",
+    cookModeVoiceLastStep: "This is the last step.",
+    cookModeVoiceTimerStarted: "Timer started for {label}.",
+    cookModeVoiceTimerAlreadyRunning: "The timer for this step is already running.",
+    cookModeVoiceNoTimer: "This step has no time to count down.",
+
+    // Recipe export
+    exportRecipe: "Export",
+    exportJsonLd: "Recipe file (JSON-LD)",
+    exportJsonLdHint: "Schema.org Recipe format, which recipe managers can import",
+    exportPrint: "Print / PDF",
+    exportServings: "{count} serving",
+    exportServings_plural: "{count} servings",
+    exportCalories: "Calories",
+    exportPerServing: "Per serving",
+    recipeBookExport: "Export the recipes shown ({count})",
+
+    // Recipe import
+    recipeBookImport: "Import recipes",
+    recipeBookImportHint: "Paste a recipe in any form, or choose a file. Recipe files (JSON-LD) and our Markdown exports are read directly; other text is turned into a recipe by the AI.",
+    recipeBookImportPlaceholder: "Paste a recipe here…",
+    recipeBookImportFile: "Choose a file…",
+    recipeBookImportButton: "Add to recipe book",
+    recipeBookImporting: "Importing…",
+    recipeBookImportSuccess: "{count} recipe added to your recipe book.",
+    recipeBookImportSuccess_plural: "{count} recipes added to your recipe book.",
+    errorImportRecipes: "We couldn't find a recipe in that text. Check that it has ingredients and steps, or that the file is a recipe export.",
   },
   es: {
     headerTitle: "De la Nevera a la Fiesta",
@@ -158,7 +406,213 @@ export const translations = {
     errorIdentifyIngredients: "No se pudo identificar ningún ingrediente.",
     errorUnexpected: "Ocurrió un error inesperado. Por favor, inténtalo de nuevo.",
     errorNoRecipes: "No pudimos preparar ninguna receta con lo que tienes. ¡Intenta añadir más ingredientes!",
+    errorNoMoreRecipes: "Esta vez no llegaron recetas nuevas. Inténtalo de nuevo o cambia el tipo de comida o la creatividad.",
     translating: "Traduciendo...",
+    savedPantrySubtitle: "¿Ya escaneaste esta semana? Continúa donde lo dejaste.",
+    useSavedPantry: "Usar mi despensa guardada ({count} artículos)",
+    clearSavedPantry: "Vaciar despensa guardada",
+    savePantry: "Guardar despensa",
+    pantrySaved: "¡Despensa guardada!",
+    pantryAddedOn: "Añadido el {date}",
+    markCooked: "Marcar como cocinado",
+    markCookedSuccess: "¡Despensa actualizada!",
+    markCookedConfirm: "¿Quitar de tu despensa los ingredientes para {count} porción(es)?",
+    addToShoppingList: "Añadir a la lista de compras",
+    shoppingListTitle: "Lista de compras",
+    shoppingListSubtitle: "Todo lo que aún necesitas para las recetas y porciones seleccionadas.",
+    shoppingListEmpty: "¡Tienes todo lo que necesitas!",
+    shoppingListCopy: "Copiar lista",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Guardar",
+    recipeSaved: "Guardada",
+    recipeBookTitle: "Mis recetas",
+    recipeBookSubtitle: "Tus recetas guardadas, comparadas con lo que hay ahora en tu despensa.",
+    recipeBookSearchPlaceholder: "Buscar por nombre, ingrediente o etiqueta",
+    recipeBookFavoritesOnly: "Solo favoritas",
+    recipeBookEmpty: "Aún no hay recetas guardadas. Guarda una de tus resultados para encontrarla aquí.",
+    recipeBookNoResults: "Ninguna receta coincide con tu búsqueda.",
+    recipeBookAddTag: "Añadir etiqueta",
+    recipeBookToggleFavorite: "Marcar como favorita",
+    recipeBookDelete: "Eliminar receta",
+    recipeBookDeleteConfirm: "¿Eliminar \"{name}\" de tus recetas?",
+    recipeBookOpen: "Abrir receta",
+    recipeBookBackToList: "Volver a mis recetas",
+    back: "Volver",
+    settingsTitle: "Preferencias",
+    close: "Cerrar",
+    dietsTitle: "Dieta",
+    dietsSubtitle: "Cada receta generada seguirá estas dietas.",
+    diet_vegetarian: "Vegetariana",
+    diet_vegan: "Vegana",
+    diet_pescatarian: "Pescetariana",
+    diet_gluten_free: "Sin gluten",
+    diet_dairy_free: "Sin lácteos",
+    diet_low_carb: "Baja en carbohidratos",
+    diet_halal: "Halal",
+    diet_kosher: "Kosher",
+    allergensTitle: "Alergias",
+    allergensSubtitle: "Las recetas que los contengan nunca se mostrarán, aunque la IA las sugiera.",
+    allergen_nuts: "Frutos secos",
+    allergen_peanuts: "Cacahuetes",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Lácteos",
+    allergen_eggs: "Huevos",
+    allergen_fish: "Pescado",
+    allergen_shellfish: "Mariscos",
+    allergen_soy: "Soja",
+    allergen_sesame: "Sésamo",
+    allergensOther: "Otro alérgeno",
+    dislikesTitle: "Ingredientes que no te gustan",
+    dislikesSubtitle: "La IA los evitará al crear recetas.",
+    dislikesPlaceholder: "Añadir ingrediente",
+    nutritionTitle: "Nutrición",
+    nutritionProtein: "Proteína",
+    nutritionCarbohydrates: "Carbohidratos",
+    nutritionFat: "Grasa",
+    nutritionFiber: "Fibra",
+    nutritionSugar: "Azúcar",
+    nutritionSodium: "Sodio",
+    perServingShort: "/porción",
+    caloriesModelEstimate: "Estimación de la IA: {count} kcal/porción",
+    caloriesCalculated: "Calculado: {count} kcal/porción",
+    nutritionCoverage: "Calculado a partir de {matched} de {total} ingredientes de nuestra tabla nutricional",
+    caloriesDisagreement: "La estimación de la IA difiere del valor calculado en un {percent} %. Tómala con cautela.",
+    nutritionCalculatedShort: "calc. {amount}",
+    loadingSendingIngredients: "Enviando tus ingredientes al chef...",
+    loadingWritingRecipe: "Escribiendo la receta {count}...",
+    recipeStreamingPlaceholder: "La siguiente receta está en camino...",
+    imageFailed: "No se pudo generar la foto.",
+    retryImage: "Reintentar imagen",
+    errorParseTitle: "La respuesta del chef llegó revuelta",
+    errorParseMessage: "La IA devolvió una respuesta que no pudimos leer. Suele ser temporal, así que inténtalo de nuevo.",
+    errorEmptyTitle: "Nada con qué trabajar",
+    errorQuotaTitle: "La cocina está demasiado ocupada ahora mismo",
+    errorQuotaMessage: "Se alcanzó el límite de uso del servicio de IA. Espera un minuto e inténtalo de nuevo, o revisa tu cuota de API.",
+    errorEditIngredients: "Editar ingredientes",
+    staplesTitle: "Básicos de despensa",
+    staplesSubtitle: "Lo que siempre tienes en casa. Las recetas pueden usarlo libremente aunque no aparezca en tu foto.",
+    staplesPlaceholder: "Añade un básico, p. ej. harina",
+    staplesReset: "Restablecer valores predeterminados",
+    mealPlanTitle: "Plan de comidas",
+    mealPlanSubtitle: "Planifica varios días de comidas que comparten lo que hay en tu despensa, sin contar nada dos veces.",
+    mealPlanOpen: "Plan de comidas",
+    mealPlanDays: "Días",
+    mealPlanServings: "Raciones por comida",
+    mealPlanMeals: "Comidas",
+    mealSlotBreakfast: "Desayuno",
+    mealSlotLunch: "Almuerzo",
+    mealSlotDinner: "Cena",
+    mealPlanGenerate: "Planificar mis comidas",
+    mealPlanRegenerate: "Volver a planificar",
+    mealPlanGenerating: "Planificando tus comidas...",
+    mealPlanNoSlots: "Elige al menos una comida.",
+    mealPlanEmptyPantry: "Tu despensa está vacía. Escanea primero tu nevera.",
+    mealPlanCalendarTitle: "Tu plan",
+    mealPlanClear: "Borrar plan",
+    mealPlanDay: "Día {day}",
+    mealPlanUnplanned: "Nada planificado",
+    mealPlanCovered: "En tu despensa",
+    mealPlanCooked: "Cocinado",
+    mealPlanMissing: "{count} por comprar",
+    mealPlanBackToPlan: "Volver al plan",
+    errorMealPlan: "No se pudo crear el plan de comidas. Inténtalo de nuevo.",
+    expiresLabel: "Consumir antes de",
+    expiryExpired: "Caducado",
+    expiryToday: "Caduca hoy",
+    expiryInDays: "Caduca en {count} día(s)",
+    expiringSummary: "{count} producto(s) caducan pronto. Las recetas intentarán usarlos primero.",
+    sortLabel: "Ordenar por",
+    sortSuggested: "Orden sugerido",
+    sortExpiring: "Usa más ingredientes a punto de caducar",
+    recipeUsesExpiring: "Usa {count} producto(s) a punto de caducar",
+    scanModeFridge: "Fotos de la nevera",
+    scanModeBarcode: "Códigos de barras",
+    scanModeReceipt: "Tique",
+    scanModeBarcodeSubtitle: "Sube hasta {MAX_IMAGES} fotos de códigos de barras. Los productos que nombres una vez se reconocerán la próxima vez.",
+    scanModeReceiptSubtitle: "Sube hasta {MAX_IMAGES} fotos de un tique de compra y añadiremos lo que compraste.",
+    scanBarcodesButton: "Leer códigos ({count})",
+    scanReceiptButton: "Leer tique ({count})",
+    scanAddingTo: "Los nuevos productos se añadirán a tu lista de {count} ingredientes.",
+    scanMore: "Escanear más",
+    unknownProduct: "Producto desconocido {code}: escribe su nombre",
+    errorNoBarcodes: "No encontramos ningún código de barras legible en estas fotos. Prueba con una foto más cercana y nítida.",
+    errorReadReceipt: "No pudimos leer ningún alimento en este tique. Prueba con una foto más plana y bien iluminada.",
+    detectionPhotosTitle: "Lo que encontramos",
+    detectionPhotosHint: "Toca un recuadro para ir a su artículo. Los recuadros ámbar discontinuos son suposiciones que conviene revisar.",
+    detectionPhotoAlt: "Foto de la nevera {number}",
+    detectionUnnamed: "Artículo sin nombre",
+    detectionLowConfidence: "No es seguro: revísalo",
+    scanModeText: "Escribe o dicta",
+    scanModeTextSubtitle: "Sin foto: enumera lo que tienes, con cantidades si las sabes.",
+    textEntryPlaceholder: "p. ej. media docena de huevos, 500 g de carne picada, algo de espinacas",
+    textEntryButton: "Añadir estos ingredientes",
+    dictationStart: "Empezar a dictar",
+    dictationStop: "Dejar de dictar",
+    dictationListening: "Escuchando…",
+    dictationNotAllowed: "Se bloqueó el acceso al micrófono. Permítelo en el navegador para dictar.",
+    dictationFailed: "El dictado se detuvo. Inténtalo de nuevo o escribe.",
+    errorReadIngredientText: "No encontramos ingredientes en el texto. Prueba a separarlos con comas.",
+    startCooking: "Empezar a cocinar",
+    cookModeTitle: "Cocinando {name}",
+    cookModeStepOf: "Paso {current} de {total}",
+    cookModeScreenOn: "La pantalla sigue encendida",
+    cookModeExit: "Salir del modo cocina",
+    cookModeStepIngredients: "Para este paso",
+    cookModeStartTimer: "Iniciar temporizador: {label}",
+    cookModeTimerRunning: "Temporizador en marcha: {label}",
+    cookModeTimerStep: "Paso {step} · {label}",
+    cookModeTimerDone: "¡Tiempo!",
+    cookModeTimerPause: "Pausar",
+    cookModeTimerResume: "Reanudar",
+    cookModeTimerDismiss: "Quitar temporizador",
+    cookModeBack: "Atrás",
+    cookModeNext: "Siguiente paso",
+    cookModeFinish: "Terminado",
+    recipeTotalTime: "Total {time}",
+    recipeActiveTime: "{time} de trabajo activo",
+    recipeEquipment: "Necesita:",
+    cookModeOvenTemperature: "Horno: {temperature} °C",
+    equipmentTitle: "Utensilios que no tengo",
+    equipmentSubtitle: "Las recetas no necesitarán nada de lo que marques aquí.",
+    equipment_oven: "Horno",
+    equipment_stovetop: "Fogones",
+    equipment_microwave: "Microondas",
+    equipment_blender: "Batidora de vaso",
+    equipment_food_processor: "Procesador de alimentos",
+    equipment_mixer: "Batidora eléctrica",
+    equipment_grill: "Parrilla",
+    equipment_air_fryer: "Freidora de aire",
+    equipment_slow_cooker: "Olla de cocción lenta",
+    equipment_pressure_cooker: "Olla a presión",
+    cookModeReadAloud: "Leer el paso en voz alta",
+    cookModeStopReading: "Dejar de leer",
+    cookModeHandsFreeOn: "Activar comandos de voz",
+    cookModeHandsFreeOff: "Desactivar comandos de voz",
+    cookModeVoiceHint: "Escuchando… di «siguiente», «atrás», «repite», «ingredientes» o «temporizador».",
+    cookModeVoiceHeard: "Entendido: «{text}»",
+    cookModeVoiceLastStep: "Este es el último paso.",
+    cookModeVoiceTimerStarted: "Temporizador iniciado: {label}.",
+    cookModeVoiceTimerAlreadyRunning: "El temporizador de este paso ya está en marcha.",
+    cookModeVoiceNoTimer: "Este paso no tiene tiempo que cronometrar.",
+    exportRecipe: "Exportar",
+    exportJsonLd: "Archivo de receta (JSON-LD)",
+    exportJsonLdHint: "Formato Schema.org Recipe, que los gestores de recetas pueden importar",
+    exportPrint: "Imprimir / PDF",
+    exportServings: "{count} ración",
+    exportServings_plural: "{count} raciones",
+    exportCalories: "Calorías",
+    exportPerServing: "Por ración",
+    recipeBookExport: "Exportar las {count} recetas mostradas",
+    recipeBookImport: "Importar recetas",
+    recipeBookImportHint: "Pega una receta en cualquier formato o elige un archivo. Los archivos de receta (JSON-LD) y nuestras exportaciones en Markdown se leen directamente; cualquier otro texto lo convierte la IA en receta.",
+    recipeBookImportPlaceholder: "Pega aquí una receta…",
+    recipeBookImportFile: "Elegir un archivo…",
+    recipeBookImportButton: "Añadir al recetario",
+    recipeBookImporting: "Importando…",
+    recipeBookImportSuccess: "{count} receta añadida a tu recetario.",
+    recipeBookImportSuccess_plural: "{count} recetas añadidas a tu recetario.",
+    errorImportRecipes: "No encontramos ninguna receta en ese texto. Comprueba que tenga ingredientes y pasos, o que el archivo sea una exportación de recetas.",
   },
   sv: {
     headerTitle: "Från Kyl till Fest",
@@ -227,7 +681,213 @@ export const translations = {
     errorIdentifyIngredients: "Kunde inte identifiera några ingredienser.",
     errorUnexpected: "Ett oväntat fel inträffade. Vänligen försök igen.",
     errorNoRecipes: "Vi kunde inte laga några recept med det du har. Prova att lägga till fler ingredienser!",
+    errorNoMoreRecipes: "Inga nya recept kom tillbaka den här gången. Försök igen eller ändra måltidstyp eller kreativitet.",
     translating: "Översätter...",
+    savedPantrySubtitle: "Har du redan skannat den här veckan? Fortsätt där du slutade.",
+    useSavedPantry: "Använd mitt sparade skafferi ({count} varor)",
+    clearSavedPantry: "Töm sparat skafferi",
+    savePantry: "Spara skafferi",
+    pantrySaved: "Skafferiet sparat!",
+    pantryAddedOn: "Tillagd {date}",
+    markCooked: "Markera som lagad",
+    markCookedSuccess: "Skafferiet uppdaterat!",
+    markCookedConfirm: "Ta bort ingredienserna för {count} portion(er) från ditt skafferi?",
+    addToShoppingList: "Lägg till i inköpslistan",
+    shoppingListTitle: "Inköpslista",
+    shoppingListSubtitle: "Allt du fortfarande behöver för de valda recepten och portionerna.",
+    shoppingListEmpty: "Du har allt du behöver!",
+    shoppingListCopy: "Kopiera lista",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Spara",
+    recipeSaved: "Sparad",
+    recipeBookTitle: "Mina recept",
+    recipeBookSubtitle: "Dina sparade recept, jämförda med vad som finns i ditt skafferi just nu.",
+    recipeBookSearchPlaceholder: "Sök på namn, ingrediens eller tagg",
+    recipeBookFavoritesOnly: "Endast favoriter",
+    recipeBookEmpty: "Inga sparade recept än. Spara ett från dina resultat för att hitta det här senare.",
+    recipeBookNoResults: "Inga recept matchar din sökning.",
+    recipeBookAddTag: "Lägg till tagg",
+    recipeBookToggleFavorite: "Växla favorit",
+    recipeBookDelete: "Ta bort recept",
+    recipeBookDeleteConfirm: "Ta bort \"{name}\" från dina recept?",
+    recipeBookOpen: "Öppna recept",
+    recipeBookBackToList: "Tillbaka till mina recept",
+    back: "Tillbaka",
+    settingsTitle: "Inställningar",
+    close: "Stäng",
+    dietsTitle: "Kost",
+    dietsSubtitle: "Alla genererade recept följer dessa koster.",
+    diet_vegetarian: "Vegetarisk",
+    diet_vegan: "Vegansk",
+    diet_pescatarian: "Pescetarian",
+    diet_gluten_free: "Glutenfri",
+    diet_dairy_free: "Mjölkfri",
+    diet_low_carb: "Lågkolhydrat",
+    diet_halal: "Halal",
+    diet_kosher: "Kosher",
+    allergensTitle: "Allergier",
+    allergensSubtitle: "Recept som innehåller dessa visas aldrig, även om AI:n föreslår dem.",
+    allergen_nuts: "Nötter",
+    allergen_peanuts: "Jordnötter",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Mjölk",
+    allergen_eggs: "Ägg",
+    allergen_fish: "Fisk",
+    allergen_shellfish: "Skaldjur",
+    allergen_soy: "Soja",
+    allergen_sesame: "Sesam",
+    allergensOther: "Annan allergen",
+    dislikesTitle: "Ingredienser du inte gillar",
+    dislikesSubtitle: "AI:n undviker dessa när den skapar recept.",
+    dislikesPlaceholder: "Lägg till ingrediens",
+    nutritionTitle: "Näringsvärde",
+    nutritionProtein: "Protein",
+    nutritionCarbohydrates: "Kolhydrater",
+    nutritionFat: "Fett",
+    nutritionFiber: "Fibrer",
+    nutritionSugar: "Socker",
+    nutritionSodium: "Natrium",
+    perServingShort: "/portion",
+    caloriesModelEstimate: "AI-uppskattning: {count} kcal/portion",
+    caloriesCalculated: "Beräknat: {count} kcal/portion",
+    nutritionCoverage: "Beräknat från {matched} av {total} ingredienser i vår näringstabell",
+    caloriesDisagreement: "AI-uppskattningen skiljer sig med {percent} % från det beräknade värdet. Var försiktig med den.",
+    nutritionCalculatedShort: "ber. {amount}",
+    loadingSendingIngredients: "Skickar dina ingredienser till kocken...",
+    loadingWritingRecipe: "Skriver recept {count}...",
+    recipeStreamingPlaceholder: "Nästa recept är på väg...",
+    imageFailed: "Bilden kunde inte skapas.",
+    retryImage: "Försök igen",
+    errorParseTitle: "Kockens svar blev rörigt",
+    errorParseMessage: "AI:n skickade ett svar som vi inte kunde läsa. Det är oftast tillfälligt, så försök igen.",
+    errorEmptyTitle: "Inget att jobba med",
+    errorQuotaTitle: "Köket är för upptaget just nu",
+    errorQuotaMessage: "AI-tjänstens användningsgräns har nåtts. Vänta en minut och försök igen, eller kontrollera din API-kvot.",
+    errorEditIngredients: "Redigera ingredienser",
+    staplesTitle: "Basvaror",
+    staplesSubtitle: "Sådant du alltid har hemma. Recepten får använda dem fritt, även om de inte syns på bilden.",
+    staplesPlaceholder: "Lägg till en basvara, t.ex. mjöl",
+    staplesReset: "Återställ standard",
+    mealPlanTitle: "Matplan",
+    mealPlanSubtitle: "Planera flera dagars måltider som delar på det du har hemma, så att inget räknas två gånger.",
+    mealPlanOpen: "Matplan",
+    mealPlanDays: "Dagar",
+    mealPlanServings: "Portioner per måltid",
+    mealPlanMeals: "Måltider",
+    mealSlotBreakfast: "Frukost",
+    mealSlotLunch: "Lunch",
+    mealSlotDinner: "Middag",
+    mealPlanGenerate: "Planera mina måltider",
+    mealPlanRegenerate: "Planera om",
+    mealPlanGenerating: "Planerar dina måltider...",
+    mealPlanNoSlots: "Välj minst en måltid.",
+    mealPlanEmptyPantry: "Ditt skafferi är tomt. Skanna kylskåpet först.",
+    mealPlanCalendarTitle: "Din plan",
+    mealPlanClear: "Rensa plan",
+    mealPlanDay: "Dag {day}",
+    mealPlanUnplanned: "Inget planerat",
+    mealPlanCovered: "Finns hemma",
+    mealPlanCooked: "Lagad",
+    mealPlanMissing: "{count} att köpa",
+    mealPlanBackToPlan: "Tillbaka till planen",
+    errorMealPlan: "Matplanen kunde inte skapas. Försök igen.",
+    expiresLabel: "Bäst före",
+    expiryExpired: "Utgånget",
+    expiryToday: "Går ut i dag",
+    expiryInDays: "Går ut om {count} dag(ar)",
+    expiringSummary: "{count} vara/varor går snart ut. Recepten försöker använda dem först.",
+    sortLabel: "Sortera efter",
+    sortSuggested: "Föreslagen ordning",
+    sortExpiring: "Använder flest varor som snart går ut",
+    recipeUsesExpiring: "Använder {count} vara/varor som snart går ut",
+    scanModeFridge: "Kylskåpsbilder",
+    scanModeBarcode: "Streckkoder",
+    scanModeReceipt: "Kvitto",
+    scanModeBarcodeSubtitle: "Ladda upp upp till {MAX_IMAGES} bilder på streckkoder. Produkter du namnger en gång känns igen nästa gång.",
+    scanModeReceiptSubtitle: "Ladda upp upp till {MAX_IMAGES} bilder på ett matkvitto så lägger vi till det du köpt.",
+    scanBarcodesButton: "Läs streckkoder ({count})",
+    scanReceiptButton: "Läs kvitto ({count})",
+    scanAddingTo: "Nya varor läggs till i din lista med {count} ingredienser.",
+    scanMore: "Skanna mer",
+    unknownProduct: "Okänd produkt {code}: ange namnet",
+    errorNoBarcodes: "Vi hittade ingen läsbar streckkod på bilderna. Försök med en närmare och skarpare bild.",
+    errorReadReceipt: "Vi kunde inte läsa några livsmedel på kvittot. Försök med en plattare och väl upplyst bild.",
+    detectionPhotosTitle: "Det här hittade vi",
+    detectionPhotosHint: "Tryck på en ruta för att hoppa till varan. Streckade gula rutor är gissningar som är värda att kontrollera.",
+    detectionPhotoAlt: "Kylskåpsbild {number}",
+    detectionUnnamed: "Namnlös vara",
+    detectionLowConfidence: "Osäker – kontrollera",
+    scanModeText: "Skriv eller säg",
+    scanModeTextSubtitle: "Ingen bild behövs: skriv vad du har, med mängder där du vet dem.",
+    textEntryPlaceholder: "t.ex. 6 ägg, 500 g köttfärs, lite spenat",
+    textEntryButton: "Lägg till ingredienserna",
+    dictationStart: "Börja diktera",
+    dictationStop: "Sluta diktera",
+    dictationListening: "Lyssnar…",
+    dictationNotAllowed: "Mikrofonåtkomst blockerades. Tillåt den i webbläsarens inställningar för att diktera.",
+    dictationFailed: "Dikteringen avbröts. Försök igen eller skriv i stället.",
+    errorReadIngredientText: "Vi hittade inga ingredienser i texten. Försök lista dem med kommatecken emellan.",
+    startCooking: "Börja laga mat",
+    cookModeTitle: "Lagar {name}",
+    cookModeStepOf: "Steg {current} av {total}",
+    cookModeScreenOn: "Skärmen hålls tänd",
+    cookModeExit: "Avsluta matlagningsläget",
+    cookModeStepIngredients: "Till det här steget",
+    cookModeStartTimer: "Starta timer: {label}",
+    cookModeTimerRunning: "Timern går: {label}",
+    cookModeTimerStep: "Steg {step} · {label}",
+    cookModeTimerDone: "Tiden är ute!",
+    cookModeTimerPause: "Pausa",
+    cookModeTimerResume: "Fortsätt",
+    cookModeTimerDismiss: "Ta bort timer",
+    cookModeBack: "Tillbaka",
+    cookModeNext: "Nästa steg",
+    cookModeFinish: "Klart",
+    recipeTotalTime: "Totalt {time}",
+    recipeActiveTime: "{time} aktiv tid",
+    recipeEquipment: "Kräver:",
+    cookModeOvenTemperature: "Ugn: {temperature} °C",
+    equipmentTitle: "Utrustning jag inte har",
+    equipmentSubtitle: "Recepten kommer inte att kräva något du markerar här.",
+    equipment_oven: "Ugn",
+    equipment_stovetop: "Spis",
+    equipment_microwave: "Mikrovågsugn",
+    equipment_blender: "Mixer",
+    equipment_food_processor: "Matberedare",
+    equipment_mixer: "Elvisp",
+    equipment_grill: "Grill",
+    equipment_air_fryer: "Airfryer",
+    equipment_slow_cooker: "Långkokare",
+    equipment_pressure_cooker: "Tryckkokare",
+    cookModeReadAloud: "Läs upp steget",
+    cookModeStopReading: "Sluta läsa upp",
+    cookModeHandsFreeOn: "Slå på röststyrning",
+    cookModeHandsFreeOff: "Stäng av röststyrning",
+    cookModeVoiceHint: "Lyssnar… säg ”nästa”, ”tillbaka”, ”upprepa”, ”ingredienser” eller ”starta timer”.",
+    cookModeVoiceHeard: "Hörde: ”{text}”",
+    cookModeVoiceLastStep: "Det här är sista steget.",
+    cookModeVoiceTimerStarted: "Timer startad på {label}.",
+    cookModeVoiceTimerAlreadyRunning: "Timern för det här steget är redan igång.",
+    cookModeVoiceNoTimer: "Det här steget har ingen tid att räkna ned.",
+    exportRecipe: "Exportera",
+    exportJsonLd: "Receptfil (JSON-LD)",
+    exportJsonLdHint: "Schema.org Recipe-format som receptappar kan importera",
+    exportPrint: "Skriv ut / PDF",
+    exportServings: "{count} portion",
+    exportServings_plural: "{count} portioner",
+    exportCalories: "Kalorier",
+    exportPerServing: "Per portion",
+    recipeBookExport: "Exportera de {count} recept som visas",
+    recipeBookImport: "Importera recept",
+    recipeBookImportHint: "Klistra in ett recept i valfri form eller välj en fil. Receptfiler (JSON-LD) och våra Markdown-exporter läses direkt; annan text görs om till ett recept av AI:n.",
+    recipeBookImportPlaceholder: "Klistra in ett recept här…",
+    recipeBookImportFile: "Välj en fil…",
+    recipeBookImportButton: "Lägg till i receptboken",
+    recipeBookImporting: "Importerar…",
+    recipeBookImportSuccess: "{count} recept har lagts till i receptboken.",
+    recipeBookImportSuccess_plural: "{count} recept har lagts till i receptboken.",
+    errorImportRecipes: "Vi hittade inget recept i texten. Kontrollera att den har ingredienser och steg, eller att filen är en receptexport.",
   },
   de: {
     headerTitle: "Vom Kühlschrank zum Festmahl",
@@ -296,7 +956,213 @@ export const translations = {
     errorIdentifyIngredients: "Keine Zutaten konnten identifiziert werden.",
     errorUnexpected: "Ein unerwarteter Fehler ist aufgetreten. Bitte versuchen Sie es erneut.",
     errorNoRecipes: "Wir konnten mit dem, was Sie haben, keine Rezepte zubereiten. Versuchen Sie, mehr Zutaten hinzuzufügen!",
+    errorNoMoreRecipes: "Diesmal kamen keine neuen Rezepte zurück. Versuche es erneut oder ändere Mahlzeitart oder Kreativität.",
     translating: "Übersetzen...",
+    savedPantrySubtitle: "Diese Woche schon gescannt? Mach dort weiter, wo du aufgehört hast.",
+    useSavedPantry: "Meinen gespeicherten Vorrat verwenden ({count} Artikel)",
+    clearSavedPantry: "Gespeicherten Vorrat löschen",
+    savePantry: "Vorrat speichern",
+    pantrySaved: "Vorrat gespeichert!",
+    pantryAddedOn: "Hinzugefügt am {date}",
+    markCooked: "Als gekocht markieren",
+    markCookedSuccess: "Vorrat aktualisiert!",
+    markCookedConfirm: "Die Zutaten für {count} Portion(en) aus deinem Vorrat entfernen?",
+    addToShoppingList: "Zur Einkaufsliste hinzufügen",
+    shoppingListTitle: "Einkaufsliste",
+    shoppingListSubtitle: "Alles, was du für die ausgewählten Rezepte und Portionen noch brauchst.",
+    shoppingListEmpty: "Du hast alles, was du brauchst!",
+    shoppingListCopy: "Liste kopieren",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Speichern",
+    recipeSaved: "Gespeichert",
+    recipeBookTitle: "Meine Rezepte",
+    recipeBookSubtitle: "Deine gespeicherten Rezepte, abgeglichen mit deinem aktuellen Vorrat.",
+    recipeBookSearchPlaceholder: "Nach Name, Zutat oder Tag suchen",
+    recipeBookFavoritesOnly: "Nur Favoriten",
+    recipeBookEmpty: "Noch keine gespeicherten Rezepte. Speichere eins aus deinen Ergebnissen, um es hier wiederzufinden.",
+    recipeBookNoResults: "Keine Rezepte entsprechen deiner Suche.",
+    recipeBookAddTag: "Tag hinzufügen",
+    recipeBookToggleFavorite: "Favorit umschalten",
+    recipeBookDelete: "Rezept löschen",
+    recipeBookDeleteConfirm: "\"{name}\" aus deinen Rezepten löschen?",
+    recipeBookOpen: "Rezept öffnen",
+    recipeBookBackToList: "Zurück zu meinen Rezepten",
+    back: "Zurück",
+    settingsTitle: "Einstellungen",
+    close: "Schließen",
+    dietsTitle: "Ernährung",
+    dietsSubtitle: "Jedes erstellte Rezept hält diese Ernährungsweisen ein.",
+    diet_vegetarian: "Vegetarisch",
+    diet_vegan: "Vegan",
+    diet_pescatarian: "Pescetarisch",
+    diet_gluten_free: "Glutenfrei",
+    diet_dairy_free: "Milchfrei",
+    diet_low_carb: "Low Carb",
+    diet_halal: "Halal",
+    diet_kosher: "Koscher",
+    allergensTitle: "Allergien",
+    allergensSubtitle: "Rezepte, die diese enthalten, werden nie angezeigt, auch wenn die KI sie vorschlägt.",
+    allergen_nuts: "Schalenfrüchte",
+    allergen_peanuts: "Erdnüsse",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Milch",
+    allergen_eggs: "Eier",
+    allergen_fish: "Fisch",
+    allergen_shellfish: "Schalentiere",
+    allergen_soy: "Soja",
+    allergen_sesame: "Sesam",
+    allergensOther: "Anderes Allergen",
+    dislikesTitle: "Unbeliebte Zutaten",
+    dislikesSubtitle: "Die KI vermeidet diese beim Erstellen von Rezepten.",
+    dislikesPlaceholder: "Zutat hinzufügen",
+    nutritionTitle: "Nährwerte",
+    nutritionProtein: "Eiweiß",
+    nutritionCarbohydrates: "Kohlenhydrate",
+    nutritionFat: "Fett",
+    nutritionFiber: "Ballaststoffe",
+    nutritionSugar: "Zucker",
+    nutritionSodium: "Natrium",
+    perServingShort: "/Portion",
+    caloriesModelEstimate: "KI-Schätzung: {count} kcal/Portion",
+    caloriesCalculated: "Berechnet: {count} kcal/Portion",
+    nutritionCoverage: "Berechnet aus {matched} von {total} Zutaten unserer Nährwerttabelle",
+    caloriesDisagreement: "Die KI-Schätzung weicht um {percent} % vom berechneten Wert ab. Bitte mit Vorsicht genießen.",
+    nutritionCalculatedShort: "ber. {amount}",
+    loadingSendingIngredients: "Deine Zutaten gehen an den Koch...",
+    loadingWritingRecipe: "Rezept {count} wird geschrieben...",
+    recipeStreamingPlaceholder: "Das nächste Rezept ist unterwegs...",
+    imageFailed: "Das Foto konnte nicht erstellt werden.",
+    retryImage: "Bild erneut versuchen",
+    errorParseTitle: "Die Antwort des Kochs ist durcheinandergeraten",
+    errorParseMessage: "Die KI hat eine Antwort geschickt, die wir nicht lesen konnten. Das ist meist nur vorübergehend, bitte versuche es erneut.",
+    errorEmptyTitle: "Nichts zum Kochen gefunden",
+    errorQuotaTitle: "Die Küche ist gerade überlastet",
+    errorQuotaMessage: "Das Nutzungslimit des KI-Dienstes ist erreicht. Warte eine Minute und versuche es erneut oder prüfe dein API-Kontingent.",
+    errorEditIngredients: "Zutaten bearbeiten",
+    staplesTitle: "Vorratsbasics",
+    staplesSubtitle: "Dinge, die du immer zu Hause hast. Rezepte dürfen sie frei verwenden, auch wenn sie nicht auf dem Foto sind.",
+    staplesPlaceholder: "Basic hinzufügen, z. B. Mehl",
+    staplesReset: "Auf Standard zurücksetzen",
+    mealPlanTitle: "Essensplan",
+    mealPlanSubtitle: "Plane Mahlzeiten für mehrere Tage aus deinem Vorrat, ohne dass etwas doppelt verplant wird.",
+    mealPlanOpen: "Essensplan",
+    mealPlanDays: "Tage",
+    mealPlanServings: "Portionen pro Mahlzeit",
+    mealPlanMeals: "Mahlzeiten",
+    mealSlotBreakfast: "Frühstück",
+    mealSlotLunch: "Mittagessen",
+    mealSlotDinner: "Abendessen",
+    mealPlanGenerate: "Mahlzeiten planen",
+    mealPlanRegenerate: "Neu planen",
+    mealPlanGenerating: "Deine Mahlzeiten werden geplant...",
+    mealPlanNoSlots: "Wähle mindestens eine Mahlzeit.",
+    mealPlanEmptyPantry: "Dein Vorrat ist leer. Scanne zuerst deinen Kühlschrank.",
+    mealPlanCalendarTitle: "Dein Plan",
+    mealPlanClear: "Plan löschen",
+    mealPlanDay: "Tag {day}",
+    mealPlanUnplanned: "Nichts geplant",
+    mealPlanCovered: "Im Vorrat",
+    mealPlanCooked: "Gekocht",
+    mealPlanMissing: "{count} zu kaufen",
+    mealPlanBackToPlan: "Zurück zum Plan",
+    errorMealPlan: "Der Essensplan konnte nicht erstellt werden. Bitte versuche es erneut.",
+    expiresLabel: "Verbrauchen bis",
+    expiryExpired: "Abgelaufen",
+    expiryToday: "Läuft heute ab",
+    expiryInDays: "Läuft in {count} Tag(en) ab",
+    expiringSummary: "{count} Zutat(en) laufen bald ab. Die Rezepte verwenden sie möglichst zuerst.",
+    sortLabel: "Sortieren nach",
+    sortSuggested: "Vorgeschlagene Reihenfolge",
+    sortExpiring: "Verwendet die meisten bald ablaufenden Zutaten",
+    recipeUsesExpiring: "Verwendet {count} bald ablaufende Zutat(en)",
+    scanModeFridge: "Kühlschrankfotos",
+    scanModeBarcode: "Barcodes",
+    scanModeReceipt: "Kassenbon",
+    scanModeBarcodeSubtitle: "Lade bis zu {MAX_IMAGES} Fotos von Produkt-Barcodes hoch. Produkte, die du einmal benennst, werden beim nächsten Mal erkannt.",
+    scanModeReceiptSubtitle: "Lade bis zu {MAX_IMAGES} Fotos eines Kassenbons hoch und wir fügen hinzu, was du gekauft hast.",
+    scanBarcodesButton: "Barcodes lesen ({count})",
+    scanReceiptButton: "Kassenbon lesen ({count})",
+    scanAddingTo: "Neue Zutaten werden zu deiner Liste mit {count} Zutaten hinzugefügt.",
+    scanMore: "Mehr scannen",
+    unknownProduct: "Unbekanntes Produkt {code}: Namen eingeben",
+    errorNoBarcodes: "In diesen Fotos wurde kein lesbarer Barcode gefunden. Versuche eine nähere, schärfere Aufnahme.",
+    errorReadReceipt: "Auf diesem Kassenbon konnten keine Lebensmittel gelesen werden. Versuche ein glatteres, gut beleuchtetes Foto.",
+    detectionPhotosTitle: "Das haben wir gefunden",
+    detectionPhotosHint: "Tippe auf einen Rahmen, um zum Eintrag zu springen. Gestrichelte gelbe Rahmen sind Vermutungen, die du prüfen solltest.",
+    detectionPhotoAlt: "Kühlschrankfoto {number}",
+    detectionUnnamed: "Unbenannter Eintrag",
+    detectionLowConfidence: "Unsicher – bitte prüfen",
+    scanModeText: "Tippen oder sprechen",
+    scanModeTextSubtitle: "Kein Foto nötig: Liste auf, was du hast, mit Mengen, wo du sie kennst.",
+    textEntryPlaceholder: "z. B. 6 Eier, 500 g Hackfleisch, etwas Spinat",
+    textEntryButton: "Diese Zutaten hinzufügen",
+    dictationStart: "Diktat starten",
+    dictationStop: "Diktat beenden",
+    dictationListening: "Hört zu…",
+    dictationNotAllowed: "Der Mikrofonzugriff wurde blockiert. Erlaube ihn in den Browsereinstellungen, um zu diktieren.",
+    dictationFailed: "Das Diktat wurde unterbrochen. Versuche es erneut oder tippe stattdessen.",
+    errorReadIngredientText: "Wir konnten im Text keine Zutaten finden. Versuche, sie durch Kommas getrennt aufzulisten.",
+    startCooking: "Kochen starten",
+    cookModeTitle: "{name} kochen",
+    cookModeStepOf: "Schritt {current} von {total}",
+    cookModeScreenOn: "Bildschirm bleibt an",
+    cookModeExit: "Kochmodus beenden",
+    cookModeStepIngredients: "Für diesen Schritt",
+    cookModeStartTimer: "Timer starten: {label}",
+    cookModeTimerRunning: "Timer läuft: {label}",
+    cookModeTimerStep: "Schritt {step} · {label}",
+    cookModeTimerDone: "Zeit ist um!",
+    cookModeTimerPause: "Pause",
+    cookModeTimerResume: "Weiter",
+    cookModeTimerDismiss: "Timer entfernen",
+    cookModeBack: "Zurück",
+    cookModeNext: "Nächster Schritt",
+    cookModeFinish: "Fertig gekocht",
+    recipeTotalTime: "Gesamt {time}",
+    recipeActiveTime: "{time} aktive Zeit",
+    recipeEquipment: "Benötigt:",
+    cookModeOvenTemperature: "Ofen: {temperature} °C",
+    equipmentTitle: "Geräte, die ich nicht habe",
+    equipmentSubtitle: "Rezepte brauchen nichts, was du hier ankreuzt.",
+    equipment_oven: "Backofen",
+    equipment_stovetop: "Herd",
+    equipment_microwave: "Mikrowelle",
+    equipment_blender: "Standmixer",
+    equipment_food_processor: "Küchenmaschine",
+    equipment_mixer: "Handrührgerät",
+    equipment_grill: "Grill",
+    equipment_air_fryer: "Heißluftfritteuse",
+    equipment_slow_cooker: "Schongarer",
+    equipment_pressure_cooker: "Schnellkochtopf",
+    cookModeReadAloud: "Schritt vorlesen",
+    cookModeStopReading: "Vorlesen beenden",
+    cookModeHandsFreeOn: "Sprachsteuerung einschalten",
+    cookModeHandsFreeOff: "Sprachsteuerung ausschalten",
+    cookModeVoiceHint: "Ich höre zu… sag „weiter“, „zurück“, „wiederholen“, „Zutaten“ oder „Timer“.",
+    cookModeVoiceHeard: "Verstanden: „{text}“",
+    cookModeVoiceLastStep: "Das ist der letzte Schritt.",
+    cookModeVoiceTimerStarted: "Timer für {label} gestartet.",
+    cookModeVoiceTimerAlreadyRunning: "Der Timer für diesen Schritt läuft schon.",
+    cookModeVoiceNoTimer: "Dieser Schritt hat keine Zeitangabe.",
+    exportRecipe: "Exportieren",
+    exportJsonLd: "Rezeptdatei (JSON-LD)",
+    exportJsonLdHint: "Schema.org-Recipe-Format, das Rezeptverwaltungen importieren können",
+    exportPrint: "Drucken / PDF",
+    exportServings: "{count} Portion",
+    exportServings_plural: "{count} Portionen",
+    exportCalories: "Kalorien",
+    exportPerServing: "Pro Portion",
+    recipeBookExport: "Die {count} angezeigten Rezepte exportieren",
+    recipeBookImport: "Rezepte importieren",
+    recipeBookImportHint: "Füge ein Rezept in beliebiger Form ein oder wähle eine Datei. Rezeptdateien (JSON-LD) und unsere Markdown-Exporte werden direkt gelesen; anderen Text wandelt die KI in ein Rezept um.",
+    recipeBookImportPlaceholder: "Rezept hier einfügen…",
+    recipeBookImportFile: "Datei auswählen…",
+    recipeBookImportButton: "Zum Rezeptbuch hinzufügen",
+    recipeBookImporting: "Wird importiert…",
+    recipeBookImportSuccess: "{count} Rezept zum Rezeptbuch hinzugefügt.",
+    recipeBookImportSuccess_plural: "{count} Rezepte zum Rezeptbuch hinzugefügt.",
+    errorImportRecipes: "Wir konnten in dem Text kein Rezept finden. Prüfe, ob er Zutaten und Schritte enthält oder ob die Datei ein Rezeptexport ist.",
   },
   fr: {
     headerTitle: "Du Frigo au Festin",
@@ -365,7 +1231,213 @@ export const translations = {
     errorIdentifyIngredients: "Impossible d'identifier les ingrédients.",
     errorUnexpected: "Une erreur inattendue est survenue. Veuillez réessayer.",
     errorNoRecipes: "Nous n'avons pas pu concocter de recettes avec ce que vous avez. Essayez d'ajouter plus d'ingrédients !",
+    errorNoMoreRecipes: "Aucune nouvelle recette cette fois. Réessayez ou changez le type de repas ou la créativité.",
     translating: "Traduction en cours...",
+    savedPantrySubtitle: "Déjà scanné cette semaine ? Reprenez là où vous vous êtes arrêté.",
+    useSavedPantry: "Utiliser mon garde-manger enregistré ({count} articles)",
+    clearSavedPantry: "Vider le garde-manger enregistré",
+    savePantry: "Enregistrer le garde-manger",
+    pantrySaved: "Garde-manger enregistré !",
+    pantryAddedOn: "Ajouté le {date}",
+    markCooked: "Marquer comme cuisiné",
+    markCookedSuccess: "Garde-manger mis à jour !",
+    markCookedConfirm: "Retirer de votre garde-manger les ingrédients pour {count} portion(s) ?",
+    addToShoppingList: "Ajouter à la liste de courses",
+    shoppingListTitle: "Liste de courses",
+    shoppingListSubtitle: "Tout ce qu'il vous manque pour les recettes et portions sélectionnées.",
+    shoppingListEmpty: "Vous avez tout ce qu'il faut !",
+    shoppingListCopy: "Copier la liste",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Enregistrer",
+    recipeSaved: "Enregistrée",
+    recipeBookTitle: "Mes recettes",
+    recipeBookSubtitle: "Vos recettes enregistrées, comparées à ce qu'il y a dans votre garde-manger.",
+    recipeBookSearchPlaceholder: "Rechercher par nom, ingrédient ou tag",
+    recipeBookFavoritesOnly: "Favoris uniquement",
+    recipeBookEmpty: "Aucune recette enregistrée. Enregistrez-en une depuis vos résultats pour la retrouver ici.",
+    recipeBookNoResults: "Aucune recette ne correspond à votre recherche.",
+    recipeBookAddTag: "Ajouter un tag",
+    recipeBookToggleFavorite: "Basculer favori",
+    recipeBookDelete: "Supprimer la recette",
+    recipeBookDeleteConfirm: "Supprimer « {name} » de vos recettes ?",
+    recipeBookOpen: "Ouvrir la recette",
+    recipeBookBackToList: "Retour à mes recettes",
+    back: "Retour",
+    settingsTitle: "Préférences",
+    close: "Fermer",
+    dietsTitle: "Régime",
+    dietsSubtitle: "Chaque recette générée respectera ces régimes.",
+    diet_vegetarian: "Végétarien",
+    diet_vegan: "Végan",
+    diet_pescatarian: "Pescétarien",
+    diet_gluten_free: "Sans gluten",
+    diet_dairy_free: "Sans lactose",
+    diet_low_carb: "Pauvre en glucides",
+    diet_halal: "Halal",
+    diet_kosher: "Casher",
+    allergensTitle: "Allergies",
+    allergensSubtitle: "Les recettes qui en contiennent ne sont jamais affichées, même si l'IA les propose.",
+    allergen_nuts: "Fruits à coque",
+    allergen_peanuts: "Arachides",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Lait",
+    allergen_eggs: "Œufs",
+    allergen_fish: "Poisson",
+    allergen_shellfish: "Crustacés",
+    allergen_soy: "Soja",
+    allergen_sesame: "Sésame",
+    allergensOther: "Autre allergène",
+    dislikesTitle: "Ingrédients non appréciés",
+    dislikesSubtitle: "L'IA les évitera lors de la création des recettes.",
+    dislikesPlaceholder: "Ajouter un ingrédient",
+    nutritionTitle: "Valeurs nutritionnelles",
+    nutritionProtein: "Protéines",
+    nutritionCarbohydrates: "Glucides",
+    nutritionFat: "Lipides",
+    nutritionFiber: "Fibres",
+    nutritionSugar: "Sucres",
+    nutritionSodium: "Sodium",
+    perServingShort: "/portion",
+    caloriesModelEstimate: "Estimation de l'IA : {count} kcal/portion",
+    caloriesCalculated: "Calculé : {count} kcal/portion",
+    nutritionCoverage: "Calculé à partir de {matched} ingrédients sur {total} de notre table nutritionnelle",
+    caloriesDisagreement: "L'estimation de l'IA diffère de {percent} % de la valeur calculée. À prendre avec prudence.",
+    nutritionCalculatedShort: "calc. {amount}",
+    loadingSendingIngredients: "Envoi de vos ingrédients au chef...",
+    loadingWritingRecipe: "Rédaction de la recette {count}...",
+    recipeStreamingPlaceholder: "La prochaine recette arrive...",
+    imageFailed: "La photo n'a pas pu être générée.",
+    retryImage: "Réessayer l'image",
+    errorParseTitle: "La réponse du chef est arrivée brouillée",
+    errorParseMessage: "L'IA a renvoyé une réponse illisible. C'est généralement temporaire, veuillez réessayer.",
+    errorEmptyTitle: "Rien à se mettre sous la dent",
+    errorQuotaTitle: "La cuisine est débordée pour le moment",
+    errorQuotaMessage: "La limite d'utilisation du service d'IA est atteinte. Patientez une minute puis réessayez, ou vérifiez votre quota d'API.",
+    errorEditIngredients: "Modifier les ingrédients",
+    staplesTitle: "Produits de base",
+    staplesSubtitle: "Ce que vous avez toujours chez vous. Les recettes peuvent les utiliser librement, même s'ils ne figurent pas sur la photo.",
+    staplesPlaceholder: "Ajouter un produit, ex. farine",
+    staplesReset: "Rétablir les valeurs par défaut",
+    mealPlanTitle: "Planning des repas",
+    mealPlanSubtitle: "Planifiez plusieurs jours de repas qui se partagent votre garde-manger, sans rien compter deux fois.",
+    mealPlanOpen: "Planning",
+    mealPlanDays: "Jours",
+    mealPlanServings: "Portions par repas",
+    mealPlanMeals: "Repas",
+    mealSlotBreakfast: "Petit-déjeuner",
+    mealSlotLunch: "Déjeuner",
+    mealSlotDinner: "Dîner",
+    mealPlanGenerate: "Planifier mes repas",
+    mealPlanRegenerate: "Replanifier",
+    mealPlanGenerating: "Planification de vos repas...",
+    mealPlanNoSlots: "Choisissez au moins un repas.",
+    mealPlanEmptyPantry: "Votre garde-manger est vide. Scannez d'abord votre frigo.",
+    mealPlanCalendarTitle: "Votre planning",
+    mealPlanClear: "Effacer le planning",
+    mealPlanDay: "Jour {day}",
+    mealPlanUnplanned: "Rien de prévu",
+    mealPlanCovered: "Dans le garde-manger",
+    mealPlanCooked: "Cuisiné",
+    mealPlanMissing: "{count} à acheter",
+    mealPlanBackToPlan: "Retour au planning",
+    errorMealPlan: "Le planning des repas n'a pas pu être créé. Veuillez réessayer.",
+    expiresLabel: "À consommer avant",
+    expiryExpired: "Périmé",
+    expiryToday: "Expire aujourd'hui",
+    expiryInDays: "Expire dans {count} jour(s)",
+    expiringSummary: "{count} produit(s) expirent bientôt. Les recettes essaieront de les utiliser en premier.",
+    sortLabel: "Trier par",
+    sortSuggested: "Ordre suggéré",
+    sortExpiring: "Utilise le plus d'ingrédients bientôt périmés",
+    recipeUsesExpiring: "Utilise {count} produit(s) bientôt périmé(s)",
+    scanModeFridge: "Photos du frigo",
+    scanModeBarcode: "Codes-barres",
+    scanModeReceipt: "Ticket de caisse",
+    scanModeBarcodeSubtitle: "Importez jusqu'à {MAX_IMAGES} photos de codes-barres. Les produits que vous nommez une fois seront reconnus la prochaine fois.",
+    scanModeReceiptSubtitle: "Importez jusqu'à {MAX_IMAGES} photos d'un ticket de caisse et nous ajouterons vos achats.",
+    scanBarcodesButton: "Lire les codes-barres ({count})",
+    scanReceiptButton: "Lire le ticket ({count})",
+    scanAddingTo: "Les nouveaux articles seront ajoutés à votre liste de {count} ingrédients.",
+    scanMore: "Scanner plus",
+    unknownProduct: "Produit inconnu {code} : saisissez son nom",
+    errorNoBarcodes: "Aucun code-barres lisible n'a été trouvé sur ces photos. Essayez une photo plus proche et plus nette.",
+    errorReadReceipt: "Aucun aliment n'a pu être lu sur ce ticket. Essayez une photo plus à plat et bien éclairée.",
+    detectionPhotosTitle: "Ce que nous avons trouvé",
+    detectionPhotosHint: "Touchez un cadre pour aller à l'article. Les cadres orange en pointillés sont des suppositions à vérifier.",
+    detectionPhotoAlt: "Photo du frigo {number}",
+    detectionUnnamed: "Article sans nom",
+    detectionLowConfidence: "Incertain — à vérifier",
+    scanModeText: "Écrire ou dicter",
+    scanModeTextSubtitle: "Pas besoin de photo : listez ce que vous avez, avec les quantités si vous les connaissez.",
+    textEntryPlaceholder: "ex. 6 œufs, 500 g de viande hachée, un peu d'épinards",
+    textEntryButton: "Ajouter ces ingrédients",
+    dictationStart: "Commencer la dictée",
+    dictationStop: "Arrêter la dictée",
+    dictationListening: "À l'écoute…",
+    dictationNotAllowed: "L'accès au micro a été bloqué. Autorisez-le dans les réglages du navigateur pour dicter.",
+    dictationFailed: "La dictée s'est arrêtée. Réessayez ou tapez plutôt.",
+    errorReadIngredientText: "Aucun ingrédient trouvé dans ce texte. Essayez de les séparer par des virgules.",
+    startCooking: "Commencer à cuisiner",
+    cookModeTitle: "Préparation de {name}",
+    cookModeStepOf: "Étape {current} sur {total}",
+    cookModeScreenOn: "L'écran reste allumé",
+    cookModeExit: "Quitter le mode cuisine",
+    cookModeStepIngredients: "Pour cette étape",
+    cookModeStartTimer: "Lancer le minuteur : {label}",
+    cookModeTimerRunning: "Minuteur en cours : {label}",
+    cookModeTimerStep: "Étape {step} · {label}",
+    cookModeTimerDone: "C'est l'heure !",
+    cookModeTimerPause: "Pause",
+    cookModeTimerResume: "Reprendre",
+    cookModeTimerDismiss: "Supprimer le minuteur",
+    cookModeBack: "Retour",
+    cookModeNext: "Étape suivante",
+    cookModeFinish: "Terminé",
+    recipeTotalTime: "Total {time}",
+    recipeActiveTime: "{time} de préparation active",
+    recipeEquipment: "Nécessite :",
+    cookModeOvenTemperature: "Four : {temperature} °C",
+    equipmentTitle: "Équipement que je n'ai pas",
+    equipmentSubtitle: "Les recettes n'utiliseront rien de ce que vous cochez ici.",
+    equipment_oven: "Four",
+    equipment_stovetop: "Plaque de cuisson",
+    equipment_microwave: "Micro-ondes",
+    equipment_blender: "Blender",
+    equipment_food_processor: "Robot culinaire",
+    equipment_mixer: "Batteur électrique",
+    equipment_grill: "Gril",
+    equipment_air_fryer: "Friteuse à air",
+    equipment_slow_cooker: "Mijoteuse",
+    equipment_pressure_cooker: "Autocuiseur",
+    cookModeReadAloud: "Lire l'étape à voix haute",
+    cookModeStopReading: "Arrêter la lecture",
+    cookModeHandsFreeOn: "Activer les commandes vocales",
+    cookModeHandsFreeOff: "Désactiver les commandes vocales",
+    cookModeVoiceHint: "À l'écoute… dites « suivant », « précédent », « répète », « ingrédients » ou « minuteur ».",
+    cookModeVoiceHeard: "Entendu : « {text} »",
+    cookModeVoiceLastStep: "C'est la dernière étape.",
+    cookModeVoiceTimerStarted: "Minuteur lancé pour {label}.",
+    cookModeVoiceTimerAlreadyRunning: "Le minuteur de cette étape est déjà lancé.",
+    cookModeVoiceNoTimer: "Cette étape n'a pas de durée à décompter.",
+    exportRecipe: "Exporter",
+    exportJsonLd: "Fichier recette (JSON-LD)",
+    exportJsonLdHint: "Format Schema.org Recipe, importable dans les gestionnaires de recettes",
+    exportPrint: "Imprimer / PDF",
+    exportServings: "{count} portion",
+    exportServings_plural: "{count} portions",
+    exportCalories: "Calories",
+    exportPerServing: "Par portion",
+    recipeBookExport: "Exporter les {count} recettes affichées",
+    recipeBookImport: "Importer des recettes",
+    recipeBookImportHint: "Collez une recette sous n'importe quelle forme ou choisissez un fichier. Les fichiers recette (JSON-LD) et nos exports Markdown sont lus directement ; tout autre texte est converti en recette par l'IA.",
+    recipeBookImportPlaceholder: "Collez une recette ici…",
+    recipeBookImportFile: "Choisir un fichier…",
+    recipeBookImportButton: "Ajouter au carnet de recettes",
+    recipeBookImporting: "Importation…",
+    recipeBookImportSuccess: "{count} recette ajoutée à votre carnet.",
+    recipeBookImportSuccess_plural: "{count} recettes ajoutées à votre carnet.",
+    errorImportRecipes: "Aucune recette trouvée dans ce texte. Vérifiez qu'il contient des ingrédients et des étapes, ou que le fichier est un export de recettes.",
   },
   hr: {
     headerTitle: "Od Hladnjaka do Gozbe",
@@ -434,7 +1506,213 @@ export const translations = {
     errorIdentifyIngredients: "Nije moguće identificirati nijedan sastojak.",
     errorUnexpected: "Došlo je do neočekivane pogreške. Molimo pokušajte ponovno.",
     errorNoRecipes: "Nismo mogli smisliti recepte s onim što imate. Pokušajte dodati više sastojaka!",
+    errorNoMoreRecipes: "Ovaj put nije stigao nijedan novi recept. Pokušajte ponovno ili promijenite vrstu obroka ili kreativnost.",
     translating: "Prevođenje...",
+    savedPantrySubtitle: "Već ste skenirali ovaj tjedan? Nastavite gdje ste stali.",
+    useSavedPantry: "Koristi moju spremljenu smočnicu ({count} stavki)",
+    clearSavedPantry: "Očisti spremljenu smočnicu",
+    savePantry: "Spremi smočnicu",
+    pantrySaved: "Smočnica spremljena!",
+    pantryAddedOn: "Dodano {date}",
+    markCooked: "Označi kao skuhano",
+    markCookedSuccess: "Smočnica ažurirana!",
+    markCookedConfirm: "Ukloniti sastojke za {count} porcija iz smočnice?",
+    addToShoppingList: "Dodaj na popis za kupnju",
+    shoppingListTitle: "Popis za kupnju",
+    shoppingListSubtitle: "Sve što vam još treba za odabrane recepte i porcije.",
+    shoppingListEmpty: "Imate sve što vam treba!",
+    shoppingListCopy: "Kopiraj popis",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Spremi",
+    recipeSaved: "Spremljeno",
+    recipeBookTitle: "Moji recepti",
+    recipeBookSubtitle: "Vaši spremljeni recepti, uspoređeni s onim što trenutno imate u smočnici.",
+    recipeBookSearchPlaceholder: "Traži po nazivu, sastojku ili oznaci",
+    recipeBookFavoritesOnly: "Samo favoriti",
+    recipeBookEmpty: "Još nema spremljenih recepata. Spremite jedan iz rezultata da biste ga ovdje pronašli.",
+    recipeBookNoResults: "Nijedan recept ne odgovara pretrazi.",
+    recipeBookAddTag: "Dodaj oznaku",
+    recipeBookToggleFavorite: "Promijeni favorit",
+    recipeBookDelete: "Izbriši recept",
+    recipeBookDeleteConfirm: "Izbrisati \"{name}\" iz vaših recepata?",
+    recipeBookOpen: "Otvori recept",
+    recipeBookBackToList: "Natrag na moje recepte",
+    back: "Natrag",
+    settingsTitle: "Postavke",
+    close: "Zatvori",
+    dietsTitle: "Prehrana",
+    dietsSubtitle: "Svaki generirani recept slijedit će ove prehrane.",
+    diet_vegetarian: "Vegetarijanska",
+    diet_vegan: "Veganska",
+    diet_pescatarian: "Peskatarijanska",
+    diet_gluten_free: "Bez glutena",
+    diet_dairy_free: "Bez mliječnih proizvoda",
+    diet_low_carb: "Malo ugljikohidrata",
+    diet_halal: "Halal",
+    diet_kosher: "Košer",
+    allergensTitle: "Alergije",
+    allergensSubtitle: "Recepti koji ih sadrže nikada se ne prikazuju, čak ni ako ih AI predloži.",
+    allergen_nuts: "Orašasti plodovi",
+    allergen_peanuts: "Kikiriki",
+    allergen_gluten: "Gluten",
+    allergen_dairy: "Mliječni proizvodi",
+    allergen_eggs: "Jaja",
+    allergen_fish: "Riba",
+    allergen_shellfish: "Školjkaši i rakovi",
+    allergen_soy: "Soja",
+    allergen_sesame: "Sezam",
+    allergensOther: "Drugi alergen",
+    dislikesTitle: "Sastojci koje ne volite",
+    dislikesSubtitle: "AI će ih izbjegavati pri izradi recepata.",
+    dislikesPlaceholder: "Dodaj sastojak",
+    nutritionTitle: "Nutritivne vrijednosti",
+    nutritionProtein: "Proteini",
+    nutritionCarbohydrates: "Ugljikohidrati",
+    nutritionFat: "Masti",
+    nutritionFiber: "Vlakna",
+    nutritionSugar: "Šećer",
+    nutritionSodium: "Natrij",
+    perServingShort: "/porcija",
+    caloriesModelEstimate: "AI procjena: {count} kcal/porciji",
+    caloriesCalculated: "Izračunato: {count} kcal/porciji",
+    nutritionCoverage: "Izračunato iz {matched} od {total} sastojaka u našoj tablici nutritivnih vrijednosti",
+    caloriesDisagreement: "AI procjena razlikuje se od izračunate vrijednosti za {percent} %. Uzmite je s oprezom.",
+    nutritionCalculatedShort: "izr. {amount}",
+    loadingSendingIngredients: "Šaljemo vaše sastojke kuharu...",
+    loadingWritingRecipe: "Pišemo recept {count}...",
+    recipeStreamingPlaceholder: "Sljedeći recept je na putu...",
+    imageFailed: "Fotografiju nije bilo moguće izraditi.",
+    retryImage: "Pokušaj ponovno",
+    errorParseTitle: "Kuharov odgovor se izmiješao",
+    errorParseMessage: "AI je poslao odgovor koji nismo mogli pročitati. To je obično privremeno, pa pokušajte ponovno.",
+    errorEmptyTitle: "Nema se s čime raditi",
+    errorQuotaTitle: "Kuhinja je trenutno prezauzeta",
+    errorQuotaMessage: "Dosegnuto je ograničenje korištenja AI usluge. Pričekajte minutu i pokušajte ponovno ili provjerite svoju API kvotu.",
+    errorEditIngredients: "Uredi sastojke",
+    staplesTitle: "Osnovne namirnice",
+    staplesSubtitle: "Namirnice koje uvijek imate kod kuće. Recepti ih mogu slobodno koristiti, čak i ako nisu na fotografiji.",
+    staplesPlaceholder: "Dodaj namirnicu, npr. brašno",
+    staplesReset: "Vrati zadano",
+    mealPlanTitle: "Plan obroka",
+    mealPlanSubtitle: "Isplanirajte obroke za više dana iz onoga što imate, tako da se ništa ne računa dvaput.",
+    mealPlanOpen: "Plan obroka",
+    mealPlanDays: "Dani",
+    mealPlanServings: "Porcija po obroku",
+    mealPlanMeals: "Obroci",
+    mealSlotBreakfast: "Doručak",
+    mealSlotLunch: "Ručak",
+    mealSlotDinner: "Večera",
+    mealPlanGenerate: "Isplaniraj obroke",
+    mealPlanRegenerate: "Planiraj ponovno",
+    mealPlanGenerating: "Planiranje obroka...",
+    mealPlanNoSlots: "Odaberite barem jedan obrok.",
+    mealPlanEmptyPantry: "Vaša smočnica je prazna. Najprije skenirajte hladnjak.",
+    mealPlanCalendarTitle: "Vaš plan",
+    mealPlanClear: "Obriši plan",
+    mealPlanDay: "Dan {day}",
+    mealPlanUnplanned: "Ništa planirano",
+    mealPlanCovered: "Imate sve",
+    mealPlanCooked: "Skuhano",
+    mealPlanMissing: "{count} za kupiti",
+    mealPlanBackToPlan: "Natrag na plan",
+    errorMealPlan: "Plan obroka nije moguće izraditi. Pokušajte ponovno.",
+    expiresLabel: "Upotrijebiti do",
+    expiryExpired: "Isteklo",
+    expiryToday: "Istječe danas",
+    expiryInDays: "Istječe za {count} dan(a)",
+    expiringSummary: "{count} namirnica uskoro istječe. Recepti će ih pokušati prvo iskoristiti.",
+    sortLabel: "Poredaj po",
+    sortSuggested: "Predloženi redoslijed",
+    sortExpiring: "Koristi najviše namirnica kojima uskoro istječe rok",
+    recipeUsesExpiring: "Koristi {count} namirnicu/e kojima istječe rok",
+    scanModeFridge: "Fotografije hladnjaka",
+    scanModeBarcode: "Barkodovi",
+    scanModeReceipt: "Račun",
+    scanModeBarcodeSubtitle: "Učitajte do {MAX_IMAGES} fotografija barkodova. Proizvodi koje jednom imenujete bit će prepoznati sljedeći put.",
+    scanModeReceiptSubtitle: "Učitajte do {MAX_IMAGES} fotografije računa i dodat ćemo ono što ste kupili.",
+    scanBarcodesButton: "Očitaj barkodove ({count})",
+    scanReceiptButton: "Očitaj račun ({count})",
+    scanAddingTo: "Nove namirnice bit će dodane na vaš popis od {count} sastojaka.",
+    scanMore: "Skeniraj još",
+    unknownProduct: "Nepoznat proizvod {code}: upišite naziv",
+    errorNoBarcodes: "Na ovim fotografijama nismo pronašli čitljiv barkod. Pokušajte s bližom i oštrijom fotografijom.",
+    errorReadReceipt: "Na ovom računu nismo mogli pročitati namirnice. Pokušajte s ravnijom i bolje osvijetljenom fotografijom.",
+    detectionPhotosTitle: "Što smo pronašli",
+    detectionPhotosHint: "Dodirnite okvir za skok na namirnicu. Isprekidani jantarni okviri su pretpostavke koje vrijedi provjeriti.",
+    detectionPhotoAlt: "Fotografija hladnjaka {number}",
+    detectionUnnamed: "Neimenovana namirnica",
+    detectionLowConfidence: "Nesigurno – provjerite",
+    scanModeText: "Upiši ili izgovori",
+    scanModeTextSubtitle: "Nije potrebna fotografija: navedite što imate, s količinama gdje ih znate.",
+    textEntryPlaceholder: "npr. 6 jaja, 500 g mljevenog mesa, malo špinata",
+    textEntryButton: "Dodaj ove sastojke",
+    dictationStart: "Započni diktiranje",
+    dictationStop: "Zaustavi diktiranje",
+    dictationListening: "Slušam…",
+    dictationNotAllowed: "Pristup mikrofonu je blokiran. Dopustite ga u postavkama preglednika za diktiranje.",
+    dictationFailed: "Diktiranje je prekinuto. Pokušajte ponovno ili upišite.",
+    errorReadIngredientText: "U tekstu nismo pronašli sastojke. Pokušajte ih odvojiti zarezima.",
+    startCooking: "Počni kuhati",
+    cookModeTitle: "Kuhanje: {name}",
+    cookModeStepOf: "Korak {current} od {total}",
+    cookModeScreenOn: "Zaslon ostaje uključen",
+    cookModeExit: "Izađi iz načina kuhanja",
+    cookModeStepIngredients: "Za ovaj korak",
+    cookModeStartTimer: "Pokreni odbrojavanje: {label}",
+    cookModeTimerRunning: "Odbrojavanje traje: {label}",
+    cookModeTimerStep: "Korak {step} · {label}",
+    cookModeTimerDone: "Vrijeme je isteklo!",
+    cookModeTimerPause: "Pauza",
+    cookModeTimerResume: "Nastavi",
+    cookModeTimerDismiss: "Ukloni odbrojavanje",
+    cookModeBack: "Natrag",
+    cookModeNext: "Sljedeći korak",
+    cookModeFinish: "Gotovo",
+    recipeTotalTime: "Ukupno {time}",
+    recipeActiveTime: "{time} aktivnog rada",
+    recipeEquipment: "Potrebno:",
+    cookModeOvenTemperature: "Pećnica: {temperature} °C",
+    equipmentTitle: "Oprema koju nemam",
+    equipmentSubtitle: "Recepti neće trebati ništa što ovdje označite.",
+    equipment_oven: "Pećnica",
+    equipment_stovetop: "Štednjak",
+    equipment_microwave: "Mikrovalna pećnica",
+    equipment_blender: "Blender",
+    equipment_food_processor: "Multipraktik",
+    equipment_mixer: "Mikser",
+    equipment_grill: "Roštilj",
+    equipment_air_fryer: "Friteza na vrući zrak",
+    equipment_slow_cooker: "Spori kuhač",
+    equipment_pressure_cooker: "Ekspres lonac",
+    cookModeReadAloud: "Pročitaj korak naglas",
+    cookModeStopReading: "Zaustavi čitanje",
+    cookModeHandsFreeOn: "Uključi glasovne naredbe",
+    cookModeHandsFreeOff: "Isključi glasovne naredbe",
+    cookModeVoiceHint: "Slušam… reci „dalje”, „natrag”, „ponovi”, „sastojci” ili „tajmer”.",
+    cookModeVoiceHeard: "Čuo sam: „{text}”",
+    cookModeVoiceLastStep: "Ovo je zadnji korak.",
+    cookModeVoiceTimerStarted: "Tajmer pokrenut: {label}.",
+    cookModeVoiceTimerAlreadyRunning: "Tajmer za ovaj korak već radi.",
+    cookModeVoiceNoTimer: "Ovaj korak nema vrijeme za odbrojavanje.",
+    exportRecipe: "Izvezi",
+    exportJsonLd: "Datoteka recepta (JSON-LD)",
+    exportJsonLdHint: "Schema.org Recipe format koji aplikacije za recepte mogu uvesti",
+    exportPrint: "Ispis / PDF",
+    exportServings: "{count} porcija",
+    exportServings_plural: "{count} porcije",
+    exportCalories: "Kalorije",
+    exportPerServing: "Po porciji",
+    recipeBookExport: "Izvezi {count} prikazanih recepata",
+    recipeBookImport: "Uvezi recepte",
+    recipeBookImportHint: "Zalijepi recept u bilo kojem obliku ili odaberi datoteku. Datoteke recepata (JSON-LD) i naši Markdown izvozi čitaju se izravno; ostali tekst AI pretvara u recept.",
+    recipeBookImportPlaceholder: "Zalijepi recept ovdje…",
+    recipeBookImportFile: "Odaberi datoteku…",
+    recipeBookImportButton: "Dodaj u knjigu recepata",
+    recipeBookImporting: "Uvoz…",
+    recipeBookImportSuccess: "{count} recept dodan u knjigu recepata.",
+    recipeBookImportSuccess_plural: "{count} recepta dodano u knjigu recepata.",
+    errorImportRecipes: "U tom tekstu nismo pronašli recept. Provjeri sadrži li sastojke i korake ili je li datoteka izvoz recepta.",
   },
   "zh-CN": {
     headerTitle: "从冰箱到盛宴",
@@ -503,7 +1781,213 @@ export const translations = {
     errorIdentifyIngredients: "无法识别任何食材。",
     errorUnexpected: "发生了意外错误。请重试。",
     errorNoRecipes: "我们无法用您现有的食材烹制任何食谱。请尝试添加更多食材！",
+    errorNoMoreRecipes: "这次没有新的食谱。请重试，或更改餐点类型或创意程度。",
     translating: "翻译中...",
+    savedPantrySubtitle: "本周已经扫描过了？从上次离开的地方继续。",
+    useSavedPantry: "使用我保存的食材库（{count} 项）",
+    clearSavedPantry: "清空已保存的食材库",
+    savePantry: "保存食材库",
+    pantrySaved: "食材库已保存！",
+    pantryAddedOn: "添加于 {date}",
+    markCooked: "标记为已烹饪",
+    markCookedSuccess: "食材库已更新！",
+    markCookedConfirm: "从食材库中扣除 {count} 份所需的食材？",
+    addToShoppingList: "加入购物清单",
+    shoppingListTitle: "购物清单",
+    shoppingListSubtitle: "所选食谱和份数仍需购买的所有食材。",
+    shoppingListEmpty: "你需要的都有了！",
+    shoppingListCopy: "复制清单",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "收藏",
+    recipeSaved: "已收藏",
+    recipeBookTitle: "我的食谱",
+    recipeBookSubtitle: "你收藏的食谱，并与当前食材库进行比对。",
+    recipeBookSearchPlaceholder: "按名称、食材或标签搜索",
+    recipeBookFavoritesOnly: "仅显示收藏",
+    recipeBookEmpty: "还没有收藏的食谱。从结果中收藏一个，之后就能在这里找到。",
+    recipeBookNoResults: "没有符合搜索条件的食谱。",
+    recipeBookAddTag: "添加标签",
+    recipeBookToggleFavorite: "切换收藏",
+    recipeBookDelete: "删除食谱",
+    recipeBookDeleteConfirm: "从你的食谱中删除“{name}”？",
+    recipeBookOpen: "打开食谱",
+    recipeBookBackToList: "返回我的食谱",
+    back: "返回",
+    settingsTitle: "偏好设置",
+    close: "关闭",
+    dietsTitle: "饮食",
+    dietsSubtitle: "生成的每个食谱都会遵循这些饮食要求。",
+    diet_vegetarian: "素食",
+    diet_vegan: "纯素",
+    diet_pescatarian: "鱼素",
+    diet_gluten_free: "无麸质",
+    diet_dairy_free: "无乳制品",
+    diet_low_carb: "低碳水",
+    diet_halal: "清真",
+    diet_kosher: "犹太洁食",
+    allergensTitle: "过敏原",
+    allergensSubtitle: "含有这些成分的食谱永远不会显示，即使 AI 推荐了它们。",
+    allergen_nuts: "坚果",
+    allergen_peanuts: "花生",
+    allergen_gluten: "麸质",
+    allergen_dairy: "乳制品",
+    allergen_eggs: "鸡蛋",
+    allergen_fish: "鱼类",
+    allergen_shellfish: "贝类",
+    allergen_soy: "大豆",
+    allergen_sesame: "芝麻",
+    allergensOther: "其他过敏原",
+    dislikesTitle: "不喜欢的食材",
+    dislikesSubtitle: "AI 在创建食谱时会避开这些食材。",
+    dislikesPlaceholder: "添加食材",
+    nutritionTitle: "营养成分",
+    nutritionProtein: "蛋白质",
+    nutritionCarbohydrates: "碳水化合物",
+    nutritionFat: "脂肪",
+    nutritionFiber: "膳食纤维",
+    nutritionSugar: "糖",
+    nutritionSodium: "钠",
+    perServingShort: "/份",
+    caloriesModelEstimate: "AI 估算：{count} 千卡/份",
+    caloriesCalculated: "计算值：{count} 千卡/份",
+    nutritionCoverage: "根据营养成分表中 {total} 种食材里的 {matched} 种计算",
+    caloriesDisagreement: "AI 估算与计算值相差 {percent}%，请谨慎参考。",
+    nutritionCalculatedShort: "计算 {amount}",
+    loadingSendingIngredients: "正在把你的食材交给大厨...",
+    loadingWritingRecipe: "正在编写第 {count} 个食谱...",
+    recipeStreamingPlaceholder: "下一个食谱马上就来...",
+    imageFailed: "无法生成图片。",
+    retryImage: "重试图片",
+    errorParseTitle: "大厨的回答乱了套",
+    errorParseMessage: "AI 返回了无法读取的回复。这通常是暂时的，请重试。",
+    errorEmptyTitle: "没有可用的结果",
+    errorQuotaTitle: "厨房现在太忙了",
+    errorQuotaMessage: "AI 服务已达到使用上限。请稍等一分钟后重试，或检查你的 API 配额。",
+    errorEditIngredients: "编辑食材",
+    staplesTitle: "常备食材",
+    staplesSubtitle: "你家里常备的东西。即使照片中没有，食谱也可以随意使用。",
+    staplesPlaceholder: "添加常备食材，例如面粉",
+    staplesReset: "恢复默认",
+    mealPlanTitle: "膳食计划",
+    mealPlanSubtitle: "用你现有的食材规划多天的餐食，同一份食材不会被重复计算。",
+    mealPlanOpen: "膳食计划",
+    mealPlanDays: "天数",
+    mealPlanServings: "每餐份数",
+    mealPlanMeals: "餐次",
+    mealSlotBreakfast: "早餐",
+    mealSlotLunch: "午餐",
+    mealSlotDinner: "晚餐",
+    mealPlanGenerate: "规划我的餐食",
+    mealPlanRegenerate: "重新规划",
+    mealPlanGenerating: "正在规划你的餐食...",
+    mealPlanNoSlots: "请至少选择一餐。",
+    mealPlanEmptyPantry: "你的储藏为空。请先扫描冰箱。",
+    mealPlanCalendarTitle: "你的计划",
+    mealPlanClear: "清除计划",
+    mealPlanDay: "第 {day} 天",
+    mealPlanUnplanned: "未安排",
+    mealPlanCovered: "食材齐全",
+    mealPlanCooked: "已烹饪",
+    mealPlanMissing: "需购买 {count} 项",
+    mealPlanBackToPlan: "返回计划",
+    errorMealPlan: "无法创建膳食计划，请重试。",
+    expiresLabel: "食用期限",
+    expiryExpired: "已过期",
+    expiryToday: "今天到期",
+    expiryInDays: "{count} 天后到期",
+    expiringSummary: "{count} 种食材即将过期。食谱会优先使用它们。",
+    sortLabel: "排序方式",
+    sortSuggested: "推荐顺序",
+    sortExpiring: "使用最多即将过期的食材",
+    recipeUsesExpiring: "使用 {count} 种即将过期的食材",
+    scanModeFridge: "冰箱照片",
+    scanModeBarcode: "条形码",
+    scanModeReceipt: "购物小票",
+    scanModeBarcodeSubtitle: "最多上传 {MAX_IMAGES} 张商品条形码照片。命名过一次的商品下次会被自动识别。",
+    scanModeReceiptSubtitle: "最多上传 {MAX_IMAGES} 张购物小票照片，我们会添加你买的东西。",
+    scanBarcodesButton: "读取条形码（{count}）",
+    scanReceiptButton: "读取小票（{count}）",
+    scanAddingTo: "新物品将添加到你的 {count} 种食材列表中。",
+    scanMore: "继续扫描",
+    unknownProduct: "未知商品 {code}：请输入名称",
+    errorNoBarcodes: "在这些照片中找不到可读取的条形码。请靠近一些并拍得更清晰。",
+    errorReadReceipt: "无法从这张小票中读取任何食品。请拍一张更平整、光线更好的照片。",
+    detectionPhotosTitle: "识别结果",
+    detectionPhotosHint: "点击方框可跳转到对应食材。琥珀色虚线框是需要核对的猜测。",
+    detectionPhotoAlt: "冰箱照片 {number}",
+    detectionUnnamed: "未命名食材",
+    detectionLowConfidence: "不确定——请核对",
+    scanModeText: "输入或口述",
+    scanModeTextSubtitle: "无需照片：列出你有的食材，知道数量的话一并写上。",
+    textEntryPlaceholder: "例如：6 个鸡蛋，500 克牛肉馅，一些菠菜",
+    textEntryButton: "添加这些食材",
+    dictationStart: "开始口述",
+    dictationStop: "停止口述",
+    dictationListening: "正在聆听…",
+    dictationNotAllowed: "麦克风权限被阻止。请在浏览器设置中允许后再口述。",
+    dictationFailed: "口述意外中断。请重试或改为输入。",
+    errorReadIngredientText: "文本中未找到食材。请尝试用逗号分隔列出。",
+    startCooking: "开始烹饪",
+    cookModeTitle: "正在烹饪 {name}",
+    cookModeStepOf: "第 {current} 步，共 {total} 步",
+    cookModeScreenOn: "屏幕保持常亮",
+    cookModeExit: "退出烹饪模式",
+    cookModeStepIngredients: "本步骤所需",
+    cookModeStartTimer: "开始计时：{label}",
+    cookModeTimerRunning: "计时中：{label}",
+    cookModeTimerStep: "第 {step} 步 · {label}",
+    cookModeTimerDone: "时间到！",
+    cookModeTimerPause: "暂停",
+    cookModeTimerResume: "继续",
+    cookModeTimerDismiss: "移除计时器",
+    cookModeBack: "上一步",
+    cookModeNext: "下一步",
+    cookModeFinish: "烹饪完成",
+    recipeTotalTime: "总计 {time}",
+    recipeActiveTime: "动手 {time}",
+    recipeEquipment: "所需厨具：",
+    cookModeOvenTemperature: "烤箱：{temperature} °C",
+    equipmentTitle: "我没有的厨具",
+    equipmentSubtitle: "食谱不会用到你在此勾选的厨具。",
+    equipment_oven: "烤箱",
+    equipment_stovetop: "炉灶",
+    equipment_microwave: "微波炉",
+    equipment_blender: "搅拌机",
+    equipment_food_processor: "料理机",
+    equipment_mixer: "电动打蛋器",
+    equipment_grill: "烤架",
+    equipment_air_fryer: "空气炸锅",
+    equipment_slow_cooker: "慢炖锅",
+    equipment_pressure_cooker: "高压锅",
+    cookModeReadAloud: "朗读此步骤",
+    cookModeStopReading: "停止朗读",
+    cookModeHandsFreeOn: "开启语音控制",
+    cookModeHandsFreeOff: "关闭语音控制",
+    cookModeVoiceHint: "正在聆听……请说“下一步”“上一步”“重复”“配料”或“计时”。",
+    cookModeVoiceHeard: "听到：“{text}”",
+    cookModeVoiceLastStep: "这是最后一步。",
+    cookModeVoiceTimerStarted: "已开始计时：{label}。",
+    cookModeVoiceTimerAlreadyRunning: "此步骤的计时器已在运行。",
+    cookModeVoiceNoTimer: "此步骤没有需要计时的时间。",
+    exportRecipe: "导出",
+    exportJsonLd: "食谱文件 (JSON-LD)",
+    exportJsonLdHint: "Schema.org Recipe 格式，可导入食谱管理应用",
+    exportPrint: "打印 / PDF",
+    exportServings: "{count} 份",
+    exportServings_plural: "{count} 份",
+    exportCalories: "热量",
+    exportPerServing: "每份",
+    recipeBookExport: "导出显示的 {count} 个食谱",
+    recipeBookImport: "导入食谱",
+    recipeBookImportHint: "粘贴任意格式的食谱，或选择文件。食谱文件（JSON-LD）和本应用导出的 Markdown 会直接读取；其他文本由 AI 转换为食谱。",
+    recipeBookImportPlaceholder: "在此粘贴食谱……",
+    recipeBookImportFile: "选择文件……",
+    recipeBookImportButton: "添加到食谱本",
+    recipeBookImporting: "正在导入……",
+    recipeBookImportSuccess: "已将 {count} 个食谱添加到食谱本。",
+    recipeBookImportSuccess_plural: "已将 {count} 个食谱添加到食谱本。",
+    errorImportRecipes: "未能在该文本中找到食谱。请确认其中包含配料和步骤，或文件是食谱导出文件。",
   },
   ar: {
     headerTitle: "من الثلاجة إلى الوليمة",
@@ -572,7 +2056,213 @@ export const translations = {
     errorIdentifyIngredients: "تعذر التعرف على أي مكونات.",
     errorUnexpected: "حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.",
     errorNoRecipes: "لم نتمكن من إعداد أي وصفات بما لديك. حاول إضافة المزيد من المكونات!",
+    errorNoMoreRecipes: "لم تصل وصفات جديدة هذه المرة. حاول مرة أخرى أو غيّر نوع الوجبة أو مستوى الإبداع.",
     translating: "جاري الترجمة...",
+    savedPantrySubtitle: "هل قمت بالمسح هذا الأسبوع بالفعل؟ تابع من حيث توقفت.",
+    useSavedPantry: "استخدم مخزني المحفوظ ({count} عناصر)",
+    clearSavedPantry: "مسح المخزن المحفوظ",
+    savePantry: "حفظ المخزن",
+    pantrySaved: "تم حفظ المخزن!",
+    pantryAddedOn: "أضيف في {date}",
+    markCooked: "وضع علامة كمطبوخ",
+    markCookedSuccess: "تم تحديث المخزن!",
+    markCookedConfirm: "هل تريد إزالة مكونات {count} حصة من مخزنك؟",
+    addToShoppingList: "أضف إلى قائمة التسوق",
+    shoppingListTitle: "قائمة التسوق",
+    shoppingListSubtitle: "كل ما تحتاجه بعد للوصفات والحصص المختارة.",
+    shoppingListEmpty: "لديك كل ما تحتاجه!",
+    shoppingListCopy: "نسخ القائمة",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "حفظ",
+    recipeSaved: "محفوظة",
+    recipeBookTitle: "وصفاتي",
+    recipeBookSubtitle: "وصفاتك المحفوظة، مقارنة بما في مخزنك الآن.",
+    recipeBookSearchPlaceholder: "ابحث بالاسم أو المكون أو الوسم",
+    recipeBookFavoritesOnly: "المفضلة فقط",
+    recipeBookEmpty: "لا توجد وصفات محفوظة بعد. احفظ وصفة من نتائجك لتجدها هنا لاحقًا.",
+    recipeBookNoResults: "لا توجد وصفات تطابق بحثك.",
+    recipeBookAddTag: "أضف وسمًا",
+    recipeBookToggleFavorite: "تبديل المفضلة",
+    recipeBookDelete: "حذف الوصفة",
+    recipeBookDeleteConfirm: "هل تريد حذف \"{name}\" من وصفاتك؟",
+    recipeBookOpen: "افتح الوصفة",
+    recipeBookBackToList: "العودة إلى وصفاتي",
+    back: "رجوع",
+    settingsTitle: "التفضيلات",
+    close: "إغلاق",
+    dietsTitle: "النظام الغذائي",
+    dietsSubtitle: "ستلتزم كل وصفة يتم إنشاؤها بهذه الأنظمة.",
+    diet_vegetarian: "نباتي",
+    diet_vegan: "نباتي صرف",
+    diet_pescatarian: "نباتي يأكل السمك",
+    diet_gluten_free: "خالٍ من الغلوتين",
+    diet_dairy_free: "خالٍ من الألبان",
+    diet_low_carb: "منخفض الكربوهيدرات",
+    diet_halal: "حلال",
+    diet_kosher: "كوشير",
+    allergensTitle: "الحساسية",
+    allergensSubtitle: "لن تُعرض الوصفات التي تحتوي عليها أبدًا، حتى لو اقترحها الذكاء الاصطناعي.",
+    allergen_nuts: "المكسرات",
+    allergen_peanuts: "الفول السوداني",
+    allergen_gluten: "الغلوتين",
+    allergen_dairy: "الألبان",
+    allergen_eggs: "البيض",
+    allergen_fish: "السمك",
+    allergen_shellfish: "المحار",
+    allergen_soy: "الصويا",
+    allergen_sesame: "السمسم",
+    allergensOther: "مسبب حساسية آخر",
+    dislikesTitle: "المكونات غير المرغوبة",
+    dislikesSubtitle: "سيتجنبها الذكاء الاصطناعي عند إنشاء الوصفات.",
+    dislikesPlaceholder: "أضف مكونًا",
+    nutritionTitle: "القيم الغذائية",
+    nutritionProtein: "البروتين",
+    nutritionCarbohydrates: "الكربوهيدرات",
+    nutritionFat: "الدهون",
+    nutritionFiber: "الألياف",
+    nutritionSugar: "السكر",
+    nutritionSodium: "الصوديوم",
+    perServingShort: "/حصة",
+    caloriesModelEstimate: "تقدير الذكاء الاصطناعي: {count} سعرة حرارية/حصة",
+    caloriesCalculated: "المحسوب: {count} سعرة حرارية/حصة",
+    nutritionCoverage: "محسوب من {matched} من أصل {total} مكونات في جدولنا الغذائي",
+    caloriesDisagreement: "يختلف تقدير الذكاء الاصطناعي عن القيمة المحسوبة بنسبة {percent}%. تعامل معه بحذر.",
+    nutritionCalculatedShort: "محسوب {amount}",
+    loadingSendingIngredients: "جارٍ إرسال مكوناتك إلى الطاهي...",
+    loadingWritingRecipe: "جارٍ كتابة الوصفة {count}...",
+    recipeStreamingPlaceholder: "الوصفة التالية في الطريق...",
+    imageFailed: "تعذّر إنشاء الصورة.",
+    retryImage: "إعادة محاولة الصورة",
+    errorParseTitle: "وصل رد الطاهي مشوشًا",
+    errorParseMessage: "أرسل الذكاء الاصطناعي ردًا لم نتمكن من قراءته. عادةً ما يكون ذلك مؤقتًا، لذا يرجى المحاولة مرة أخرى.",
+    errorEmptyTitle: "لا يوجد ما نعمل به",
+    errorQuotaTitle: "المطبخ مشغول جدًا الآن",
+    errorQuotaMessage: "تم بلوغ حد استخدام خدمة الذكاء الاصطناعي. انتظر دقيقة ثم حاول مرة أخرى، أو تحقق من حصة واجهة البرمجة لديك.",
+    errorEditIngredients: "تعديل المكونات",
+    staplesTitle: "أساسيات المخزن",
+    staplesSubtitle: "الأشياء المتوفرة لديك دائمًا في المنزل. يمكن للوصفات استخدامها بحرية حتى لو لم تظهر في صورتك.",
+    staplesPlaceholder: "أضف مكوّنًا أساسيًا، مثل الدقيق",
+    staplesReset: "إعادة التعيين إلى الافتراضي",
+    mealPlanTitle: "خطة الوجبات",
+    mealPlanSubtitle: "خطط لوجبات عدة أيام تتشارك ما في مخزنك، حتى لا يُحسب أي مكوّن مرتين.",
+    mealPlanOpen: "خطة الوجبات",
+    mealPlanDays: "الأيام",
+    mealPlanServings: "الحصص لكل وجبة",
+    mealPlanMeals: "الوجبات",
+    mealSlotBreakfast: "الإفطار",
+    mealSlotLunch: "الغداء",
+    mealSlotDinner: "العشاء",
+    mealPlanGenerate: "خطط وجباتي",
+    mealPlanRegenerate: "خطط من جديد",
+    mealPlanGenerating: "جارٍ تخطيط وجباتك...",
+    mealPlanNoSlots: "اختر وجبة واحدة على الأقل.",
+    mealPlanEmptyPantry: "مخزنك فارغ. امسح ثلاجتك أولًا.",
+    mealPlanCalendarTitle: "خطتك",
+    mealPlanClear: "مسح الخطة",
+    mealPlanDay: "اليوم {day}",
+    mealPlanUnplanned: "لا شيء مخطط",
+    mealPlanCovered: "متوفر في مخزنك",
+    mealPlanCooked: "تم الطهي",
+    mealPlanMissing: "{count} للشراء",
+    mealPlanBackToPlan: "العودة إلى الخطة",
+    errorMealPlan: "تعذر إنشاء خطة الوجبات. يرجى المحاولة مرة أخرى.",
+    expiresLabel: "يُستهلك قبل",
+    expiryExpired: "منتهي الصلاحية",
+    expiryToday: "ينتهي اليوم",
+    expiryInDays: "ينتهي خلال {count} يوم",
+    expiringSummary: "{count} من المكونات ستنتهي صلاحيتها قريبًا. ستحاول الوصفات استخدامها أولًا.",
+    sortLabel: "ترتيب حسب",
+    sortSuggested: "الترتيب المقترح",
+    sortExpiring: "يستخدم أكثر المكونات التي ستنتهي صلاحيتها",
+    recipeUsesExpiring: "يستخدم {count} من المكونات القريبة من الانتهاء",
+    scanModeFridge: "صور الثلاجة",
+    scanModeBarcode: "الباركود",
+    scanModeReceipt: "الإيصال",
+    scanModeBarcodeSubtitle: "حمّل حتى {MAX_IMAGES} صور لرموز الباركود. المنتجات التي تسميها مرة سيتم التعرف عليها في المرة القادمة.",
+    scanModeReceiptSubtitle: "حمّل حتى {MAX_IMAGES} صور لإيصال البقالة وسنضيف ما اشتريته.",
+    scanBarcodesButton: "قراءة الباركود ({count})",
+    scanReceiptButton: "قراءة الإيصال ({count})",
+    scanAddingTo: "ستُضاف العناصر الجديدة إلى قائمتك المكونة من {count} مكونات.",
+    scanMore: "مسح المزيد",
+    unknownProduct: "منتج غير معروف {code}: أدخل اسمه",
+    errorNoBarcodes: "لم نعثر على باركود قابل للقراءة في هذه الصور. جرّب صورة أقرب وأوضح.",
+    errorReadReceipt: "لم نتمكن من قراءة أي مواد غذائية في هذا الإيصال. جرّب صورة مستوية وجيدة الإضاءة.",
+    detectionPhotosTitle: "ما وجدناه",
+    detectionPhotosHint: "اضغط على إطار للانتقال إلى العنصر. الإطارات الكهرمانية المتقطعة تخمينات تستحق المراجعة.",
+    detectionPhotoAlt: "صورة الثلاجة {number}",
+    detectionUnnamed: "عنصر بلا اسم",
+    detectionLowConfidence: "غير مؤكد — يرجى التحقق",
+    scanModeText: "اكتب أو تحدّث",
+    scanModeTextSubtitle: "لا حاجة إلى صورة: اكتب ما لديك مع الكميات إن كنت تعرفها.",
+    textEntryPlaceholder: "مثال: 6 بيضات، 500 غ لحم مفروم، قليل من السبانخ",
+    textEntryButton: "أضف هذه المكونات",
+    dictationStart: "ابدأ الإملاء",
+    dictationStop: "أوقف الإملاء",
+    dictationListening: "جارٍ الاستماع…",
+    dictationNotAllowed: "تم حظر الوصول إلى الميكروفون. اسمح به في إعدادات المتصفح للإملاء.",
+    dictationFailed: "توقف الإملاء بشكل غير متوقع. حاول مجددًا أو اكتب بدلًا من ذلك.",
+    errorReadIngredientText: "لم نجد أي مكونات في النص. جرّب كتابتها مفصولة بفواصل.",
+    startCooking: "ابدأ الطهي",
+    cookModeTitle: "طهي {name}",
+    cookModeStepOf: "الخطوة {current} من {total}",
+    cookModeScreenOn: "الشاشة تبقى مضاءة",
+    cookModeExit: "الخروج من وضع الطهي",
+    cookModeStepIngredients: "لهذه الخطوة",
+    cookModeStartTimer: "ابدأ المؤقت: {label}",
+    cookModeTimerRunning: "المؤقت يعمل: {label}",
+    cookModeTimerStep: "الخطوة {step} · {label}",
+    cookModeTimerDone: "انتهى الوقت!",
+    cookModeTimerPause: "إيقاف مؤقت",
+    cookModeTimerResume: "استئناف",
+    cookModeTimerDismiss: "إزالة المؤقت",
+    cookModeBack: "رجوع",
+    cookModeNext: "الخطوة التالية",
+    cookModeFinish: "انتهى الطهي",
+    recipeTotalTime: "الإجمالي {time}",
+    recipeActiveTime: "{time} عمل فعلي",
+    recipeEquipment: "يتطلب:",
+    cookModeOvenTemperature: "الفرن: {temperature} °م",
+    equipmentTitle: "أدوات لا أملكها",
+    equipmentSubtitle: "لن تحتاج الوصفات إلى أي شيء تحدده هنا.",
+    equipment_oven: "فرن",
+    equipment_stovetop: "موقد",
+    equipment_microwave: "ميكروويف",
+    equipment_blender: "خلاط",
+    equipment_food_processor: "محضرة طعام",
+    equipment_mixer: "مضرب كهربائي",
+    equipment_grill: "شواية",
+    equipment_air_fryer: "قلاية هوائية",
+    equipment_slow_cooker: "طباخ بطيء",
+    equipment_pressure_cooker: "طنجرة ضغط",
+    cookModeReadAloud: "اقرأ الخطوة بصوت عالٍ",
+    cookModeStopReading: "إيقاف القراءة",
+    cookModeHandsFreeOn: "تشغيل الأوامر الصوتية",
+    cookModeHandsFreeOff: "إيقاف الأوامر الصوتية",
+    cookModeVoiceHint: "أستمع… قل «التالي» أو «السابق» أو «كرر» أو «المكونات» أو «مؤقت».",
+    cookModeVoiceHeard: "سمعت: «{text}»",
+    cookModeVoiceLastStep: "هذه هي الخطوة الأخيرة.",
+    cookModeVoiceTimerStarted: "بدأ المؤقت: {label}.",
+    cookModeVoiceTimerAlreadyRunning: "مؤقت هذه الخطوة يعمل بالفعل.",
+    cookModeVoiceNoTimer: "لا تحتوي هذه الخطوة على وقت للعد التنازلي.",
+    exportRecipe: "تصدير",
+    exportJsonLd: "ملف وصفة (JSON-LD)",
+    exportJsonLdHint: "تنسيق Schema.org Recipe الذي يمكن لتطبيقات إدارة الوصفات استيراده",
+    exportPrint: "طباعة / PDF",
+    exportServings: "{count} حصة",
+    exportServings_plural: "{count} حصص",
+    exportCalories: "السعرات الحرارية",
+    exportPerServing: "لكل حصة",
+    recipeBookExport: "تصدير الوصفات المعروضة ({count})",
+    recipeBookImport: "استيراد وصفات",
+    recipeBookImportHint: "الصق وصفة بأي شكل أو اختر ملفًا. تُقرأ ملفات الوصفات (JSON-LD) وملفات Markdown المصدّرة من التطبيق مباشرةً، ويحوّل الذكاء الاصطناعي أي نص آخر إلى وصفة.",
+    recipeBookImportPlaceholder: "الصق الوصفة هنا…",
+    recipeBookImportFile: "اختر ملفًا…",
+    recipeBookImportButton: "أضف إلى كتاب الوصفات",
+    recipeBookImporting: "جارٍ الاستيراد…",
+    recipeBookImportSuccess: "أُضيفت {count} وصفة إلى كتاب الوصفات.",
+    recipeBookImportSuccess_plural: "أُضيفت {count} وصفات إلى كتاب الوصفات.",
+    errorImportRecipes: "لم نعثر على وصفة في هذا النص. تأكد من أنه يحتوي على مكونات وخطوات، أو أن الملف ملف وصفات مُصدَّر.",
   },
   it: {
     headerTitle: "Dal Frigo alla Festa",
@@ -641,7 +2331,213 @@ export const translations = {
     errorIdentifyIngredients: "Impossibile identificare alcun ingrediente.",
     errorUnexpected: "Si è verificato un errore imprevisto. Riprova.",
     errorNoRecipes: "Non siamo riusciti a creare ricette con quello che hai. Prova ad aggiungere altri ingredienti!",
+    errorNoMoreRecipes: "Questa volta non sono arrivate nuove ricette. Riprova o cambia il tipo di pasto o la creatività.",
     translating: "Traduzione in corso...",
+    savedPantrySubtitle: "Hai già scansionato questa settimana? Riprendi da dove avevi lasciato.",
+    useSavedPantry: "Usa la mia dispensa salvata ({count} articoli)",
+    clearSavedPantry: "Svuota dispensa salvata",
+    savePantry: "Salva dispensa",
+    pantrySaved: "Dispensa salvata!",
+    pantryAddedOn: "Aggiunto il {date}",
+    markCooked: "Segna come cucinato",
+    markCookedSuccess: "Dispensa aggiornata!",
+    markCookedConfirm: "Rimuovere dalla dispensa gli ingredienti per {count} porzione/i?",
+    addToShoppingList: "Aggiungi alla lista della spesa",
+    shoppingListTitle: "Lista della spesa",
+    shoppingListSubtitle: "Tutto ciò che ti serve ancora per le ricette e le porzioni selezionate.",
+    shoppingListEmpty: "Hai tutto ciò che ti serve!",
+    shoppingListCopy: "Copia lista",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    saveRecipe: "Salva",
+    recipeSaved: "Salvata",
+    recipeBookTitle: "Le mie ricette",
+    recipeBookSubtitle: "Le tue ricette salvate, confrontate con ciò che hai ora in dispensa.",
+    recipeBookSearchPlaceholder: "Cerca per nome, ingrediente o tag",
+    recipeBookFavoritesOnly: "Solo preferiti",
+    recipeBookEmpty: "Nessuna ricetta salvata. Salvane una dai risultati per ritrovarla qui.",
+    recipeBookNoResults: "Nessuna ricetta corrisponde alla ricerca.",
+    recipeBookAddTag: "Aggiungi tag",
+    recipeBookToggleFavorite: "Attiva/disattiva preferito",
+    recipeBookDelete: "Elimina ricetta",
+    recipeBookDeleteConfirm: "Eliminare \"{name}\" dalle tue ricette?",
+    recipeBookOpen: "Apri ricetta",
+    recipeBookBackToList: "Torna alle mie ricette",
+    back: "Indietro",
+    settingsTitle: "Preferenze",
+    close: "Chiudi",
+    dietsTitle: "Dieta",
+    dietsSubtitle: "Ogni ricetta generata seguirà queste diete.",
+    diet_vegetarian: "Vegetariana",
+    diet_vegan: "Vegana",
+    diet_pescatarian: "Pescetariana",
+    diet_gluten_free: "Senza glutine",
+    diet_dairy_free: "Senza latticini",
+    diet_low_carb: "Low carb",
+    diet_halal: "Halal",
+    diet_kosher: "Kosher",
+    allergensTitle: "Allergie",
+    allergensSubtitle: "Le ricette che li contengono non vengono mai mostrate, anche se l'IA le suggerisce.",
+    allergen_nuts: "Frutta a guscio",
+    allergen_peanuts: "Arachidi",
+    allergen_gluten: "Glutine",
+    allergen_dairy: "Latticini",
+    allergen_eggs: "Uova",
+    allergen_fish: "Pesce",
+    allergen_shellfish: "Crostacei",
+    allergen_soy: "Soia",
+    allergen_sesame: "Sesamo",
+    allergensOther: "Altro allergene",
+    dislikesTitle: "Ingredienti sgraditi",
+    dislikesSubtitle: "L'IA li eviterà nel creare le ricette.",
+    dislikesPlaceholder: "Aggiungi ingrediente",
+    nutritionTitle: "Valori nutrizionali",
+    nutritionProtein: "Proteine",
+    nutritionCarbohydrates: "Carboidrati",
+    nutritionFat: "Grassi",
+    nutritionFiber: "Fibre",
+    nutritionSugar: "Zuccheri",
+    nutritionSodium: "Sodio",
+    perServingShort: "/porzione",
+    caloriesModelEstimate: "Stima IA: {count} kcal/porzione",
+    caloriesCalculated: "Calcolato: {count} kcal/porzione",
+    nutritionCoverage: "Calcolato da {matched} ingredienti su {total} nella nostra tabella nutrizionale",
+    caloriesDisagreement: "La stima dell'IA differisce dal valore calcolato del {percent}%. Va presa con cautela.",
+    nutritionCalculatedShort: "calc. {amount}",
+    loadingSendingIngredients: "Invio dei tuoi ingredienti allo chef...",
+    loadingWritingRecipe: "Scrittura della ricetta {count}...",
+    recipeStreamingPlaceholder: "La prossima ricetta è in arrivo...",
+    imageFailed: "Non è stato possibile generare la foto.",
+    retryImage: "Riprova immagine",
+    errorParseTitle: "La risposta dello chef è arrivata confusa",
+    errorParseMessage: "L'IA ha inviato una risposta che non siamo riusciti a leggere. Di solito è temporaneo, riprova.",
+    errorEmptyTitle: "Niente con cui lavorare",
+    errorQuotaTitle: "La cucina è troppo occupata in questo momento",
+    errorQuotaMessage: "È stato raggiunto il limite di utilizzo del servizio IA. Attendi un minuto e riprova, oppure controlla la tua quota API.",
+    errorEditIngredients: "Modifica ingredienti",
+    staplesTitle: "Ingredienti base della dispensa",
+    staplesSubtitle: "Ciò che hai sempre in casa. Le ricette possono usarli liberamente, anche se non sono nella foto.",
+    staplesPlaceholder: "Aggiungi un ingrediente, es. farina",
+    staplesReset: "Ripristina predefiniti",
+    mealPlanTitle: "Piano dei pasti",
+    mealPlanSubtitle: "Pianifica i pasti di più giorni con ciò che hai in dispensa, senza contare nulla due volte.",
+    mealPlanOpen: "Piano pasti",
+    mealPlanDays: "Giorni",
+    mealPlanServings: "Porzioni per pasto",
+    mealPlanMeals: "Pasti",
+    mealSlotBreakfast: "Colazione",
+    mealSlotLunch: "Pranzo",
+    mealSlotDinner: "Cena",
+    mealPlanGenerate: "Pianifica i miei pasti",
+    mealPlanRegenerate: "Pianifica di nuovo",
+    mealPlanGenerating: "Pianificazione dei pasti...",
+    mealPlanNoSlots: "Scegli almeno un pasto.",
+    mealPlanEmptyPantry: "La tua dispensa è vuota. Scansiona prima il frigo.",
+    mealPlanCalendarTitle: "Il tuo piano",
+    mealPlanClear: "Cancella piano",
+    mealPlanDay: "Giorno {day}",
+    mealPlanUnplanned: "Niente in programma",
+    mealPlanCovered: "In dispensa",
+    mealPlanCooked: "Cucinato",
+    mealPlanMissing: "{count} da comprare",
+    mealPlanBackToPlan: "Torna al piano",
+    errorMealPlan: "Impossibile creare il piano dei pasti. Riprova.",
+    expiresLabel: "Da consumare entro",
+    expiryExpired: "Scaduto",
+    expiryToday: "Scade oggi",
+    expiryInDays: "Scade tra {count} giorno/i",
+    expiringSummary: "{count} ingrediente/i scadono a breve. Le ricette cercheranno di usarli per primi.",
+    sortLabel: "Ordina per",
+    sortSuggested: "Ordine suggerito",
+    sortExpiring: "Usa più ingredienti in scadenza",
+    recipeUsesExpiring: "Usa {count} ingrediente/i in scadenza",
+    scanModeFridge: "Foto del frigo",
+    scanModeBarcode: "Codici a barre",
+    scanModeReceipt: "Scontrino",
+    scanModeBarcodeSubtitle: "Carica fino a {MAX_IMAGES} foto di codici a barre. I prodotti che nomini una volta verranno riconosciuti la prossima volta.",
+    scanModeReceiptSubtitle: "Carica fino a {MAX_IMAGES} foto di uno scontrino e aggiungeremo ciò che hai comprato.",
+    scanBarcodesButton: "Leggi codici ({count})",
+    scanReceiptButton: "Leggi scontrino ({count})",
+    scanAddingTo: "I nuovi articoli verranno aggiunti alla tua lista di {count} ingredienti.",
+    scanMore: "Scansiona altro",
+    unknownProduct: "Prodotto sconosciuto {code}: inserisci il nome",
+    errorNoBarcodes: "Non abbiamo trovato codici a barre leggibili in queste foto. Prova uno scatto più vicino e nitido.",
+    errorReadReceipt: "Non siamo riusciti a leggere alimenti su questo scontrino. Prova una foto più piatta e ben illuminata.",
+    detectionPhotosTitle: "Cosa abbiamo trovato",
+    detectionPhotosHint: "Tocca un riquadro per andare all'articolo. I riquadri ambra tratteggiati sono ipotesi da controllare.",
+    detectionPhotoAlt: "Foto del frigo {number}",
+    detectionUnnamed: "Articolo senza nome",
+    detectionLowConfidence: "Incerto — controlla",
+    scanModeText: "Scrivi o detta",
+    scanModeTextSubtitle: "Nessuna foto: elenca cosa hai, con le quantità se le conosci.",
+    textEntryPlaceholder: "es. 6 uova, 500 g di carne macinata, un po' di spinaci",
+    textEntryButton: "Aggiungi questi ingredienti",
+    dictationStart: "Avvia dettatura",
+    dictationStop: "Interrompi dettatura",
+    dictationListening: "In ascolto…",
+    dictationNotAllowed: "L'accesso al microfono è bloccato. Consentilo nelle impostazioni del browser per dettare.",
+    dictationFailed: "La dettatura si è interrotta. Riprova o scrivi.",
+    errorReadIngredientText: "Nessun ingrediente trovato nel testo. Prova a separarli con virgole.",
+    startCooking: "Inizia a cucinare",
+    cookModeTitle: "Preparazione di {name}",
+    cookModeStepOf: "Passo {current} di {total}",
+    cookModeScreenOn: "Lo schermo resta acceso",
+    cookModeExit: "Esci dalla modalità cucina",
+    cookModeStepIngredients: "Per questo passo",
+    cookModeStartTimer: "Avvia timer: {label}",
+    cookModeTimerRunning: "Timer in corso: {label}",
+    cookModeTimerStep: "Passo {step} · {label}",
+    cookModeTimerDone: "Tempo scaduto!",
+    cookModeTimerPause: "Pausa",
+    cookModeTimerResume: "Riprendi",
+    cookModeTimerDismiss: "Rimuovi timer",
+    cookModeBack: "Indietro",
+    cookModeNext: "Passo successivo",
+    cookModeFinish: "Finito",
+    recipeTotalTime: "Totale {time}",
+    recipeActiveTime: "{time} di lavoro attivo",
+    recipeEquipment: "Serve:",
+    cookModeOvenTemperature: "Forno: {temperature} °C",
+    equipmentTitle: "Attrezzatura che non ho",
+    equipmentSubtitle: "Le ricette non richiederanno nulla di ciò che selezioni qui.",
+    equipment_oven: "Forno",
+    equipment_stovetop: "Fornelli",
+    equipment_microwave: "Microonde",
+    equipment_blender: "Frullatore",
+    equipment_food_processor: "Robot da cucina",
+    equipment_mixer: "Sbattitore elettrico",
+    equipment_grill: "Griglia",
+    equipment_air_fryer: "Friggitrice ad aria",
+    equipment_slow_cooker: "Slow cooker",
+    equipment_pressure_cooker: "Pentola a pressione",
+    cookModeReadAloud: "Leggi il passaggio ad alta voce",
+    cookModeStopReading: "Interrompi la lettura",
+    cookModeHandsFreeOn: "Attiva i comandi vocali",
+    cookModeHandsFreeOff: "Disattiva i comandi vocali",
+    cookModeVoiceHint: "In ascolto… di' «avanti», «indietro», «ripeti», «ingredienti» o «timer».",
+    cookModeVoiceHeard: "Ho sentito: «{text}»",
+    cookModeVoiceLastStep: "Questo è l'ultimo passaggio.",
+    cookModeVoiceTimerStarted: "Timer avviato per {label}.",
+    cookModeVoiceTimerAlreadyRunning: "Il timer di questo passaggio è già in funzione.",
+    cookModeVoiceNoTimer: "Questo passaggio non ha un tempo da cronometrare.",
+    exportRecipe: "Esporta",
+    exportJsonLd: "File ricetta (JSON-LD)",
+    exportJsonLdHint: "Formato Schema.org Recipe, importabile nelle app di ricette",
+    exportPrint: "Stampa / PDF",
+    exportServings: "{count} porzione",
+    exportServings_plural: "{count} porzioni",
+    exportCalories: "Calorie",
+    exportPerServing: "Per porzione",
+    recipeBookExport: "Esporta le {count} ricette mostrate",
+    recipeBookImport: "Importa ricette",
+    recipeBookImportHint: "Incolla una ricetta in qualsiasi forma o scegli un file. I file ricetta (JSON-LD) e le nostre esportazioni Markdown vengono letti direttamente; qualsiasi altro testo viene trasformato in ricetta dall'IA.",
+    recipeBookImportPlaceholder: "Incolla qui una ricetta…",
+    recipeBookImportFile: "Scegli un file…",
+    recipeBookImportButton: "Aggiungi al ricettario",
+    recipeBookImporting: "Importazione…",
+    recipeBookImportSuccess: "{count} ricetta aggiunta al ricettario.",
+    recipeBookImportSuccess_plural: "{count} ricette aggiunte al ricettario.",
+    errorImportRecipes: "Non abbiamo trovato una ricetta in quel testo. Controlla che contenga ingredienti e passaggi, o che il file sia un'esportazione di ricette.",
   },
 };
 
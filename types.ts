@@ -4,30 +4,124 @@ export interface AvailableIngredient {
   name: string;
   quantity: number;
   unit: string;
+  addedAt?: string; // ISO date, set when the item is first saved to the pantry
+  purchasedAt?: string; // YYYY-MM-DD, defaults to the added date
+  expiresAt?: string; // YYYY-MM-DD, from the user or the model; otherwise estimated from the food category
+  barcode?: string; // EAN-13/EAN-8 code, for items added by scanning a product
+  // Where the vision model saw the item, only for the photos of the current scan.
+  detection?: IngredientDetection;
 }
 
+export interface IngredientDetection {
+  imageIndex: number; // index into the uploaded photos
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax], scaled to 0-1000
+  confidence: number; // 0-1
+}
+
+// How ingredients were captured on the upload screen.
+export type ScanMode = 'fridge' | 'barcode' | 'receipt';
+
 export interface Ingredient {
   name:string;
   quantity: number;
   unit: string;
 }
 
+// Per-serving nutrition. Sodium is in milligrams, everything else in grams.
+export interface NutritionInfo {
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+export type Equipment = 'oven' | 'stovetop' | 'microwave' | 'blender' | 'food-processor' | 'mixer' | 'grill' | 'air-fryer' | 'slow-cooker' | 'pressure-cooker';
+
+// One instruction with the details the model gave for it. `text` is the matching entry of `Recipe.instructions`.
+export interface InstructionStep {
+  text: string;
+  durationMinutes?: number;
+  // Unattended time (baking, simmering, resting) counts toward the total but not the active time.
+  isPassive?: boolean;
+  ovenTemperatureC?: number;
+  equipment?: Equipment[];
+  // Names of the recipe ingredients used in this step.
+  ingredients?: string[];
+}
+
 export interface Recipe {
   recipeName: string;
   description: string;
   ingredients: Ingredient[];
   instructions: string[];
+  // Absent on recipes saved before steps were structured.
+  steps?: InstructionStep[];
   calories?: number;
+  nutrition?: NutritionInfo;
   imageUrl?: string;
 }
 
+// Only tracked while an image is outstanding or has failed; absent once the image is in.
+export type ImageStatus = 'loading' | 'failed';
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  savedAt: string; // ISO date
+  favorite: boolean;
+  tags: string[];
+}
+
 export interface ShoppingListItem {
   name: string;
   amountToBuy: number;
   unit: string;
 }
 
+export type DietType = 'vegetarian' | 'vegan' | 'pescatarian' | 'gluten-free' | 'dairy-free' | 'low-carb' | 'halal' | 'kosher';
+
+export interface DietaryProfile {
+  diets: DietType[];
+  allergens: string[]; // ids from ALLERGEN_KEYWORDS or free text
+  dislikedIngredients: string[];
+}
+
+// User preferences sent along with every recipe generation request.
+export interface RecipeConstraints {
+  dietaryProfile?: DietaryProfile;
+  // Items the user always has and that recipes may use freely.
+  pantryStaples?: string[];
+  // Names of available items that expire soon and should be used first.
+  expiringIngredients?: string[];
+  // Equipment the user doesn't own, which recipes must not need.
+  unavailableEquipment?: Equipment[];
+}
+
 export interface MealType {
   hot: boolean;
   cold: boolean;
 }
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface MealPlanOptions {
+  days: number;
+  slots: MealSlot[];
+  servingsPerMeal: number;
+}
+
+export interface PlannedMeal {
+  day: number; // 1-based
+  slot: MealSlot;
+  recipe: Recipe;
+}
+
+export interface MealPlan {
+  options: MealPlanOptions;
+  meals: PlannedMeal[];
+  createdAt: string; // ISO date
+  // "day|slot" keys of the meals already cooked, and so already taken out of the pantry.
+  cookedMeals?: string[];
+}
@@ -0,0 +1,109 @@
+// useSpeechRecognition.ts
+// Dictation through the Web Speech API. Chrome, Edge and Safari ship it (some
+// behind a `webkit` prefix); elsewhere `isSupported` is false and the UI simply
+// hides the microphone.
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionInstance {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+// 'not-allowed' means the user (or the browser) refused microphone access.
+export type SpeechRecognitionErrorKind = 'not-allowed' | 'failed';
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const scope = globalThis as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+/**
+ * Listens until stopped, calling `onFinalTranscript` with each finished phrase.
+ * `interimTranscript` holds the words still being recognized, for live feedback.
+ */
+export const useSpeechRecognition = (languageCode: string, onFinalTranscript: (text: string) => void) => {
+  const [isListening, setIsListening] = useState(false);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [error, setError] = useState<SpeechRecognitionErrorKind | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  // Kept in a ref so a new callback doesn't restart a session that is already listening.
+  const onFinalRef = useRef(onFinalTranscript);
+  onFinalRef.current = onFinalTranscript;
+
+  const isSupported = getRecognitionConstructor() !== undefined;
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  // Unlike `stop`, drops what was heard but not yet recognized.
+  const abort = useCallback(() => {
+    recognitionRef.current?.abort();
+  }, []);
+
+  const start = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition || recognitionRef.current) return;
+
+    const recognition = new Recognition();
+    recognition.lang = languageCode;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.onresult = (event) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0]?.transcript.trim() ?? '';
+        if (result.isFinal) {
+          if (transcript) onFinalRef.current(transcript);
+        } else {
+          interim += `${transcript} `;
+        }
+      }
+      setInterimTranscript(interim.trim());
+    };
+    recognition.onerror = (event) => {
+      // 'no-speech' and 'aborted' just end the session; there is nothing to report.
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        setError('not-allowed');
+      } else if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        setError('failed');
+      }
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setIsListening(false);
+      setInterimTranscript('');
+    };
+
+    recognitionRef.current = recognition;
+    setError(null);
+    setIsListening(true);
+    try {
+      recognition.start();
+    } catch (e) {
+      console.error("Failed to start speech recognition:", e);
+      recognitionRef.current = null;
+      setIsListening(false);
+      setError('failed');
+    }
+  }, [languageCode]);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { isSupported, isListening, interimTranscript, error, start, stop, abort };
+};
@@ -0,0 +1,57 @@
+// useSpeechSynthesis.ts
+// Reads text aloud through the Web Speech API. Browsers load their voices
+// asynchronously, so the voice for the language is picked once they arrive;
+// without the API, or without a voice for the language, `isSupported` is false
+// and the UI hides its read-aloud controls.
+import { useCallback, useEffect, useState } from 'react';
+
+const getSynthesis = (): SpeechSynthesis | undefined =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : undefined;
+
+// "zh-CN" prefers a zh-CN voice, then any Chinese voice.
+const findVoice = (voices: SpeechSynthesisVoice[], languageCode: string): SpeechSynthesisVoice | undefined => {
+  const code = languageCode.toLowerCase();
+  const base = code.split('-')[0];
+  return voices.find(voice => voice.lang.toLowerCase().replace('_', '-') === code)
+    ?? voices.find(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === base);
+};
+
+export const useSpeechSynthesis = (languageCode: string) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => getSynthesis()?.getVoices() ?? []);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  useEffect(() => {
+    const synthesis = getSynthesis();
+    if (!synthesis) return;
+    const handleVoicesChanged = () => setVoices(synthesis.getVoices());
+    synthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => synthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+  }, []);
+
+  const voice = findVoice(voices, languageCode);
+  // Before the voices have loaded, assume the browser will find one for `lang`.
+  const isSupported = getSynthesis() !== undefined && (voices.length === 0 || voice !== undefined);
+
+  const cancel = useCallback(() => {
+    getSynthesis()?.cancel();
+    setIsSpeaking(false);
+  }, []);
+
+  const speak = useCallback((text: string) => {
+    const synthesis = getSynthesis();
+    if (!synthesis || text.trim() === '') return;
+    // Anything still being read is replaced, so "repeat" starts over straight away.
+    synthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = languageCode;
+    if (voice) utterance.voice = voice;
+    utterance.onstart = () => setIsSpeaking(true);
+    utterance.onend = () => setIsSpeaking(false);
+    utterance.onerror = () => setIsSpeaking(false);
+    synthesis.speak(utterance);
+  }, [languageCode, voice]);
+
+  useEffect(() => () => getSynthesis()?.cancel(), []);
+
+  return { isSupported, isSpeaking, speak, cancel };
+};
@@ -0,0 +1,46 @@
+// useWakeLock.ts
+// Keeps the screen on while `enabled`, using the Screen Wake Lock API where the
+// browser has it. The browser drops the lock whenever the page is hidden, so it
+// is requested again when the page becomes visible.
+import { useEffect, useState } from 'react';
+
+export const useWakeLock = (enabled: boolean) => {
+  const [isActive, setIsActive] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let isReleased = false;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        // Released while the request was pending.
+        if (isReleased) {
+          lock.release();
+          return;
+        }
+        sentinel = lock;
+        setIsActive(true);
+        lock.addEventListener('release', () => setIsActive(false));
+      } catch (e) {
+        console.warn("Could not keep the screen awake:", e);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      isReleased = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release();
+      setIsActive(false);
+    };
+  }, [enabled]);
+
+  return { isActive };
+};